@@ -2,7 +2,10 @@ import type {
   Currency,
   PaymentMethod,
   TradeType,
+  UserProfile,
   Offer,
+  CreateOfferParams,
+  UpdateOfferParams,
   OfferSearchParams,
   PaginatedResponse,
   SwapEstimate,
@@ -10,23 +13,128 @@ import type {
   Swap,
   CreateSwapParams,
   Trade,
+  TradeMessage,
+  Dispute,
+  DisputeEvidence,
+  Feedback,
+  LeaveFeedbackParams,
   StartTradeParams,
   ApiError,
+  CassetteConfig,
 } from './types.js';
+import { ResponseCache, type CacheStats } from './cache.js';
+import { TokenBucket, backoffDelay, parseRetryAfter, sleep } from './rate-limit.js';
+import { LocalCoinSwapError, NetworkError, createApiError } from './errors.js';
+import { followPages } from './pagination.js';
+import { createCassette, type Cassette } from './cassette.js';
+
+export interface ClientOptions {
+  // Response cache for public reference data; null disables caching
+  cache?: ResponseCache | null;
+  // Timeout for each HTTP attempt
+  timeoutMs?: number;
+  // Automatic retries for GET requests on network errors, timeouts, 5xx and 429 responses.
+  // Other methods (createSwap, startTrade...) are never retried.
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  // Longest Retry-After the client waits out; longer ones fail straight away
+  maxRetryAfterMs?: number;
+  // Client-side token bucket applied to every request; null disables it
+  rateLimit?: { capacity: number; refillPerSecond: number } | null;
+  // Record every HTTP exchange to a cassette file, or replay one instead of using the network
+  cassette?: CassetteConfig | null;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 300;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5000;
+const DEFAULT_MAX_RETRY_AFTER_MS = 60000;
+const DEFAULT_RATE_LIMIT = { capacity: 10, refillPerSecond: 2 };
 
 export class LocalCoinSwapClient {
   private baseUrl: string;
   private token: string;
+  private cache: ResponseCache | null;
+  private rateLimiter: TokenBucket | null;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private maxRetryAfterMs: number;
+  private cassette: Cassette | null;
 
-  constructor(baseUrl: string, token: string) {
+  constructor(baseUrl: string, token: string, options: ClientOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, '');
     this.token = token;
+    this.cache = options.cache === undefined ? new ResponseCache() : options.cache;
+
+    const rateLimit = options.rateLimit === undefined ? DEFAULT_RATE_LIMIT : options.rateLimit;
+    this.rateLimiter = rateLimit
+      ? new TokenBucket(rateLimit.capacity, rateLimit.refillPerSecond)
+      : null;
+
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+    this.cassette = options.cassette
+      ? createCassette(options.cassette, this.baseUrl, this.token)
+      : null;
+  }
+
+  // A single fetch attempt, aborted after timeoutMs
+  private async fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    idempotent: boolean
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const attempt = { ...init, signal: controller.signal };
+      return await (this.cassette ? this.cassette.fetch(url, attempt) : fetch(url, attempt));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new NetworkError(`Request timed out after ${this.timeoutMs}ms`, {
+          timeout: true,
+          retryable: idempotent,
+          cause: error,
+        });
+      }
+      throw new NetworkError(
+        `Network error: ${error instanceof Error ? error.message : String(error)}`,
+        { retryable: idempotent, cause: error }
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    return backoffDelay(attempt, this.retryBaseDelayMs, this.retryMaxDelayMs);
   }
 
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    const idempotent = method === 'GET';
+
+    // Only GETs of endpoints with a cache rule (public reference data) are cached
+    const cache =
+      this.cache && method === 'GET' && this.cache.ttlFor(endpoint) !== null ? this.cache : null;
+
+    if (cache) {
+      const cached = await cache.get<T>(endpoint);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
     const url = `${this.baseUrl}${endpoint}`;
 
     const headers: Record<string, string> = {
@@ -38,10 +146,32 @@ export class LocalCoinSwapClient {
       headers['Authorization'] = `Token ${this.token}`;
     }
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
+    let response: Response;
+    for (let attempt = 0; ; attempt++) {
+      // Only idempotent requests are retried: a POST that timed out may still have gone through
+      const canRetry = idempotent && attempt < this.maxRetries;
+
+      await this.rateLimiter?.take();
+      try {
+        response = await this.fetchWithTimeout(url, { ...options, headers }, idempotent);
+      } catch (error) {
+        if (!canRetry) throw error;
+        await sleep(this.retryDelay(attempt));
+        continue;
+      }
+
+      if (response.status === 429 && canRetry) {
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        if (retryAfter === null || retryAfter <= this.maxRetryAfterMs) {
+          await sleep(retryAfter ?? this.retryDelay(attempt));
+          continue;
+        }
+      } else if (response.status >= 500 && canRetry) {
+        await sleep(this.retryDelay(attempt));
+        continue;
+      }
+      break;
+    }
 
     if (!response.ok) {
       let errorBody: ApiError;
@@ -50,14 +180,62 @@ export class LocalCoinSwapClient {
       } catch {
         errorBody = { detail: response.statusText };
       }
-      throw new Error(
-        `API Error (${response.status}): ${
-          errorBody.detail || errorBody.error || errorBody.message || JSON.stringify(errorBody)
-        }`
+      const retryAfterMs =
+        response.status === 429
+          ? parseRetryAfter(response.headers.get('Retry-After')) ?? undefined
+          : undefined;
+      throw createApiError(response.status, errorBody, { idempotent, retryAfterMs });
+    }
+
+    // DELETE endpoints respond with no content
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const data = (await response.json()) as T;
+    if (cache) {
+      await cache.set(endpoint, data);
+    }
+    return data;
+  }
+
+  // Fetch a page of a list by its `next`/`previous` link. Only links to this API are followed,
+  // and always through baseUrl, so the token is never sent to another host.
+  async getPage<T>(link: string): Promise<PaginatedResponse<T>> {
+    const base = new URL(this.baseUrl);
+    const basePath = base.pathname.replace(/\/$/, '');
+    let url: URL;
+    try {
+      url = new URL(link, `${this.baseUrl}/`);
+    } catch {
+      throw new LocalCoinSwapError(`Invalid pagination link: ${link}`, 'API_ERROR');
+    }
+    if (url.host !== base.host || !url.pathname.startsWith(`${basePath}/api/v2/`)) {
+      throw new LocalCoinSwapError(
+        `Refusing to follow pagination link outside the API: ${link}`,
+        'API_ERROR'
       );
     }
+    return this.request<PaginatedResponse<T>>(
+      `${url.pathname.slice(basePath.length)}${url.search}`
+    );
+  }
+
+  // Iterate over every item of a list, following `next` links, e.g.
+  // `for await (const trade of client.paginate(() => client.getMyTrades()))`
+  async *paginate<T>(first: () => Promise<PaginatedResponse<T>>): AsyncGenerator<T> {
+    for await (const { page } of followPages(first, (link) => this.getPage<T>(link))) {
+      yield* page.results;
+    }
+  }
 
-    return (await response.json()) as T;
+  // Cache management
+  async invalidateCache(prefix?: string): Promise<number> {
+    return this.cache ? this.cache.invalidate(prefix) : 0;
+  }
+
+  async getCacheStats(): Promise<CacheStats | null> {
+    return this.cache ? this.cache.stats() : null;
   }
 
   // Currency endpoints
@@ -86,8 +264,8 @@ export class LocalCoinSwapClient {
     if (params.trading_type) queryParams.set('trading_type', params.trading_type);
     if (params.payment_method) queryParams.set('payment_method', params.payment_method);
     if (params.country_code) queryParams.set('country_code', params.country_code);
-    if (params.min_amount) queryParams.set('min_amount', params.min_amount.toString());
-    if (params.max_amount) queryParams.set('max_amount', params.max_amount.toString());
+    if (params.min_amount) queryParams.set('min_amount', params.min_amount);
+    if (params.max_amount) queryParams.set('max_amount', params.max_amount);
     if (params.ordering) queryParams.set('ordering', params.ordering);
     if (params.page) queryParams.set('page', params.page.toString());
     if (params.page_size) queryParams.set('page_size', params.page_size.toString());
@@ -106,6 +284,24 @@ export class LocalCoinSwapClient {
     return this.request<Offer>(`/api/v2/offers/${uuid}/`);
   }
 
+  async createOffer(params: CreateOfferParams): Promise<Offer> {
+    return this.request<Offer>('/api/v2/offers/', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async updateOffer(uuid: string, params: UpdateOfferParams): Promise<Offer> {
+    return this.request<Offer>(`/api/v2/offers/${uuid}/`, {
+      method: 'PATCH',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async deleteOffer(uuid: string): Promise<void> {
+    await this.request<void>(`/api/v2/offers/${uuid}/`, { method: 'DELETE' });
+  }
+
   async getFeaturedOffers(): Promise<Offer[]> {
     return this.request<Offer[]>('/api/v2/offers/featured/');
   }
@@ -152,6 +348,10 @@ export class LocalCoinSwapClient {
     return this.request<PaginatedResponse<Swap>>('/api/v2/swaps/');
   }
 
+  async getSwap(uuid: string): Promise<Swap> {
+    return this.request<Swap>(`/api/v2/swaps/${uuid}/`);
+  }
+
   async createSwap(params: CreateSwapParams): Promise<Swap> {
     return this.request<Swap>('/api/v2/swaps/', {
       method: 'POST',
@@ -177,4 +377,66 @@ export class LocalCoinSwapClient {
   async getMyTrades(): Promise<PaginatedResponse<Trade>> {
     return this.request<PaginatedResponse<Trade>>('/api/v2/trades/');
   }
+
+  async markTradePaid(uuid: string): Promise<Trade> {
+    return this.request<Trade>(`/api/v2/trades/${uuid}/mark-paid/`, { method: 'POST' });
+  }
+
+  async releaseTrade(uuid: string): Promise<Trade> {
+    return this.request<Trade>(`/api/v2/trades/${uuid}/release/`, { method: 'POST' });
+  }
+
+  async cancelTrade(uuid: string): Promise<Trade> {
+    return this.request<Trade>(`/api/v2/trades/${uuid}/cancel/`, { method: 'POST' });
+  }
+
+  // Trade chat endpoints
+  async getTradeMessages(uuid: string): Promise<PaginatedResponse<TradeMessage>> {
+    return this.request<PaginatedResponse<TradeMessage>>(`/api/v2/trades/${uuid}/messages/`);
+  }
+
+  async sendTradeMessage(uuid: string, message: string): Promise<TradeMessage> {
+    return this.request<TradeMessage>(`/api/v2/trades/${uuid}/messages/`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    });
+  }
+
+  // Dispute endpoints
+  async openDispute(uuid: string, reason: string): Promise<Dispute> {
+    return this.request<Dispute>(`/api/v2/trades/${uuid}/dispute/`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async getDispute(uuid: string): Promise<Dispute> {
+    return this.request<Dispute>(`/api/v2/trades/${uuid}/dispute/`);
+  }
+
+  async addDisputeEvidence(uuid: string, text: string): Promise<DisputeEvidence> {
+    return this.request<DisputeEvidence>(`/api/v2/trades/${uuid}/dispute/evidence/`, {
+      method: 'POST',
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  // Feedback endpoints
+  async leaveFeedback(params: LeaveFeedbackParams): Promise<Feedback> {
+    return this.request<Feedback>(`/api/v2/trades/${params.trade_uuid}/feedback/`, {
+      method: 'POST',
+      body: JSON.stringify({ rating: params.rating, comment: params.comment }),
+    });
+  }
+
+  // Profile endpoints
+  async getUserProfile(username: string): Promise<UserProfile> {
+    return this.request<UserProfile>(`/api/v2/profile/${encodeURIComponent(username)}/`);
+  }
+
+  async getUserFeedback(username: string): Promise<PaginatedResponse<Feedback>> {
+    return this.request<PaginatedResponse<Feedback>>(
+      `/api/v2/profile/${encodeURIComponent(username)}/feedback/`
+    );
+  }
 }
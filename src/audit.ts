@@ -0,0 +1,308 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { appendFile } from 'node:fs/promises';
+import type { ToolResponse } from './handlers.js';
+
+// One tool invocation. Entries are hash-chained: each hash covers the entry and the previous
+// entry's hash, so editing, removing or reordering entries breaks the chain from that point on.
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  tool: string;
+  params: Record<string, unknown>;
+  outcome: 'ok' | 'error';
+  duration_ms: number;
+  error_code?: string;
+  error?: string;
+  // Confirmation issued by this call, or presented to execute a confirmed action. A presented
+  // confirmation is recorded even when the call failed, since the action may have gone through.
+  confirmation_issued?: string;
+  confirmation_consumed?: string;
+  // Swaps, trades and offers created or acted on
+  swap_uuid?: string;
+  trade_uuid?: string;
+  offer_uuid?: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  tool?: string;
+  limit?: number;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  entries: number;
+  // First entry whose hash does not match
+  first_invalid_seq?: number;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// Parameter names whose values never reach the log
+const SECRET_KEY_REGEX =
+  /token|secret|password|passphrase|authorization|api[_-]?key|private[_-]?key/i;
+
+// Most entries a single query returns
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+// Entries kept in memory when no log file is configured
+const MAX_MEMORY_ENTRIES = 10000;
+
+// Audit log state: the file (if any), the chain head, and in-memory entries otherwise
+let logFile: string | null = null;
+let lastSeq = 0;
+let lastHash = GENESIS_HASH;
+let memoryEntries: AuditEntry[] = [];
+let writeQueue: Promise<void> = Promise.resolve();
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+// Parameters holding currency symbols, which handlers upper-case and trim before using them
+const CURRENCY_KEY_REGEX = /^(symbol|[a-z]+_currency)$/;
+
+// Params as the handlers act on them, so `btc` and `BTC ` are logged (and filtered) as `BTC`
+export function normalizeParams(params: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(params).map(([key, value]) =>
+      CURRENCY_KEY_REGEX.test(key) && typeof value === 'string'
+        ? [key, value.trim().toUpperCase()]
+        : [key, value]
+    )
+  );
+}
+
+// Replace secret-looking values, recursing into nested objects and arrays
+export function redact(value: unknown, key = ''): unknown {
+  if (key && SECRET_KEY_REGEX.test(key)) return '[REDACTED]';
+  if (Array.isArray(value)) return value.map((item) => redact(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+function readEntries(file: string): AuditEntry[] {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return text
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as AuditEntry;
+      } catch {
+        throw new Error(`Corrupt audit log ${file}: line ${index + 1} is not valid JSON`);
+      }
+    });
+}
+
+// Append entries to a JSONL file, continuing the chain already in it
+export function configureAuditLog(file: string | null): void {
+  logFile = file;
+  memoryEntries = [];
+  lastSeq = 0;
+  lastHash = GENESIS_HASH;
+  if (!file) return;
+
+  const entries = readEntries(file);
+  const last = entries[entries.length - 1];
+  if (last) {
+    lastSeq = last.seq;
+    lastHash = last.hash;
+  }
+}
+
+function getEntries(): AuditEntry[] {
+  return logFile ? readEntries(logFile) : memoryEntries;
+}
+
+// Recompute the chain and report the first entry that does not match. A file must chain back to
+// the genesis hash; the in-memory log may have dropped its oldest entries.
+export function verifyChain(
+  entries: AuditEntry[],
+  startHash: string = GENESIS_HASH
+): ChainVerification {
+  let prevHash = startHash;
+  for (const entry of entries) {
+    const { hash, ...rest } = entry;
+    if (entry.prev_hash !== prevHash || hashEntry(rest) !== hash) {
+      return { valid: false, entries: entries.length, first_invalid_seq: entry.seq };
+    }
+    prevHash = hash;
+  }
+  return { valid: true, entries: entries.length };
+}
+
+export function appendAuditEntry(
+  record: Omit<AuditEntry, 'seq' | 'timestamp' | 'prev_hash' | 'hash'>
+): Promise<void> {
+  const unsigned = {
+    seq: ++lastSeq,
+    timestamp: new Date().toISOString(),
+    ...record,
+    params: redact(record.params) as Record<string, unknown>,
+    prev_hash: lastHash,
+  };
+  const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+  lastHash = entry.hash;
+
+  if (!logFile) {
+    memoryEntries.push(entry);
+    if (memoryEntries.length > MAX_MEMORY_ENTRIES) memoryEntries.shift();
+    return Promise.resolve();
+  }
+
+  // Appends are serialised so entries land in chain order. A failed write is reported but does
+  // not fail the tool call: the action it describes has already happened.
+  const file = logFile;
+  writeQueue = writeQueue
+    .then(() => appendFile(file, `${JSON.stringify(entry)}\n`, 'utf8'))
+    .catch((error) => {
+      console.error(
+        `Audit log write failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
+  return writeQueue;
+}
+
+type UuidField = 'swap_uuid' | 'trade_uuid' | 'offer_uuid';
+
+// What the `uuid` parameter of each tool that takes one identifies
+const UUID_PARAM_FIELDS: Record<string, UuidField> = {
+  get_offer: 'offer_uuid',
+  update_offer: 'offer_uuid',
+  delete_offer: 'offer_uuid',
+  get_swap: 'swap_uuid',
+  wait_for_swap: 'swap_uuid',
+  get_trade: 'trade_uuid',
+  mark_trade_paid: 'trade_uuid',
+  release_trade: 'trade_uuid',
+  cancel_trade: 'trade_uuid',
+  get_trade_messages: 'trade_uuid',
+  send_trade_message: 'trade_uuid',
+  open_dispute: 'trade_uuid',
+  get_dispute: 'trade_uuid',
+  add_dispute_evidence: 'trade_uuid',
+  leave_feedback: 'trade_uuid',
+};
+
+// UUIDs named by the parameters, known whatever the outcome
+function describeParams(tool: string, params: Record<string, unknown>): Partial<AuditEntry> {
+  const details: Partial<AuditEntry> = {};
+  const uuidField = UUID_PARAM_FIELDS[tool];
+  if (uuidField && typeof params.uuid === 'string') details[uuidField] = params.uuid;
+  if (typeof params.offer_uuid === 'string') details.offer_uuid = params.offer_uuid;
+  return details;
+}
+
+// Pull confirmation IDs, UUIDs and error details out of a handler's JSON response
+function describeResponse(
+  tool: string,
+  params: Record<string, unknown>,
+  response: ToolResponse
+): Partial<AuditEntry> {
+  const details = describeParams(tool, params);
+  const text = response.content[0]?.text ?? '';
+  let body: Record<string, unknown> | null = null;
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object') body = parsed as Record<string, unknown>;
+  } catch {
+    // Plain-text response (e.g. a validation error)
+  }
+
+  if (body?.status === 'confirmation_required' && typeof body.confirmation_id === 'string') {
+    details.confirmation_issued = body.confirmation_id;
+  } else if (typeof params.confirmation_id === 'string') {
+    details.confirmation_consumed = params.confirmation_id;
+  }
+
+  if (response.isError) {
+    const error = body?.error as { code?: string; message?: string } | undefined;
+    // Structured errors carry a code; refusals such as slippage_exceeded carry a status
+    details.error_code =
+      error?.code ?? (typeof body?.status === 'string' ? body.status : undefined);
+    details.error = (error?.message ?? text).slice(0, 500);
+    return details;
+  }
+
+  for (const key of ['swap', 'trade', 'offer'] as const) {
+    const value = body?.[key] as { uuid?: unknown } | undefined;
+    if (typeof value?.uuid === 'string') details[`${key}_uuid`] = value.uuid;
+  }
+  return details;
+}
+
+// Wrap a tool handler so every invocation is written to the audit log
+export function withAudit<P extends Record<string, unknown>>(
+  tool: string,
+  handler: (params: P) => Promise<ToolResponse>
+): (params: P) => Promise<ToolResponse> {
+  return async (params) => {
+    const started = Date.now();
+    const logged = normalizeParams(params ?? {});
+    let response: ToolResponse;
+    try {
+      response = await handler(params);
+    } catch (error) {
+      await appendAuditEntry({
+        tool,
+        params: logged,
+        outcome: 'error',
+        duration_ms: Date.now() - started,
+        ...describeParams(tool, logged),
+        ...(typeof logged.confirmation_id === 'string' && {
+          confirmation_consumed: logged.confirmation_id,
+        }),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    await appendAuditEntry({
+      tool,
+      params: logged,
+      outcome: response.isError ? 'error' : 'ok',
+      duration_ms: Date.now() - started,
+      ...describeResponse(tool, logged, response),
+    });
+    return response;
+  };
+}
+
+// Entries matching the filters, oldest first, limited to the most recent `limit`
+export function queryAuditLog(query: AuditQuery = {}): {
+  entries: AuditEntry[];
+  chain: ChainVerification;
+} {
+  const all = getEntries();
+  const since = query.since ? Date.parse(query.since) : -Infinity;
+  const until = query.until ? Date.parse(query.until) : Infinity;
+
+  const matching = all.filter((entry) => {
+    const time = Date.parse(entry.timestamp);
+    return time >= since && time <= until && (!query.tool || entry.tool === query.tool);
+  });
+  const limit = query.limit ?? 100;
+
+  const chain = logFile ? verifyChain(all) : verifyChain(all, all[0]?.prev_hash);
+
+  return { entries: matching.slice(-limit), chain };
+}
+
+// Reset all state (for testing)
+export function resetAuditLog(): void {
+  configureAuditLog(null);
+  writeQueue = Promise.resolve();
+}
@@ -0,0 +1,164 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface CacheEntry {
+  key: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+// Storage backend for cached responses
+export interface CacheStore {
+  readonly kind: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<CacheEntry[]>;
+}
+
+// Endpoints eligible for caching, matched against the request path. Only public reference data
+// belongs here: anything user-specific (my offers, trades, swaps, profile) must never be listed.
+export interface CacheRule {
+  pattern: RegExp;
+  ttlMs: number;
+}
+
+export const DEFAULT_CACHE_RULES: CacheRule[] = [
+  { pattern: /^\/api\/v2\/currencies\//, ttlMs: 60 * 60 * 1000 },
+  { pattern: /^\/api\/v2\/offers\/payment-methods\/$/, ttlMs: 60 * 60 * 1000 },
+  { pattern: /^\/api\/v2\/offers\/trade-types\/$/, ttlMs: 60 * 60 * 1000 },
+  { pattern: /^\/api\/v2\/swaps\/min-swap-amount\//, ttlMs: 5 * 60 * 1000 },
+];
+
+export interface CacheStats {
+  store: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = 'memory';
+  private store = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.store.set(entry.key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async entries(): Promise<CacheEntry[]> {
+    return [...this.store.values()];
+  }
+}
+
+// One JSON file per entry, so the cache survives restarts
+export class FileCacheStore implements CacheStore {
+  readonly kind = 'disk';
+
+  constructor(private dir: string) {}
+
+  private path(key: string): string {
+    return join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path(key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.path(entry.key), JSON.stringify(entry), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  async entries(): Promise<CacheEntry[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        entries.push(JSON.parse(await readFile(join(this.dir, file), 'utf8')) as CacheEntry);
+      } catch {
+        // Ignore unreadable or partially written files
+      }
+    }
+    return entries;
+  }
+}
+
+// TTL-based response cache keyed by request path
+export class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private store: CacheStore = new MemoryCacheStore(),
+    private rules: CacheRule[] = DEFAULT_CACHE_RULES
+  ) {}
+
+  // TTL for an endpoint, or null if it must not be cached
+  ttlFor(endpoint: string): number | null {
+    const rule = this.rules.find((r) => r.pattern.test(endpoint));
+    return rule ? rule.ttlMs : null;
+  }
+
+  async get<T>(endpoint: string): Promise<T | undefined> {
+    const entry = await this.store.get(endpoint);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      return entry.value as T;
+    }
+    if (entry) {
+      await this.store.delete(endpoint);
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  async set(endpoint: string, value: unknown): Promise<void> {
+    const ttl = this.ttlFor(endpoint);
+    if (ttl === null) return;
+    await this.store.set({ key: endpoint, value, expiresAt: Date.now() + ttl });
+  }
+
+  // Drop cached entries whose path starts with prefix (all entries if omitted); returns the count
+  async invalidate(prefix = ''): Promise<number> {
+    const matching = (await this.store.entries()).filter((e) => e.key.startsWith(prefix));
+    await Promise.all(matching.map((e) => this.store.delete(e.key)));
+    return matching.length;
+  }
+
+  async stats(): Promise<CacheStats> {
+    const now = Date.now();
+    const entries = (await this.store.entries()).filter((e) => e.expiresAt > now);
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.store.kind,
+      entries: entries.length,
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: lookups === 0 ? 0 : Math.round((this.hits / lookups) * 1000) / 1000,
+    };
+  }
+}
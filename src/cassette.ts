@@ -0,0 +1,271 @@
+import { readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import type { CassetteConfig } from './types.js';
+
+// HTTP record/replay for LocalCoinSwapClient. Recording saves every request/response pair of a
+// live session to a JSON cassette; replaying serves them back in the same order without touching
+// the network, so a bug report can be reproduced or turned into a regression test.
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    // Path and query relative to the API base URL, e.g. /api/v2/trades/
+    path: string;
+    body?: unknown;
+  };
+  // Absent when the request failed without a response (connection error, timeout)
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+    // Parsed JSON body; a body that is not JSON is kept as text, and only as [REDACTED]
+    body?: unknown;
+    text?: string;
+  };
+  error?: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+// Stands in for fetch() in LocalCoinSwapClient
+export interface Cassette {
+  fetch(url: string, init: RequestInit): Promise<Response>;
+}
+
+// Response headers the client reads; everything else is left out of the cassette
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+// Values that identify the user or their counterparties, or carry free text they wrote
+const PERSONAL_KEYS = new Set([
+  'email',
+  'phone',
+  'phone_number',
+  'first_name',
+  'last_name',
+  'full_name',
+  'address',
+  'deposit_address',
+  'deposit_memo',
+  'transaction_hash',
+  'iban',
+  'account_number',
+  'ip',
+  'ip_address',
+  'url',
+  'headline',
+  'trading_conditions',
+  'message',
+  'text',
+  'comment',
+  'reason',
+]);
+
+const REDACTED = '[REDACTED]';
+
+// Replace personal data in a request or response body. Usernames become stable pseudonyms
+// (user-1, user-2...) so a cassette still shows who did what; the user UUID next to a username is
+// replaced with it. Links to the API are made relative so the cassette replays on any base URL.
+export function scrubPersonalData(
+  value: unknown,
+  pseudonyms: Map<string, string>,
+  apiOrigin: string,
+  key = ''
+): unknown {
+  if (PERSONAL_KEYS.has(key.toLowerCase()) && value !== null && value !== undefined) {
+    return REDACTED;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubPersonalData(item, pseudonyms, apiOrigin));
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const scrubbed = Object.fromEntries(
+      Object.entries(record).map(([k, v]) => [k, scrubPersonalData(v, pseudonyms, apiOrigin, k)])
+    );
+    if (typeof record.username === 'string') {
+      const pseudonym = pseudonymFor(record.username, pseudonyms);
+      scrubbed.username = pseudonym;
+      if ('uuid' in record) scrubbed.uuid = `${pseudonym}-uuid`;
+    }
+    return scrubbed;
+  }
+  if (typeof value === 'string' && value.startsWith(`${apiOrigin}/`)) {
+    return value.slice(apiOrigin.length);
+  }
+  return value;
+}
+
+function pseudonymFor(username: string, pseudonyms: Map<string, string>): string {
+  let pseudonym = pseudonyms.get(username);
+  if (!pseudonym) {
+    pseudonym = `user-${pseudonyms.size + 1}`;
+    pseudonyms.set(username, pseudonym);
+  }
+  return pseudonym;
+}
+
+// Usernames also appear in profile paths
+function scrubPath(path: string, pseudonyms: Map<string, string>): string {
+  return path.replace(/^(\/api\/v2\/profile\/)([^/]+)/, (_match, prefix: string, name: string) => {
+    return `${prefix}${pseudonymFor(decodeURIComponent(name), pseudonyms)}`;
+  });
+}
+
+function parseBody(text: string): { body?: unknown; text?: string } {
+  if (text === '') return {};
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { text };
+  }
+}
+
+// Path and query of a request URL relative to the base URL
+function relativePath(url: string, baseUrl: string): string {
+  return url.startsWith(baseUrl) ? url.slice(baseUrl.length) : new URL(url).pathname;
+}
+
+function requestKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+// Sends requests to the API and appends each exchange, scrubbed, to the cassette file
+export class CassetteRecorder implements Cassette {
+  private readonly interactions: CassetteInteraction[] = [];
+  private readonly pseudonyms = new Map<string, string>();
+  private readonly apiOrigin: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly file: string,
+    private readonly baseUrl: string,
+    // Written nowhere; also removed from any body that happens to echo it
+    private readonly token: string
+  ) {
+    this.apiOrigin = new URL(baseUrl).origin;
+  }
+
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    const request = {
+      method: (init.method ?? 'GET').toUpperCase(),
+      path: scrubPath(relativePath(url, this.baseUrl), this.pseudonyms),
+      // Only JSON can be scrubbed field by field, so any other body is left out entirely
+      ...(typeof init.body === 'string' && {
+        body: this.scrub(parseBody(init.body).body ?? REDACTED),
+      }),
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      await this.save({
+        request,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    const text = await response.text();
+    const { body, text: rawText } = parseBody(text);
+    const headers = Object.fromEntries(
+      RECORDED_HEADERS.flatMap((name) => {
+        const value = response.headers.get(name);
+        return value === null ? [] : [[name, value]];
+      })
+    );
+    await this.save({
+      request,
+      response: {
+        status: response.status,
+        headers,
+        ...(body !== undefined && { body: this.scrub(body) }),
+        ...(rawText !== undefined && { text: REDACTED }),
+      },
+    });
+
+    // The client still sees the unscrubbed response
+    return new Response(response.status === 204 ? null : text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private scrub(value: unknown): unknown {
+    return scrubPersonalData(value, this.pseudonyms, this.apiOrigin);
+  }
+
+  // The whole cassette is rewritten after every exchange, so an interrupted session still
+  // leaves a valid file
+  private save(interaction: CassetteInteraction): Promise<void> {
+    this.interactions.push(interaction);
+    let json = JSON.stringify({ version: 1, interactions: this.interactions }, null, 2);
+    if (this.token) json = json.split(this.token).join(REDACTED);
+    const file = this.file;
+    this.writeQueue = this.writeQueue.then(() => writeFile(file, `${json}\n`, 'utf8'));
+    return this.writeQueue;
+  }
+}
+
+// Serves recorded responses without touching the network. Requests are matched on method and
+// path; repeated requests get the recorded responses in order, and the last one once they run
+// out (so polling loops settle on the final recorded state).
+export class CassettePlayer implements Cassette {
+  private readonly queues = new Map<string, CassetteInteraction[]>();
+  private readonly last = new Map<string, CassetteInteraction>();
+
+  constructor(
+    cassette: CassetteFile,
+    private readonly baseUrl: string
+  ) {
+    for (const interaction of cassette.interactions) {
+      const key = requestKey(interaction.request.method, interaction.request.path);
+      const queue = this.queues.get(key) ?? [];
+      queue.push(interaction);
+      this.queues.set(key, queue);
+    }
+  }
+
+  static load(file: string, baseUrl: string): CassettePlayer {
+    let cassette: CassetteFile;
+    try {
+      cassette = JSON.parse(readFileSync(file, 'utf8')) as CassetteFile;
+    } catch (error) {
+      throw new Error(
+        `Could not read cassette ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+      throw new Error(`Could not read cassette ${file}: unsupported format`);
+    }
+    return new CassettePlayer(cassette, baseUrl);
+  }
+
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    const key = requestKey(init.method ?? 'GET', relativePath(url, this.baseUrl));
+    const interaction = this.queues.get(key)?.shift() ?? this.last.get(key);
+    if (!interaction) {
+      throw new Error(`No recorded response for ${key}`);
+    }
+    this.last.set(key, interaction);
+
+    const { response, error } = interaction;
+    if (!response) {
+      throw new Error(error ?? 'Recorded request failed');
+    }
+    const payload =
+      response.status === 204
+        ? null
+        : (response.text ?? (response.body === undefined ? '' : JSON.stringify(response.body)));
+    return new Response(payload, { status: response.status, headers: response.headers });
+  }
+}
+
+export function createCassette(config: CassetteConfig, baseUrl: string, token: string): Cassette {
+  return config.mode === 'record'
+    ? new CassetteRecorder(config.file, baseUrl, token)
+    : CassettePlayer.load(config.file, baseUrl);
+}
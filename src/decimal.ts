@@ -0,0 +1,153 @@
+// Exact decimal arithmetic for amounts, prices and rates. Values are held as a BigInt scaled by a
+// power of ten, so 18-decimal crypto amounts survive parsing, comparison and arithmetic that
+// would lose precision as JS numbers.
+
+const DECIMAL_REGEX = /^([+-])?(\d+)(?:\.(\d+))?$/;
+
+// Digits kept after the decimal point when a division does not terminate
+const DEFAULT_DIVISION_SCALE = 18;
+
+export class Decimal {
+  private constructor(
+    // value = units / 10^scale
+    private readonly units: bigint,
+    private readonly scale: number
+  ) {}
+
+  static readonly ZERO = new Decimal(0n, 0);
+
+  // Parse a plain decimal string ("12", "-0.5", "0.000000000000000001"); no exponents
+  static parse(value: string): Decimal {
+    const match = DECIMAL_REGEX.exec(value.trim());
+    if (!match) {
+      throw new Error(`Invalid decimal: "${value}"`);
+    }
+    const [, sign, whole, fraction = ''] = match;
+    const units = BigInt(`${whole}${fraction}`);
+    return new Decimal(sign === '-' ? -units : units, fraction.length);
+  }
+
+  static isDecimal(value: string): boolean {
+    return DECIMAL_REGEX.test(value.trim());
+  }
+
+  static fromInteger(value: number | bigint): Decimal {
+    return new Decimal(BigInt(value), 0);
+  }
+
+  // Number of digits after the decimal point, ignoring trailing zeros
+  get decimalPlaces(): number {
+    let { units, scale } = this;
+    while (scale > 0 && units % 10n === 0n) {
+      units /= 10n;
+      scale--;
+    }
+    return scale;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  // Units of this value at a larger scale
+  private unitsAt(scale: number): bigint {
+    return this.units * 10n ** BigInt(scale - this.scale);
+  }
+
+  compare(other: Decimal): -1 | 0 | 1 {
+    const scale = Math.max(this.scale, other.scale);
+    const a = this.unitsAt(scale);
+    const b = other.unitsAt(scale);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  eq(other: Decimal): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: Decimal): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: Decimal): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: Decimal): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: Decimal): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  add(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.unitsAt(scale) + other.unitsAt(scale), scale);
+  }
+
+  sub(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.unitsAt(scale) - other.unitsAt(scale), scale);
+  }
+
+  mul(other: Decimal): Decimal {
+    return new Decimal(this.units * other.units, this.scale + other.scale);
+  }
+
+  // Quotient rounded half away from zero to `scale` decimal places
+  div(other: Decimal, scale = DEFAULT_DIVISION_SCALE): Decimal {
+    if (other.isZero()) {
+      throw new Error('Division by zero');
+    }
+    // (a / 10^sa) / (b / 10^sb) = a * 10^(sb - sa) / b; one extra digit is kept for rounding
+    const exponent = scale + 1 + other.scale - this.scale;
+    let numerator = this.units;
+    let denominator = other.units;
+    if (exponent >= 0) {
+      numerator *= 10n ** BigInt(exponent);
+    } else {
+      denominator *= 10n ** BigInt(-exponent);
+    }
+    return new Decimal(numerator / denominator, scale + 1).round(scale);
+  }
+
+  // Round half away from zero to `places` decimal places
+  round(places: number): Decimal {
+    if (places >= this.scale) return this;
+    const divisor = 10n ** BigInt(this.scale - places);
+    const quotient = this.units / divisor;
+    const remainder = this.units % divisor;
+    const abs = remainder < 0n ? -remainder : remainder;
+    const roundUp = abs * 2n >= divisor;
+    return new Decimal(roundUp ? quotient + (this.units < 0n ? -1n : 1n) : quotient, places);
+  }
+
+  // Fixed number of decimal places, rounding half away from zero
+  toFixed(places: number): string {
+    const rounded = this.round(places);
+    return rounded.format(rounded.unitsAt(places), places);
+  }
+
+  // Shortest plain representation (no exponent, no trailing zeros)
+  toString(): string {
+    const places = this.decimalPlaces;
+    return this.format(this.units / 10n ** BigInt(this.scale - places), places);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private format(units: bigint, scale: number): string {
+    const negative = units < 0n;
+    const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+    const whole = digits.slice(0, digits.length - scale);
+    const fraction = scale > 0 ? `.${digits.slice(digits.length - scale)}` : '';
+    return `${negative ? '-' : ''}${whole}${fraction}`;
+  }
+}
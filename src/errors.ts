@@ -0,0 +1,217 @@
+import type { ApiError } from './types.js';
+
+// Machine-readable error codes surfaced to tool callers
+export type ErrorCode =
+  | 'AUTH_ERROR'
+  | 'NOT_FOUND'
+  | 'VALIDATION_ERROR'
+  | 'RATE_LIMITED'
+  | 'NETWORK_ERROR'
+  | 'SERVER_ERROR'
+  | 'API_ERROR'
+  | 'IN_PROGRESS'
+  | 'POLICY_VIOLATION';
+
+interface ErrorOptions {
+  status?: number;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// Base class for every error thrown by LocalCoinSwapClient
+export class LocalCoinSwapError extends Error {
+  readonly code: ErrorCode;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: ErrorCode, options: ErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// 401/403: missing, invalid or revoked API token
+export class AuthError extends LocalCoinSwapError {
+  constructor(message: string, status: number) {
+    super(message, 'AUTH_ERROR', { status });
+  }
+}
+
+// 404: the offer, trade, swap or user does not exist (or is no longer available)
+export class NotFoundError extends LocalCoinSwapError {
+  constructor(message: string) {
+    super(message, 'NOT_FOUND', { status: 404 });
+  }
+}
+
+// 400/422: the API rejected the request; fields holds per-field messages when provided
+export class ValidationError extends LocalCoinSwapError {
+  readonly fields: Record<string, string[]>;
+
+  constructor(message: string, status: number, fields: Record<string, string[]> = {}) {
+    super(message, 'VALIDATION_ERROR', { status });
+    this.fields = fields;
+  }
+}
+
+// 429: throttled by the API
+export class RateLimitError extends LocalCoinSwapError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 'RATE_LIMITED', { status: 429, retryable: true });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The request never got a response (connection failure or timeout)
+export class NetworkError extends LocalCoinSwapError {
+  readonly timeout: boolean;
+
+  constructor(
+    message: string,
+    options: { timeout?: boolean; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message, 'NETWORK_ERROR', { retryable: options.retryable, cause: options.cause });
+    this.timeout = options.timeout ?? false;
+  }
+}
+
+// 5xx: the API failed while handling the request
+export class ServerError extends LocalCoinSwapError {
+  constructor(message: string, status: number, retryable: boolean) {
+    super(message, 'SERVER_ERROR', { status, retryable });
+  }
+}
+
+// The action was blocked by the local spending policy (see policy.ts) before reaching the API
+export class PolicyViolationError extends LocalCoinSwapError {
+  readonly rule: string;
+
+  constructor(message: string, rule: string) {
+    super(message, 'POLICY_VIOLATION');
+    this.rule = rule;
+  }
+}
+
+const MESSAGE_KEYS = new Set(['detail', 'error', 'message']);
+
+// Collect DRF-style field errors ({"amount": ["Too low"]}) from an error body
+function extractFieldErrors(body: ApiError): Record<string, string[]> {
+  const fields: Record<string, string[]> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (MESSAGE_KEYS.has(key)) continue;
+    if (typeof value === 'string') {
+      fields[key] = [value];
+    } else if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+      fields[key] = value as string[];
+    }
+  }
+  return fields;
+}
+
+// Map a non-2xx API response onto the error hierarchy. `idempotent` marks requests that are
+// safe to repeat, which decides whether server errors are reported as retryable.
+export function createApiError(
+  status: number,
+  body: ApiError,
+  options: { idempotent: boolean; retryAfterMs?: number }
+): LocalCoinSwapError {
+  const message = `API Error (${status}): ${
+    body.detail || body.error || body.message || JSON.stringify(body)
+  }`;
+
+  if (status === 401 || status === 403) return new AuthError(message, status);
+  if (status === 404) return new NotFoundError(message);
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status, extractFieldErrors(body));
+  }
+  if (status === 429) return new RateLimitError(message, options.retryAfterMs);
+  if (status >= 500) return new ServerError(message, status, options.idempotent);
+  return new LocalCoinSwapError(message, 'API_ERROR', { status });
+}
+
+// Structured error returned to tool callers
+export interface ErrorPayload {
+  code: ErrorCode | 'INTERNAL_ERROR';
+  message: string;
+  retryable: boolean;
+  hint: string;
+  status?: number;
+  retry_after_seconds?: number;
+  fields?: Record<string, string[]>;
+  rule?: string;
+}
+
+function hintFor(error: LocalCoinSwapError): string {
+  switch (error.code) {
+    case 'AUTH_ERROR':
+      return 'Check that LCS_API_TOKEN is set and still valid; generating a new token revokes the old one.';
+    case 'NOT_FOUND':
+      return 'The item does not exist or is no longer available; refresh the listing instead of retrying.';
+    case 'VALIDATION_ERROR':
+      return 'Fix the rejected parameters before retrying.';
+    case 'RATE_LIMITED':
+      return 'Wait before retrying (see retry_after_seconds when present).';
+    case 'NETWORK_ERROR':
+    case 'SERVER_ERROR':
+      return error.retryable
+        ? 'Temporary failure; retrying shortly should succeed.'
+        : 'The request may still have been processed; check the current state (e.g. get_my_swaps, get_my_trades) before retrying.';
+    case 'IN_PROGRESS':
+      return 'Wait for the running request to finish, then check its result before retrying.';
+    case 'POLICY_VIOLATION':
+      return 'Blocked by the spending policy; do not retry or work around it. Tell the user which rule applies (see get_policy).';
+    default:
+      return 'Unexpected API response; do not retry automatically.';
+  }
+}
+
+// Describe any thrown value as a structured error, prefixing its message with context
+export function toErrorPayload(context: string, error: unknown): ErrorPayload {
+  const detail = error instanceof Error ? error.message : String(error);
+  const message = `${context}: ${detail}`;
+
+  if (!(error instanceof LocalCoinSwapError)) {
+    return {
+      code: 'INTERNAL_ERROR',
+      message,
+      retryable: false,
+      hint: 'Unexpected failure; do not retry automatically.',
+    };
+  }
+
+  const payload: ErrorPayload = {
+    code: error.code,
+    message,
+    retryable: error.retryable,
+    hint: hintFor(error),
+  };
+  if (error.status !== undefined) payload.status = error.status;
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    payload.retry_after_seconds = Math.ceil(error.retryAfterMs / 1000);
+  }
+  if (error instanceof ValidationError && Object.keys(error.fields).length > 0) {
+    payload.fields = error.fields;
+  }
+  if (error instanceof PolicyViolationError) {
+    payload.rule = error.rule;
+  }
+  return payload;
+}
+
+// Describe a request refused locally, before anything was sent to the API
+export function localErrorPayload(
+  code: 'AUTH_ERROR' | 'VALIDATION_ERROR',
+  message: string
+): ErrorPayload {
+  return {
+    code,
+    message,
+    retryable: false,
+    hint: hintFor(new LocalCoinSwapError(message, code)),
+  };
+}
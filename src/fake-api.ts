@@ -0,0 +1,979 @@
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { Decimal } from './decimal.js';
+import { DISPUTABLE_TRADE_STATUSES } from './types.js';
+import type {
+  Currency,
+  DecimalString,
+  Dispute,
+  DisputeEvidence,
+  Feedback,
+  FeedbackRating,
+  MinSwapAmount,
+  Offer,
+  PaginatedResponse,
+  PaymentMethod,
+  Swap,
+  SwapEstimate,
+  Trade,
+  TradeMessage,
+  TradeType,
+  UserProfile,
+} from './types.js';
+
+// An offline, in-memory stand-in for the /api/v2/ endpoints LocalCoinSwapClient uses. Point
+// LCS_API_URL at it to run the MCP server end to end without network access or real funds.
+// Behaviour follows the real API where the client depends on it: token auth, DRF-style error
+// bodies, page/page_size pagination with absolute next/previous links, and trade state changes
+// that only the right party may make.
+
+// Token accepted by default, authenticating as FAKE_API_USER
+export const FAKE_API_TOKEN = 'fake-api-token';
+export const FAKE_API_USER = 'fake-user';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Fee kept by a swap, as a fraction of the converted amount
+const SWAP_FEE = Decimal.parse('0.005');
+// Smallest swap, in USD
+const MIN_SWAP_USD = Decimal.fromInteger(10);
+
+const TERMINAL_SWAP_STATUSES = ['completed', 'failed', 'cancelled', 'expired', 'refunded'];
+const FEEDBACK_RATINGS: FeedbackRating[] = ['positive', 'neutral', 'negative'];
+const OFFER_ORDERING_FIELDS = ['price', 'margin', 'created_at'] as const;
+
+function cryptoCurrency(
+  symbol: string,
+  title: string,
+  network: string,
+  decimals: number
+): Currency {
+  return { symbol, title, is_crypto: true, is_active: true, network, decimals };
+}
+
+function fiatCurrency(symbol: string, title: string): Currency {
+  return { symbol, title, is_crypto: false, is_active: true, decimals: 2 };
+}
+
+const CURRENCIES: Currency[] = [
+  cryptoCurrency('BTC', 'Bitcoin', 'bitcoin', 8),
+  cryptoCurrency('ETH', 'Ethereum', 'ethereum', 18),
+  cryptoCurrency('USDT', 'Tether', 'trc20', 6),
+  cryptoCurrency('LTC', 'Litecoin', 'litecoin', 8),
+  // Listed but not currently tradable
+  { ...cryptoCurrency('DOGE', 'Dogecoin', 'dogecoin', 8), is_active: false },
+  fiatCurrency('USD', 'US Dollar'),
+  fiatCurrency('EUR', 'Euro'),
+  fiatCurrency('GBP', 'British Pound'),
+];
+
+// Market price of one unit of each currency in USD; offer prices and swap rates derive from it
+const USD_PRICES: Record<string, string> = {
+  BTC: '43000',
+  ETH: '2200',
+  USDT: '1',
+  LTC: '70',
+  DOGE: '0.08',
+  USD: '1',
+  EUR: '1.08',
+  GBP: '1.27',
+};
+
+const PAYMENT_METHODS: PaymentMethod[] = [
+  { id: 1, name: 'Bank Transfer', slug: 'bank-transfer' },
+  { id: 2, name: 'PayPal', slug: 'paypal' },
+  { id: 3, name: 'Cash Deposit', slug: 'cash-deposit' },
+  { id: 4, name: 'Wise', slug: 'wise' },
+];
+
+const TRADE_TYPES: TradeType[] = [
+  { slug: 'buy', name: 'Buy' },
+  { slug: 'sell', name: 'Sell' },
+];
+
+// Seed traders and the margin each one asks
+const TRADERS = [
+  { username: 'alice', trades_count: 320, feedback_score: 99.1, margin: '1.5' },
+  { username: 'bob', trades_count: 45, feedback_score: 92, margin: '3' },
+  { username: 'carol', trades_count: 4, feedback_score: 75, margin: '-0.5' },
+];
+
+const COUNTRIES = ['US', 'GB', 'DE'];
+const SEED_TIME = Date.parse('2025-01-01T00:00:00Z');
+
+type FakeOffer = Offer & { country_code: string };
+
+export type FakeTradeAction = 'mark-paid' | 'release' | 'cancel';
+
+interface FakeUser extends UserProfile {
+  feedback: Feedback[];
+}
+
+interface FakeTrade {
+  trade: Trade;
+  messages: TradeMessage[];
+  dispute: Dispute | null;
+  // Users who have left feedback on this trade
+  feedbackFrom: Set<string>;
+}
+
+// Error response: HTTP status and a DRF-style body ({"detail": ...} or per-field messages)
+export class FakeApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: Record<string, unknown>
+  ) {
+    super(typeof body.detail === 'string' ? body.detail : JSON.stringify(body));
+  }
+}
+
+function badRequest(detail: string): FakeApiError {
+  return new FakeApiError(400, { detail });
+}
+
+function fieldError(field: string, message: string): FakeApiError {
+  return new FakeApiError(400, { [field]: [message] });
+}
+
+function notFound(): FakeApiError {
+  return new FakeApiError(404, { detail: 'Not found.' });
+}
+
+function parseAmount(field: string, value: unknown, { positive = true } = {}): Decimal {
+  if (typeof value !== 'string' || !Decimal.isDecimal(value)) {
+    throw fieldError(field, 'A valid number is required.');
+  }
+  const amount = Decimal.parse(value);
+  if (amount.isNegative() || (positive && amount.isZero())) {
+    throw fieldError(field, 'Ensure this value is greater than 0.');
+  }
+  return amount;
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw fieldError(field, 'This field is required.');
+  }
+  return value;
+}
+
+// The fake's data and the rules applied to it. Every method that changes something takes the
+// acting user, so tests can also play the counterparty.
+export class FakeLocalCoinSwap {
+  readonly currencies: Currency[] = CURRENCIES.map((c) => ({ ...c }));
+  readonly paymentMethods: PaymentMethod[] = PAYMENT_METHODS.map((m) => ({ ...m }));
+  readonly offers: FakeOffer[] = [];
+  readonly swaps: { owner: string; swap: Swap }[] = [];
+  readonly trades: FakeTrade[] = [];
+  private readonly users = new Map<string, FakeUser>();
+  private nextId = 1;
+
+  constructor() {
+    for (const username of [FAKE_API_USER, ...TRADERS.map((t) => t.username)]) {
+      const seed = TRADERS.find((t) => t.username === username);
+      this.users.set(username, {
+        username,
+        uuid: `user-${username}`,
+        trades_count: seed?.trades_count ?? 0,
+        feedback_score: seed?.feedback_score ?? 0,
+        last_seen: new Date(SEED_TIME).toISOString(),
+        feedback: [],
+      });
+    }
+    this.seedOffers();
+  }
+
+  // One offer per coin, fiat, side and trader, spread over payment methods and countries
+  private seedOffers(): void {
+    let index = 0;
+    for (const coin of ['BTC', 'ETH', 'USDT']) {
+      for (const fiat of ['USD', 'EUR']) {
+        for (const tradingType of ['sell', 'buy'] as const) {
+          for (const trader of TRADERS) {
+            const created = new Date(SEED_TIME + index * 3600 * 1000).toISOString();
+            this.offers.push({
+              uuid: `fake-offer-${String(index + 1).padStart(3, '0')}`,
+              trading_type: tradingType,
+              coin_currency: coin,
+              fiat_currency: fiat,
+              payment_method: this.paymentMethods[index % this.paymentMethods.length],
+              headline: `${trader.username} ${tradingType}s ${coin} for ${fiat}`,
+              min_trade_size: '50',
+              max_trade_size: '5000',
+              margin: trader.margin,
+              price: this.offerPrice(coin, fiat, trader.margin),
+              is_active: true,
+              trader: this.profile(trader.username),
+              country_code: COUNTRIES[index % COUNTRIES.length],
+              created_at: created,
+              updated_at: created,
+            });
+            index++;
+          }
+        }
+      }
+    }
+  }
+
+  private id(prefix: string): string {
+    return `fake-${prefix}-${randomUUID()}`;
+  }
+
+  profile(username: string): UserProfile {
+    const user = this.users.get(username);
+    if (!user) throw notFound();
+    const { feedback: _feedback, ...profile } = user;
+    return profile;
+  }
+
+  getUserFeedback(username: string): Feedback[] {
+    const user = this.users.get(username);
+    if (!user) throw notFound();
+    return user.feedback;
+  }
+
+  getCurrency(symbol: string): Currency {
+    const currency = this.currencies.find((c) => c.symbol === symbol.toUpperCase());
+    if (!currency) throw notFound();
+    return currency;
+  }
+
+  private usdPrice(symbol: string): Decimal {
+    return Decimal.parse(USD_PRICES[symbol] ?? '0');
+  }
+
+  // Price of one coin in the fiat currency with the trader's margin applied
+  private offerPrice(coin: string, fiat: string, margin: DecimalString): DecimalString {
+    const market = this.usdPrice(coin).div(this.usdPrice(fiat));
+    const hundred = Decimal.fromInteger(100);
+    return market.mul(hundred.add(Decimal.parse(margin)).div(hundred)).toFixed(2);
+  }
+
+  // Offers
+
+  searchOffers(query: URLSearchParams): FakeOffer[] {
+    const coin = query.get('coin_currency')?.toUpperCase();
+    const fiat = query.get('fiat_currency')?.toUpperCase();
+    const paymentMethod = query.get('payment_method');
+    const country = query.get('country_code')?.toUpperCase();
+    const tradingType = query.get('trading_type');
+    if (tradingType !== null && tradingType !== 'buy' && tradingType !== 'sell') {
+      throw fieldError('trading_type', `"${tradingType}" is not a valid choice.`);
+    }
+    const minAmount = query.has('min_amount')
+      ? parseAmount('min_amount', query.get('min_amount'), { positive: false })
+      : null;
+    const maxAmount = query.has('max_amount')
+      ? parseAmount('max_amount', query.get('max_amount'), { positive: false })
+      : null;
+
+    const results = this.offers.filter(
+      (offer) =>
+        offer.is_active &&
+        (!coin || offer.coin_currency === coin) &&
+        (!fiat || offer.fiat_currency === fiat) &&
+        // Searching to buy finds offers from traders who sell, and vice versa
+        (!tradingType || offer.trading_type !== tradingType) &&
+        (!paymentMethod || offer.payment_method.slug === paymentMethod) &&
+        (!country || offer.country_code === country) &&
+        (!minAmount || Decimal.parse(offer.max_trade_size).gte(minAmount)) &&
+        (!maxAmount || Decimal.parse(offer.min_trade_size).lte(maxAmount))
+    );
+
+    const ordering = query.get('ordering');
+    if (ordering) {
+      const field = ordering.replace(/^-/, '') as (typeof OFFER_ORDERING_FIELDS)[number];
+      if (!OFFER_ORDERING_FIELDS.includes(field)) {
+        throw fieldError('ordering', `Cannot order by "${ordering}".`);
+      }
+      const direction = ordering.startsWith('-') ? -1 : 1;
+      results.sort((a, b) => {
+        const compared =
+          field === 'created_at'
+            ? Date.parse(a.created_at) - Date.parse(b.created_at)
+            : Decimal.parse(a[field] ?? '0').compare(Decimal.parse(b[field] ?? '0'));
+        return compared * direction;
+      });
+    }
+    return results;
+  }
+
+  getOffer(uuid: string): FakeOffer {
+    const offer = this.offers.find((o) => o.uuid === uuid);
+    if (!offer) throw notFound();
+    return offer;
+  }
+
+  private ownOffer(username: string, uuid: string): FakeOffer {
+    const offer = this.getOffer(uuid);
+    if (offer.trader.username !== username) {
+      throw new FakeApiError(403, { detail: 'You do not have permission to change this offer.' });
+    }
+    return offer;
+  }
+
+  private paymentMethod(slug: unknown): PaymentMethod {
+    const method = this.paymentMethods.find((m) => m.slug === slug);
+    if (!method) throw fieldError('payment_method', `Unknown payment method "${String(slug)}".`);
+    return method;
+  }
+
+  private checkTradeSizes(min: DecimalString, max: DecimalString): void {
+    if (Decimal.parse(min).gt(Decimal.parse(max))) {
+      throw fieldError('min_trade_size', 'Must not be greater than max_trade_size.');
+    }
+  }
+
+  createOffer(username: string, body: Record<string, unknown>): FakeOffer {
+    const tradingType = requireString(body, 'trading_type');
+    if (tradingType !== 'buy' && tradingType !== 'sell') {
+      throw fieldError('trading_type', `"${tradingType}" is not a valid choice.`);
+    }
+    const coin = this.getCurrency(requireString(body, 'coin_currency'));
+    const fiat = this.getCurrency(requireString(body, 'fiat_currency'));
+    if (!coin.is_crypto || fiat.is_crypto) {
+      throw badRequest('Offers trade a cryptocurrency against a fiat currency.');
+    }
+    parseAmount('min_trade_size', body.min_trade_size);
+    parseAmount('max_trade_size', body.max_trade_size);
+    const minSize = body.min_trade_size as string;
+    const maxSize = body.max_trade_size as string;
+    this.checkTradeSizes(minSize, maxSize);
+    const margin = requireString(body, 'margin');
+    if (!Decimal.isDecimal(margin)) throw fieldError('margin', 'A valid number is required.');
+
+    const now = new Date().toISOString();
+    const offer: FakeOffer = {
+      uuid: this.id('offer'),
+      trading_type: tradingType,
+      coin_currency: coin.symbol,
+      fiat_currency: fiat.symbol,
+      payment_method: this.paymentMethod(body.payment_method),
+      headline: typeof body.headline === 'string' ? body.headline : undefined,
+      min_trade_size: minSize,
+      max_trade_size: maxSize,
+      trading_conditions:
+        typeof body.trading_conditions === 'string' ? body.trading_conditions : undefined,
+      margin,
+      price: this.offerPrice(coin.symbol, fiat.symbol, margin),
+      is_active: true,
+      trader: this.profile(username),
+      country_code: typeof body.country_code === 'string' ? body.country_code : 'US',
+      created_at: now,
+      updated_at: now,
+    };
+    this.offers.push(offer);
+    return offer;
+  }
+
+  updateOffer(username: string, uuid: string, body: Record<string, unknown>): FakeOffer {
+    const offer = this.ownOffer(username, uuid);
+    const changes: Partial<FakeOffer> = {};
+    if (body.payment_method !== undefined) {
+      changes.payment_method = this.paymentMethod(body.payment_method);
+    }
+    for (const field of ['min_trade_size', 'max_trade_size'] as const) {
+      if (body[field] !== undefined) {
+        parseAmount(field, body[field]);
+        changes[field] = body[field] as string;
+      }
+    }
+    this.checkTradeSizes(
+      changes.min_trade_size ?? offer.min_trade_size,
+      changes.max_trade_size ?? offer.max_trade_size
+    );
+    if (body.margin !== undefined) {
+      if (typeof body.margin !== 'string' || !Decimal.isDecimal(body.margin)) {
+        throw fieldError('margin', 'A valid number is required.');
+      }
+      changes.margin = body.margin;
+      changes.price = this.offerPrice(offer.coin_currency, offer.fiat_currency, body.margin);
+    }
+    for (const field of ['headline', 'trading_conditions'] as const) {
+      if (typeof body[field] === 'string') changes[field] = body[field] as string;
+    }
+    if (typeof body.is_active === 'boolean') changes.is_active = body.is_active;
+
+    Object.assign(offer, changes, { updated_at: new Date().toISOString() });
+    return offer;
+  }
+
+  deleteOffer(username: string, uuid: string): void {
+    const offer = this.ownOffer(username, uuid);
+    this.offers.splice(this.offers.indexOf(offer), 1);
+  }
+
+  // Active offers from the traders with the best feedback
+  featuredOffers(): FakeOffer[] {
+    return this.offers
+      .filter((o) => o.is_active && (o.trader.feedback_score ?? 0) >= 95)
+      .slice(0, 5);
+  }
+
+  // Swaps
+
+  private swapCurrency(field: string, symbol: unknown): Currency {
+    const currency = this.currencies.find(
+      (c) => typeof symbol === 'string' && c.symbol === symbol.toUpperCase()
+    );
+    if (!currency || !currency.is_crypto || !currency.is_active) {
+      throw fieldError(field, `"${String(symbol)}" is not a supported swap currency.`);
+    }
+    return currency;
+  }
+
+  minSwapAmount(fromSymbol: string, toSymbol: string): MinSwapAmount {
+    const from = this.swapCurrency('from_currency', fromSymbol);
+    const to = this.swapCurrency('to_currency', toSymbol);
+    return {
+      from_currency: from.symbol,
+      to_currency: to.symbol,
+      min_amount: MIN_SWAP_USD.div(this.usdPrice(from.symbol), from.decimals ?? 8).toString(),
+    };
+  }
+
+  estimateSwap(body: Record<string, unknown>): SwapEstimate {
+    const from = this.swapCurrency('from_currency', body.from_currency);
+    const to = this.swapCurrency('to_currency', body.to_currency);
+    if (from.symbol === to.symbol) {
+      throw badRequest('Cannot swap a currency for itself.');
+    }
+    const amount = parseAmount('from_amount', body.from_amount);
+
+    const rate = this.usdPrice(from.symbol).div(this.usdPrice(to.symbol), 8);
+    const gross = amount.mul(rate);
+    const fee = gross.mul(SWAP_FEE).round(to.decimals ?? 8);
+    return {
+      from_currency: from.symbol,
+      to_currency: to.symbol,
+      from_amount: amount.toString(),
+      to_amount: gross.sub(fee).round(to.decimals ?? 8).toString(),
+      rate: rate.toString(),
+      fee: fee.toString(),
+    };
+  }
+
+  createSwap(username: string, body: Record<string, unknown>): Swap {
+    const estimate = this.estimateSwap(body);
+    const minimum = this.minSwapAmount(estimate.from_currency, estimate.to_currency).min_amount;
+    if (Decimal.parse(estimate.from_amount).lt(Decimal.parse(minimum))) {
+      throw fieldError('from_amount', `Ensure this value is at least ${minimum}.`);
+    }
+
+    const swap: Swap = {
+      uuid: this.id('swap'),
+      from_currency: estimate.from_currency,
+      to_currency: estimate.to_currency,
+      from_amount: estimate.from_amount,
+      to_amount: estimate.to_amount,
+      status: 'awaiting_deposit',
+      created_at: new Date().toISOString(),
+      deposit_address: `fake-deposit-${estimate.from_currency.toLowerCase()}-${this.nextId++}`,
+    };
+    this.swaps.push({ owner: username, swap });
+    return swap;
+  }
+
+  listSwaps(username: string, filter: 'all' | 'active' | 'past' = 'all'): Swap[] {
+    return this.swaps
+      .filter(({ owner }) => owner === username)
+      .map(({ swap }) => swap)
+      .filter((swap) => {
+        if (filter === 'all') return true;
+        return TERMINAL_SWAP_STATUSES.includes(swap.status) === (filter === 'past');
+      });
+  }
+
+  getSwap(username: string, uuid: string): Swap {
+    const swap = this.listSwaps(username).find((s) => s.uuid === uuid);
+    if (!swap) throw notFound();
+    return swap;
+  }
+
+  // Move a swap along, as the exchange would once the deposit arrives
+  setSwapStatus(uuid: string, status: string): Swap {
+    const entry = this.swaps.find(({ swap }) => swap.uuid === uuid);
+    if (!entry) throw notFound();
+    entry.swap.status = status;
+    if (status === 'completed') {
+      entry.swap.completed_at = new Date().toISOString();
+      entry.swap.transaction_hash = `0xfake${entry.swap.uuid.replace(/-/g, '').slice(-24)}`;
+    }
+    return entry.swap;
+  }
+
+  // Trades
+
+  startTrade(username: string, body: Record<string, unknown>): Trade {
+    const offer = this.getOffer(requireString(body, 'offer'));
+    if (!offer.is_active) throw badRequest('This offer is not active.');
+    if (offer.trader.username === username) {
+      throw badRequest('You cannot trade with your own offer.');
+    }
+    const amount = parseAmount('fiat_amount', body.fiat_amount);
+    if (
+      amount.lt(Decimal.parse(offer.min_trade_size)) ||
+      amount.gt(Decimal.parse(offer.max_trade_size))
+    ) {
+      throw fieldError(
+        'fiat_amount',
+        `Must be between ${offer.min_trade_size} and ${offer.max_trade_size} ${offer.fiat_currency}.`
+      );
+    }
+
+    // The offer's trader is on the side the offer advertises
+    const me = this.profile(username);
+    const trade: Trade = {
+      uuid: this.id('trade'),
+      offer,
+      amount: amount.toString(),
+      status: 'active',
+      created_at: new Date().toISOString(),
+      buyer: offer.trading_type === 'sell' ? me : offer.trader,
+      seller: offer.trading_type === 'sell' ? offer.trader : me,
+    };
+    this.trades.push({ trade, messages: [], dispute: null, feedbackFrom: new Set() });
+    return trade;
+  }
+
+  listTrades(username: string): Trade[] {
+    return this.trades
+      .map(({ trade }) => trade)
+      .filter((t) => t.buyer?.username === username || t.seller?.username === username);
+  }
+
+  // A trade the user takes part in; other users' trades do not exist as far as they can tell
+  private participantTrade(username: string, uuid: string): FakeTrade {
+    const entry = this.trades.find(({ trade }) => trade.uuid === uuid);
+    const { buyer, seller } = entry?.trade ?? {};
+    if (!entry || (buyer?.username !== username && seller?.username !== username)) {
+      throw notFound();
+    }
+    return entry;
+  }
+
+  getTrade(username: string, uuid: string): Trade {
+    return this.participantTrade(username, uuid).trade;
+  }
+
+  // Buyer marks paid (active -> paid), seller releases (paid -> completed), buyer cancels
+  // (active -> cancelled)
+  tradeAction(username: string, uuid: string, action: FakeTradeAction): Trade {
+    const { trade } = this.participantTrade(username, uuid);
+    const rules = {
+      'mark-paid': { role: 'buyer', from: 'active', to: 'paid' },
+      release: { role: 'seller', from: 'paid', to: 'completed' },
+      cancel: { role: 'buyer', from: 'active', to: 'cancelled' },
+    } as const;
+    const rule = rules[action];
+
+    const verb = action.replace('-', ' ');
+    if (trade[rule.role]?.username !== username) {
+      throw new FakeApiError(403, { detail: `Only the ${rule.role} can ${verb} this trade.` });
+    }
+    if (trade.status !== rule.from) {
+      throw badRequest(`Cannot ${verb} a trade that is "${trade.status}".`);
+    }
+    trade.status = rule.to;
+
+    if (trade.status === 'completed') {
+      for (const party of [trade.buyer, trade.seller]) {
+        const user = party && this.users.get(party.username);
+        if (user) user.trades_count = (user.trades_count ?? 0) + 1;
+      }
+    }
+    return trade;
+  }
+
+  listMessages(username: string, uuid: string): TradeMessage[] {
+    return this.participantTrade(username, uuid).messages;
+  }
+
+  sendMessage(username: string, uuid: string, body: Record<string, unknown>): TradeMessage {
+    const entry = this.participantTrade(username, uuid);
+    const message: TradeMessage = {
+      id: this.nextId++,
+      sender: this.profile(username),
+      message: requireString(body, 'message'),
+      created_at: new Date().toISOString(),
+      attachment: null,
+    };
+    entry.messages.push(message);
+    return message;
+  }
+
+  openDispute(username: string, uuid: string, body: Record<string, unknown>): Dispute {
+    const entry = this.participantTrade(username, uuid);
+    if (entry.dispute) throw badRequest('A dispute is already open for this trade.');
+    if (!DISPUTABLE_TRADE_STATUSES.includes(entry.trade.status)) {
+      throw badRequest(`Cannot open a dispute on a trade that is "${entry.trade.status}".`);
+    }
+    entry.dispute = {
+      trade_uuid: uuid,
+      status: 'open',
+      reason: requireString(body, 'reason'),
+      opened_by: this.profile(username),
+      created_at: new Date().toISOString(),
+      evidence: [],
+    };
+    entry.trade.status = 'disputed';
+    return entry.dispute;
+  }
+
+  getDispute(username: string, uuid: string): Dispute {
+    const { dispute } = this.participantTrade(username, uuid);
+    if (!dispute) throw notFound();
+    return dispute;
+  }
+
+  addEvidence(username: string, uuid: string, body: Record<string, unknown>): DisputeEvidence {
+    const dispute = this.getDispute(username, uuid);
+    const evidence: DisputeEvidence = {
+      id: this.nextId++,
+      text: requireString(body, 'text'),
+      submitted_by: this.profile(username),
+      created_at: new Date().toISOString(),
+    };
+    dispute.evidence.push(evidence);
+    return evidence;
+  }
+
+  leaveFeedback(username: string, uuid: string, body: Record<string, unknown>): Feedback {
+    const entry = this.participantTrade(username, uuid);
+    const rating = body.rating as FeedbackRating;
+    if (!FEEDBACK_RATINGS.includes(rating)) {
+      throw fieldError('rating', `"${String(body.rating)}" is not a valid choice.`);
+    }
+    if (entry.trade.status !== 'completed') {
+      throw badRequest('Feedback can only be left on completed trades.');
+    }
+    if (entry.feedbackFrom.has(username)) {
+      throw badRequest('You have already left feedback for this trade.');
+    }
+
+    const { buyer, seller } = entry.trade;
+    const recipient = this.users.get(
+      (buyer?.username === username ? seller : buyer)?.username ?? ''
+    );
+    const feedback: Feedback = {
+      id: this.nextId++,
+      trade_uuid: uuid,
+      rating,
+      comment: typeof body.comment === 'string' ? body.comment : '',
+      from_user: this.profile(username),
+      to_user: recipient && this.profile(recipient.username),
+      created_at: new Date().toISOString(),
+    };
+    entry.feedbackFrom.add(username);
+    if (recipient) {
+      recipient.feedback.push(feedback);
+      const positive = recipient.feedback.filter((f) => f.rating === 'positive').length;
+      recipient.feedback_score = Math.round((positive / recipient.feedback.length) * 1000) / 10;
+    }
+    return feedback;
+  }
+}
+
+// Slice a list into the page requested by ?page=&page_size=, with absolute links like the API's
+function paginate<T>(items: T[], url: URL): PaginatedResponse<T> {
+  const page = Number(url.searchParams.get('page') ?? '1');
+  const pageSize = Math.min(
+    Number(url.searchParams.get('page_size') ?? DEFAULT_PAGE_SIZE),
+    MAX_PAGE_SIZE
+  );
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+    throw new FakeApiError(404, { detail: 'Invalid page.' });
+  }
+  const pages = Math.max(1, Math.ceil(items.length / pageSize));
+  if (page > pages) throw new FakeApiError(404, { detail: 'Invalid page.' });
+
+  const link = (target: number) => {
+    const next = new URL(url);
+    next.searchParams.set('page', String(target));
+    return next.toString();
+  };
+  return {
+    count: items.length,
+    next: page < pages ? link(page + 1) : null,
+    previous: page > 1 ? link(page - 1) : null,
+    results: items.slice((page - 1) * pageSize, page * pageSize),
+  };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new FakeApiError(413, { detail: 'Request body too large.' });
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Reported below
+  }
+  throw badRequest('JSON parse error.');
+}
+
+interface RouteContext {
+  url: URL;
+  params: string[];
+  // Authenticated username; routes marked `auth` never see null
+  user: string;
+  body: Record<string, unknown>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  auth: boolean;
+  // Returning undefined responds 204 No Content
+  handle: (context: RouteContext) => unknown;
+  // Status of a successful response (201 for creates)
+  status: number;
+}
+
+function createRoutes(api: FakeLocalCoinSwap): Route[] {
+  const route = (
+    method: string,
+    path: string,
+    auth: boolean,
+    handle: Route['handle'],
+    status = 200
+  ): Route => ({
+    method,
+    // Path segments written as :name match a single segment
+    pattern: new RegExp(`^/api/v2${path.replace(/:\w+/g, '([^/]+)')}$`),
+    auth,
+    handle,
+    status,
+  });
+
+  return [
+    route('GET', '/currencies/active-cryptos/', false, () =>
+      api.currencies.filter((c) => c.is_crypto && c.is_active)
+    ),
+    route('GET', '/currencies/crypto-currencies/', false, () =>
+      api.currencies.filter((c) => c.is_crypto)
+    ),
+    route('GET', '/currencies/fiat-currencies/', false, () =>
+      api.currencies.filter((c) => !c.is_crypto)
+    ),
+    route('GET', '/currencies/:symbol/', false, ({ params }) => api.getCurrency(params[0])),
+
+    route('GET', '/offers/search/', false, ({ url }) =>
+      paginate(api.searchOffers(url.searchParams), url)
+    ),
+    route('GET', '/offers/featured/', false, () => api.featuredOffers()),
+    route('GET', '/offers/payment-methods/', false, () => api.paymentMethods),
+    route('GET', '/offers/trade-types/', false, () => TRADE_TYPES),
+    route('GET', '/offers/', true, ({ url, user }) =>
+      paginate(api.offers.filter((o) => o.trader.username === user), url)
+    ),
+    route('POST', '/offers/', true, ({ user, body }) => api.createOffer(user, body), 201),
+    route('GET', '/offers/:uuid/', false, ({ params }) => api.getOffer(params[0])),
+    route('PATCH', '/offers/:uuid/', true, ({ user, params, body }) =>
+      api.updateOffer(user, params[0], body)
+    ),
+    route('DELETE', '/offers/:uuid/', true, ({ user, params }) => {
+      api.deleteOffer(user, params[0]);
+    }),
+
+    route('POST', '/swaps/estimate-swap-amount/', false, ({ body }) => api.estimateSwap(body)),
+    route('GET', '/swaps/min-swap-amount/:from/:to/', false, ({ params }) =>
+      api.minSwapAmount(params[0], params[1])
+    ),
+    route('GET', '/swaps/active-swaps/', true, ({ url, user }) =>
+      paginate(api.listSwaps(user, 'active'), url)
+    ),
+    route('GET', '/swaps/past-swaps/', true, ({ url, user }) =>
+      paginate(api.listSwaps(user, 'past'), url)
+    ),
+    route('GET', '/swaps/', true, ({ url, user }) => paginate(api.listSwaps(user), url)),
+    route('POST', '/swaps/', true, ({ user, body }) => api.createSwap(user, body), 201),
+    route('GET', '/swaps/:uuid/', true, ({ user, params }) => api.getSwap(user, params[0])),
+
+    route('GET', '/trades/', true, ({ url, user }) => paginate(api.listTrades(user), url)),
+    route('POST', '/trades/', true, ({ user, body }) => api.startTrade(user, body), 201),
+    route('GET', '/trades/:uuid/', true, ({ user, params }) => api.getTrade(user, params[0])),
+    route('POST', '/trades/:uuid/mark-paid/', true, ({ user, params }) =>
+      api.tradeAction(user, params[0], 'mark-paid')
+    ),
+    route('POST', '/trades/:uuid/release/', true, ({ user, params }) =>
+      api.tradeAction(user, params[0], 'release')
+    ),
+    route('POST', '/trades/:uuid/cancel/', true, ({ user, params }) =>
+      api.tradeAction(user, params[0], 'cancel')
+    ),
+    route('GET', '/trades/:uuid/messages/', true, ({ url, user, params }) =>
+      paginate(api.listMessages(user, params[0]), url)
+    ),
+    route(
+      'POST',
+      '/trades/:uuid/messages/',
+      true,
+      ({ user, params, body }) => api.sendMessage(user, params[0], body),
+      201
+    ),
+    route(
+      'POST',
+      '/trades/:uuid/dispute/',
+      true,
+      ({ user, params, body }) => api.openDispute(user, params[0], body),
+      201
+    ),
+    route('GET', '/trades/:uuid/dispute/', true, ({ user, params }) =>
+      api.getDispute(user, params[0])
+    ),
+    route(
+      'POST',
+      '/trades/:uuid/dispute/evidence/',
+      true,
+      ({ user, params, body }) => api.addEvidence(user, params[0], body),
+      201
+    ),
+    route(
+      'POST',
+      '/trades/:uuid/feedback/',
+      true,
+      ({ user, params, body }) => api.leaveFeedback(user, params[0], body),
+      201
+    ),
+
+    route('GET', '/profile/:username/', false, ({ params }) =>
+      api.profile(decodeURIComponent(params[0]))
+    ),
+    route('GET', '/profile/:username/feedback/', false, ({ url, params }) =>
+      paginate(api.getUserFeedback(decodeURIComponent(params[0])), url)
+    ),
+  ];
+}
+
+export interface FakeApiOptions {
+  host?: string;
+  // 0 picks a free port
+  port?: number;
+  // Accepted API tokens and the user each one authenticates as
+  tokens?: Record<string, string>;
+}
+
+export interface FakeApiHandle {
+  // Base URL to use as LCS_API_URL
+  url: string;
+  server: Server;
+  // The fake's data, for seeding and for acting as a counterparty in tests
+  api: FakeLocalCoinSwap;
+  close(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function startFakeApi(options: FakeApiOptions = {}): Promise<FakeApiHandle> {
+  const api = new FakeLocalCoinSwap();
+  const tokens = options.tokens ?? { [FAKE_API_TOKEN]: FAKE_API_USER };
+  const routes = createRoutes(api);
+
+  // Tokens are sent as "Authorization: Token <token>"
+  function authenticate(req: IncomingMessage): string {
+    const match = /^Token (.+)$/.exec(req.headers.authorization ?? '');
+    if (!match) {
+      throw new FakeApiError(401, { detail: 'Authentication credentials were not provided.' });
+    }
+    const user = tokens[match[1]];
+    if (!user) throw new FakeApiError(401, { detail: 'Invalid token.' });
+    return user;
+  }
+
+  const server = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    const respond = async () => {
+      const matches = routes
+        .map((r) => ({ route: r, match: r.pattern.exec(url.pathname) }))
+        .filter(({ match }) => match !== null);
+      if (matches.length === 0) throw notFound();
+
+      const found = matches.find(({ route: r }) => r.method === req.method);
+      if (!found) {
+        throw new FakeApiError(405, { detail: `Method "${req.method}" not allowed.` });
+      }
+
+      const user = found.route.auth ? authenticate(req) : '';
+      const body = req.method === 'GET' || req.method === 'DELETE' ? {} : await readJsonBody(req);
+      const result = found.route.handle({
+        url,
+        params: found.match!.slice(1),
+        user,
+        body,
+      });
+
+      if (result === undefined) {
+        res.writeHead(204);
+        res.end();
+      } else {
+        sendJson(res, found.route.status, result);
+      }
+    };
+
+    respond().catch((error) => {
+      if (error instanceof FakeApiError) {
+        sendJson(res, error.status, error.body);
+      } else {
+        sendJson(res, 500, { detail: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://${address.address}:${address.port}`,
+    server,
+    api,
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+// Run standalone: `npm run fake-api`, then start the MCP server with
+// LCS_API_URL=http://127.0.0.1:8787 and LCS_API_TOKEN=fake-api-token
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.LCS_FAKE_API_PORT || '8787', 10);
+  startFakeApi({ port })
+    .then((handle) => {
+      console.error(`Fake LocalCoinSwap API listening on ${handle.url}`);
+      console.error(`API token: ${FAKE_API_TOKEN} (user "${FAKE_API_USER}")`);
+    })
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
+}
@@ -1,16 +1,64 @@
 import { LocalCoinSwapClient } from './api-client.js';
-import type { ServerConfig } from './types.js';
-
-// Tool response type
+import {
+  configureRepricer,
+  runRepricerNow,
+  getRepricerStatus,
+  type RepricerSettings,
+} from './repricer.js';
+import { Decimal } from './decimal.js';
+import {
+  LocalCoinSwapError,
+  localErrorPayload,
+  toErrorPayload,
+  type ErrorPayload,
+} from './errors.js';
+import { idempotencyKey, isAmbiguous, runIdempotent } from './idempotency.js';
+import { checkPolicy, getPolicyStatus, reserveSpend } from './policy.js';
+import { MAX_AUDIT_QUERY_LIMIT, queryAuditLog } from './audit.js';
+import { PaperTradingClient } from './paper.js';
+import { MAX_PAGINATION_LIMIT, collectPage, decodeCursor, type PageWindow } from './pagination.js';
+import { DISPUTABLE_TRADE_STATUSES } from './types.js';
+import type {
+  ServerConfig,
+  Offer,
+  Swap,
+  Trade,
+  FeedbackRating,
+  CreateOfferParams,
+  UpdateOfferParams,
+  SwapEstimate,
+  PaginatedResponse,
+  DecimalString,
+} from './types.js';
+
+// Tool response type (index signature keeps it assignable to the SDK's CallToolResult)
 export interface ToolResponse {
   content: Array<{ type: 'text'; text: string }>;
   isError?: boolean;
+  [key: string]: unknown;
 }
 
+// Actions that must be confirmed before they are executed
+type ConfirmableAction =
+  | 'create_swap'
+  | 'start_trade'
+  | 'create_offer'
+  | 'update_offer'
+  | 'delete_offer'
+  | 'set_offers_active'
+  | 'configure_repricer'
+  | 'mark_trade_paid'
+  | 'release_trade'
+  | 'cancel_trade'
+  | 'open_dispute'
+  | 'add_dispute_evidence';
+
 // Pending confirmation entry with bound parameters
 interface PendingConfirmation {
-  action: 'create_swap' | 'start_trade';
+  action: ConfirmableAction;
   params: Record<string, unknown>;
+  // Swap quote shown when the confirmation was issued
+  quote?: SwapEstimate;
   expiresAt: number;
 }
 
@@ -63,18 +111,39 @@ export function getPendingConfirmation(id: string) {
 // HELPER FUNCTIONS
 // ============================================================================
 
-// Reusable API token validation
-function requireApiToken(config: ServerConfig): ToolResponse | null {
-  if (!config.apiToken) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: 'Error: API token not configured. Set LCS_API_TOKEN environment variable.',
-        },
-      ],
-      isError: true,
-    };
+function errorResponse(error: ErrorPayload): ToolResponse {
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error }, null, 2) }],
+    isError: true,
+  };
+}
+
+// Structured tool error for a thrown value, with a machine-readable code and retry hint
+function toolError(action: string, error: unknown): ToolResponse {
+  return errorResponse(toErrorPayload(`Error ${action}`, error));
+}
+
+// Structured tool error for a request refused before reaching the API
+function invalidRequest(message: string): ToolResponse {
+  return errorResponse(localErrorPayload('VALIDATION_ERROR', message));
+}
+
+// Tolerated clock skew when matching an API record against an earlier attempt
+const RECONCILE_SKEW_MS = 60 * 1000;
+
+function createdSince(createdAt: string, since: Date): boolean {
+  return Date.parse(createdAt) >= since.getTime() - RECONCILE_SKEW_MS;
+}
+
+// Reusable API token validation. Paper mode simulates everything that needs the token.
+function requireApiToken(client: LocalCoinSwapClient, config: ServerConfig): ToolResponse | null {
+  if (!config.apiToken && !(client instanceof PaperTradingClient)) {
+    return errorResponse(
+      localErrorPayload(
+        'AUTH_ERROR',
+        'API token not configured. Set LCS_API_TOKEN environment variable.'
+      )
+    );
   }
   return null;
 }
@@ -82,7 +151,7 @@ function requireApiToken(config: ServerConfig): ToolResponse | null {
 // Currency symbol validation
 const CURRENCY_SYMBOL_REGEX = /^[A-Z0-9]{2,10}$/;
 
-function validateCurrencySymbol(symbol: string): string | null {
+export function validateCurrencySymbol(symbol: string): string | null {
   const normalized = symbol.toUpperCase().trim();
   if (!CURRENCY_SYMBOL_REGEX.test(normalized)) {
     return `Invalid currency symbol: "${symbol}". Must be 2-10 alphanumeric characters.`;
@@ -91,80 +160,120 @@ function validateCurrencySymbol(symbol: string): string | null {
 }
 
 // Amount validation
-function validateAmount(amount: string): string | null {
+function validateAmount(amount: DecimalString): string | null {
   const trimmed = amount.trim();
   // Check for valid positive decimal number
   if (!/^\d+(\.\d+)?$/.test(trimmed)) {
     return `Invalid amount: "${amount}". Must be a positive number.`;
   }
-  const numValue = parseFloat(trimmed);
-  if (numValue <= 0) {
+  if (Decimal.parse(trimmed).isZero()) {
     return `Invalid amount: "${amount}". Must be greater than zero.`;
   }
-  if (!isFinite(numValue)) {
-    return `Invalid amount: "${amount}". Number is not finite.`;
+  return null;
+}
+
+// Reject amounts with more decimal places than the currency supports (Currency.decimals).
+// Currency details are cached, so this rarely costs a request.
+async function validateCurrencyPrecision(
+  client: LocalCoinSwapClient,
+  field: string,
+  amount: DecimalString,
+  symbol: string
+): Promise<string | null> {
+  const currency = await client.getCurrency(symbol.toUpperCase().trim());
+  if (currency.decimals === undefined) return null;
+
+  if (Decimal.parse(amount).decimalPlaces > currency.decimals) {
+    return `Invalid ${field}: "${amount}". ${currency.symbol} supports at most ${currency.decimals} decimal places.`;
+  }
+  return null;
+}
+
+// Compare two API amounts exactly ("1.50" and "1.5" are the same amount)
+function sameAmount(a: DecimalString, b: DecimalString): boolean {
+  return Decimal.isDecimal(a) && Decimal.isDecimal(b) && Decimal.parse(a).eq(Decimal.parse(b));
+}
+
+// List endpoints, used to check that a cursor belongs to the list it is passed to
+const OFFER_SEARCH_PATH = '/api/v2/offers/search/';
+const MY_OFFERS_PATH = '/api/v2/offers/';
+const SWAP_LIST_PATHS = {
+  active: '/api/v2/swaps/active-swaps/',
+  past: '/api/v2/swaps/past-swaps/',
+  all: '/api/v2/swaps/',
+};
+const MY_TRADES_PATH = '/api/v2/trades/';
+
+// Pagination arguments shared by the list tools
+interface ListParams {
+  limit?: number;
+  cursor?: string;
+}
+
+// List pagination validation; a cursor must have been issued for the list at listPath
+function validateListParams(params: ListParams, listPath: string): string | null {
+  if (
+    params.limit !== undefined &&
+    (!Number.isInteger(params.limit) || params.limit < 1 || params.limit > MAX_PAGINATION_LIMIT)
+  ) {
+    return `Invalid limit: ${params.limit}. Must be an integer between 1 and ${MAX_PAGINATION_LIMIT}.`;
+  }
+  if (params.cursor !== undefined && !decodeCursor(params.cursor, listPath)) {
+    return 'Invalid cursor. Pass the next_cursor returned by a previous call to the same tool.';
   }
   return null;
 }
 
+// Fetch up to limit items of a list from the cursor position, following `next` links
+function fetchListWindow<T>(
+  client: LocalCoinSwapClient,
+  first: () => Promise<PaginatedResponse<T>>,
+  params: ListParams,
+  listPath: string
+): Promise<PageWindow<T>> {
+  return collectPage(first, (link) => client.getPage<T>(link), {
+    limit: params.limit,
+    cursor: params.cursor ? decodeCursor(params.cursor, listPath) : null,
+  });
+}
+
+function listResponse<T>(window: PageWindow<T>): ToolResponse {
+  const { count, results, next_cursor } = window;
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ count, results, next_cursor }, null, 2) }],
+  };
+}
+
 // Validate confirmation and check parameter binding
 function validateConfirmation(
   confirmationId: string,
-  expectedAction: 'create_swap' | 'start_trade',
+  expectedAction: ConfirmableAction,
   expectedParams: Record<string, unknown>
 ): ToolResponse | null {
   const pending = pendingConfirmations.get(confirmationId);
 
   if (!pending) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: 'Error: Invalid or expired confirmation ID. Please start a new request.',
-        },
-      ],
-      isError: true,
-    };
+    return invalidRequest('Invalid or expired confirmation ID. Please start a new request.');
   }
 
   if (pending.expiresAt < Date.now()) {
     pendingConfirmations.delete(confirmationId);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: 'Error: Confirmation ID has expired. Please start a new request.',
-        },
-      ],
-      isError: true,
-    };
+    return invalidRequest('Confirmation ID has expired. Please start a new request.');
   }
 
   // Verify action type matches
   if (pending.action !== expectedAction) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: Confirmation ID was issued for a different action (${pending.action}). Please start a new request.`,
-        },
-      ],
-      isError: true,
-    };
+    return invalidRequest(
+      `Confirmation ID was issued for a different action (${pending.action}). Please start a new request.`
+    );
   }
 
   // Verify parameters match the original request (security: prevent token reuse for different operations)
   for (const [key, value] of Object.entries(expectedParams)) {
     if (pending.params[key] !== value) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: Request parameters do not match the original confirmation. Parameter "${key}" differs. Please start a new request.`,
-          },
-        ],
-        isError: true,
-      };
+      return invalidRequest(
+        `Request parameters do not match the original confirmation. Parameter "${key}" differs. Please start a new request.`
+      );
     }
   }
 
@@ -173,6 +282,40 @@ function validateConfirmation(
   return null;
 }
 
+// Store a pending action with bound parameters and describe it for review
+function issueConfirmation(
+  action: ConfirmableAction,
+  params: Record<string, unknown>,
+  description: string,
+  details: Record<string, unknown>
+): ToolResponse {
+  const confirmId = generateConfirmationId();
+  pendingConfirmations.set(confirmId, {
+    action,
+    params,
+    expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            status: 'confirmation_required',
+            message: `${description} requires confirmation. Call ${action} again with confirm=true or use the confirmation_id with the SAME parameters.`,
+            confirmation_id: confirmId,
+            expires_in: '5 minutes',
+            ...details,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
 // ============================================================================
 // CURRENCY HANDLERS
 // ============================================================================
@@ -206,15 +349,7 @@ export async function handleListCurrencies(
       content: [{ type: 'text', text: JSON.stringify(formatted, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error listing currencies: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('listing currencies', error);
   }
 }
 
@@ -226,7 +361,7 @@ export async function handleGetCurrency(
     // Validate input
     const symbolError = validateCurrencySymbol(params.symbol);
     if (symbolError) {
-      return { content: [{ type: 'text', text: `Error: ${symbolError}` }], isError: true };
+      return invalidRequest(symbolError);
     }
 
     const currency = await client.getCurrency(params.symbol.toUpperCase());
@@ -234,15 +369,7 @@ export async function handleGetCurrency(
       content: [{ type: 'text', text: JSON.stringify(currency, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error getting currency: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('getting currency', error);
   }
 }
 
@@ -258,61 +385,80 @@ export async function handleSearchOffers(
     trading_type?: 'buy' | 'sell';
     payment_method?: string;
     country_code?: string;
-    min_amount?: number;
-    max_amount?: number;
+    min_amount?: DecimalString;
+    max_amount?: DecimalString;
     ordering?: string;
     page?: number;
     page_size?: number;
+    limit?: number;
+    cursor?: string;
   }
 ): Promise<ToolResponse> {
   try {
+    const listError = validateListParams(params, OFFER_SEARCH_PATH);
+    if (listError) {
+      return invalidRequest(listError);
+    }
+
     // Validate currency symbols if provided
     if (params.coin_currency) {
       const error = validateCurrencySymbol(params.coin_currency);
       if (error) {
-        return { content: [{ type: 'text', text: `Error: ${error}` }], isError: true };
+        return invalidRequest(error);
       }
     }
     if (params.fiat_currency) {
       const error = validateCurrencySymbol(params.fiat_currency);
       if (error) {
-        return { content: [{ type: 'text', text: `Error: ${error}` }], isError: true };
+        return invalidRequest(error);
       }
     }
 
     // Validate amounts if provided
-    if (params.min_amount !== undefined && params.min_amount < 0) {
-      return {
-        content: [{ type: 'text', text: 'Error: min_amount must be non-negative.' }],
-        isError: true,
-      };
-    }
-    if (params.max_amount !== undefined && params.max_amount < 0) {
-      return {
-        content: [{ type: 'text', text: 'Error: max_amount must be non-negative.' }],
-        isError: true,
-      };
+    for (const field of ['min_amount', 'max_amount'] as const) {
+      const amount = params[field];
+      if (amount === undefined) continue;
+      if (!Decimal.isDecimal(amount)) {
+        return invalidRequest(`${field} must be a decimal number.`);
+      }
+      if (Decimal.parse(amount).isNegative()) {
+        return invalidRequest(`${field} must be non-negative.`);
+      }
+      if (params.fiat_currency) {
+        const precisionError = await validateCurrencyPrecision(
+          client,
+          field,
+          amount,
+          params.fiat_currency
+        );
+        if (precisionError) {
+          return invalidRequest(precisionError);
+        }
+      }
     }
 
-    const results = await client.searchOffers({
-      coin_currency: params.coin_currency?.toUpperCase(),
-      fiat_currency: params.fiat_currency?.toUpperCase(),
-      trading_type: params.trading_type,
-      payment_method: params.payment_method,
-      country_code: params.country_code?.toUpperCase(),
-      min_amount: params.min_amount,
-      max_amount: params.max_amount,
-      ordering: params.ordering,
-      page: params.page,
-      page_size: params.page_size,
-    });
+    const search = () =>
+      client.searchOffers({
+        coin_currency: params.coin_currency?.toUpperCase(),
+        fiat_currency: params.fiat_currency?.toUpperCase(),
+        trading_type: params.trading_type,
+        payment_method: params.payment_method,
+        country_code: params.country_code?.toUpperCase(),
+        min_amount: params.min_amount?.trim(),
+        max_amount: params.max_amount?.trim(),
+        ordering: params.ordering,
+        page: params.page,
+        page_size: params.page_size,
+      });
+    const results = await fetchListWindow(client, search, params, OFFER_SEARCH_PATH);
 
     const summary = {
       total_count: results.count,
       page_info: {
-        has_next: !!results.next,
-        has_previous: !!results.previous,
+        has_next: results.next_cursor !== null,
+        has_previous: results.has_previous,
       },
+      next_cursor: results.next_cursor,
       offers: results.results.map((offer) => ({
         uuid: offer.uuid,
         type: offer.trading_type,
@@ -336,15 +482,7 @@ export async function handleSearchOffers(
       content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error searching offers: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('searching offers', error);
   }
 }
 
@@ -358,15 +496,7 @@ export async function handleGetOffer(
       content: [{ type: 'text', text: JSON.stringify(offer, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error getting offer: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('getting offer', error);
   }
 }
 
@@ -377,40 +507,33 @@ export async function handleGetFeaturedOffers(client: LocalCoinSwapClient): Prom
       content: [{ type: 'text', text: JSON.stringify(offers, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error getting featured offers: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('getting featured offers', error);
   }
 }
 
 export async function handleGetMyOffers(
   client: LocalCoinSwapClient,
-  config: ServerConfig
+  config: ServerConfig,
+  params: ListParams = {}
 ): Promise<ToolResponse> {
-  const tokenError = requireApiToken(config);
+  const tokenError = requireApiToken(client, config);
   if (tokenError) return tokenError;
 
+  const listError = validateListParams(params, MY_OFFERS_PATH);
+  if (listError) {
+    return invalidRequest(listError);
+  }
+
   try {
-    const results = await client.getMyOffers();
-    return {
-      content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-    };
+    const results = await fetchListWindow(
+      client,
+      () => client.getMyOffers(),
+      params,
+      MY_OFFERS_PATH
+    );
+    return listResponse(results);
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error getting your offers: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('getting your offers', error);
   }
 }
 
@@ -421,15 +544,7 @@ export async function handleListPaymentMethods(client: LocalCoinSwapClient): Pro
       content: [{ type: 'text', text: JSON.stringify(methods, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error listing payment methods: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('listing payment methods', error);
   }
 }
 
@@ -440,147 +555,712 @@ export async function handleListTradeTypes(client: LocalCoinSwapClient): Promise
       content: [{ type: 'text', text: JSON.stringify(types, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error listing trade types: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('listing trade types', error);
   }
 }
 
 // ============================================================================
-// SWAP HANDLERS
+// OFFER MANAGEMENT HANDLERS
 // ============================================================================
 
-export async function handleEstimateSwap(
+// Margin validation (percentage above/below market price, may be negative)
+function validateMargin(margin: string): string | null {
+  const trimmed = margin.trim();
+  if (!/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return `Invalid margin: "${margin}". Must be a number (percentage, may be negative).`;
+  }
+  if (Decimal.parse(trimmed).lte(Decimal.fromInteger(-100))) {
+    return `Invalid margin: "${margin}". Must be greater than -100.`;
+  }
+  return null;
+}
+
+// Validate the offer fields that are present
+function validateOfferFields(fields: {
+  coin_currency?: string;
+  fiat_currency?: string;
+  min_trade_size?: string;
+  max_trade_size?: string;
+  margin?: string;
+}): string | null {
+  if (fields.coin_currency !== undefined) {
+    const error = validateCurrencySymbol(fields.coin_currency);
+    if (error) return error;
+  }
+  if (fields.fiat_currency !== undefined) {
+    const error = validateCurrencySymbol(fields.fiat_currency);
+    if (error) return error;
+  }
+  if (fields.min_trade_size !== undefined) {
+    const error = validateAmount(fields.min_trade_size);
+    if (error) return `min_trade_size: ${error}`;
+  }
+  if (fields.max_trade_size !== undefined) {
+    const error = validateAmount(fields.max_trade_size);
+    if (error) return `max_trade_size: ${error}`;
+  }
+  if (
+    fields.min_trade_size !== undefined &&
+    fields.max_trade_size !== undefined &&
+    Decimal.parse(fields.min_trade_size).gt(Decimal.parse(fields.max_trade_size))
+  ) {
+    return 'min_trade_size must not be greater than max_trade_size.';
+  }
+  if (fields.margin !== undefined) {
+    const error = validateMargin(fields.margin);
+    if (error) return error;
+  }
+  return null;
+}
+
+export async function handleCreateOffer(
   client: LocalCoinSwapClient,
-  params: { from_currency: string; to_currency: string; amount: string }
+  config: ServerConfig,
+  params: CreateOfferParams & { confirm?: boolean; confirmation_id?: string }
 ): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
   try {
-    // Validate inputs
-    const fromError = validateCurrencySymbol(params.from_currency);
-    if (fromError) {
-      return { content: [{ type: 'text', text: `Error: ${fromError}` }], isError: true };
+    const validationError = validateOfferFields(params);
+    if (validationError) {
+      return invalidRequest(validationError);
     }
-    const toError = validateCurrencySymbol(params.to_currency);
-    if (toError) {
-      return { content: [{ type: 'text', text: `Error: ${toError}` }], isError: true };
+    // Trade size limits are in the fiat currency
+    for (const field of ['min_trade_size', 'max_trade_size'] as const) {
+      const precisionError = await validateCurrencyPrecision(
+        client,
+        field,
+        params[field],
+        params.fiat_currency
+      );
+      if (precisionError) {
+        return invalidRequest(precisionError);
+      }
     }
-    const amountError = validateAmount(params.amount);
-    if (amountError) {
-      return { content: [{ type: 'text', text: `Error: ${amountError}` }], isError: true };
+
+    const normalizedParams: CreateOfferParams = {
+      trading_type: params.trading_type,
+      coin_currency: params.coin_currency.toUpperCase().trim(),
+      fiat_currency: params.fiat_currency.toUpperCase().trim(),
+      payment_method: params.payment_method,
+      min_trade_size: params.min_trade_size.trim(),
+      max_trade_size: params.max_trade_size.trim(),
+      margin: params.margin.trim(),
+      headline: params.headline,
+      trading_conditions: params.trading_conditions,
+      country_code: params.country_code?.toUpperCase(),
+    };
+
+    // Check if confirmation is required (use !== true to properly handle explicit false)
+    if (config.requireConfirmation && params.confirm !== true && !params.confirmation_id) {
+      return issueConfirmation(
+        'create_offer',
+        { ...normalizedParams },
+        'Publishing this offer',
+        { offer_details: normalizedParams }
+      );
     }
 
-    const estimate = await client.estimateSwap(
-      params.from_currency.toUpperCase(),
-      params.to_currency.toUpperCase(),
-      params.amount
-    );
+    // Validate confirmation ID if provided (with parameter binding check)
+    if (params.confirmation_id) {
+      const confirmationError = validateConfirmation(params.confirmation_id, 'create_offer', {
+        ...normalizedParams,
+      });
+      if (confirmationError) return confirmationError;
+    }
+
+    const offer = await client.createOffer(normalizedParams);
 
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(
-            {
-              from: `${estimate.from_amount} ${estimate.from_currency}`,
-              to: `${estimate.to_amount} ${estimate.to_currency}`,
-              rate: estimate.rate,
-              fee: estimate.fee,
-            },
-            null,
-            2
-          ),
+          text: JSON.stringify({ status: 'offer_created', offer }, null, 2),
         },
       ],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error estimating swap: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('creating offer', error);
   }
 }
 
-export async function handleGetMinSwapAmount(
+export async function handleUpdateOffer(
   client: LocalCoinSwapClient,
-  params: { from_currency: string; to_currency: string }
+  config: ServerConfig,
+  params: UpdateOfferParams & { uuid: string; confirm?: boolean; confirmation_id?: string }
 ): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
   try {
-    // Validate inputs
-    const fromError = validateCurrencySymbol(params.from_currency);
-    if (fromError) {
-      return { content: [{ type: 'text', text: `Error: ${fromError}` }], isError: true };
-    }
-    const toError = validateCurrencySymbol(params.to_currency);
-    if (toError) {
-      return { content: [{ type: 'text', text: `Error: ${toError}` }], isError: true };
+    const validationError = validateOfferFields(params);
+    if (validationError) {
+      return invalidRequest(validationError);
     }
 
-    const minAmount = await client.getMinSwapAmount(
-      params.from_currency.toUpperCase(),
-      params.to_currency.toUpperCase()
-    );
+    // Trade size limits are in the offer's fiat currency
+    if (params.min_trade_size !== undefined || params.max_trade_size !== undefined) {
+      const { fiat_currency } = await client.getOffer(params.uuid);
+      for (const field of ['min_trade_size', 'max_trade_size'] as const) {
+        const amount = params[field];
+        if (amount === undefined) continue;
+        const precisionError = await validateCurrencyPrecision(client, field, amount, fiat_currency);
+        if (precisionError) {
+          return invalidRequest(precisionError);
+        }
+      }
+    }
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(minAmount, null, 2) }],
+    const changes: UpdateOfferParams = {
+      payment_method: params.payment_method,
+      min_trade_size: params.min_trade_size?.trim(),
+      max_trade_size: params.max_trade_size?.trim(),
+      margin: params.margin?.trim(),
+      headline: params.headline,
+      trading_conditions: params.trading_conditions,
+      is_active: params.is_active,
     };
-  } catch (error) {
+    // Only send fields that were provided
+    const providedChanges = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    ) as UpdateOfferParams;
+
+    if (Object.keys(providedChanges).length === 0) {
+      return invalidRequest('No offer fields to update were provided.');
+    }
+
+    // Bind every field (including omitted ones) so a confirmation cannot be reused with different changes
+    const normalizedParams = { uuid: params.uuid, ...changes };
+
+    // Check if confirmation is required (use !== true to properly handle explicit false)
+    if (config.requireConfirmation && params.confirm !== true && !params.confirmation_id) {
+      // Get current offer for display
+      const offer = await client.getOffer(params.uuid);
+
+      return issueConfirmation('update_offer', normalizedParams, 'Updating this offer', {
+        offer_details: {
+          uuid: offer.uuid,
+          type: offer.trading_type,
+          crypto: offer.coin_currency,
+          fiat: offer.fiat_currency,
+          payment_method: offer.payment_method?.name,
+          margin: offer.margin,
+          min_trade: offer.min_trade_size,
+          max_trade: offer.max_trade_size,
+          is_active: offer.is_active,
+        },
+        changes: providedChanges,
+      });
+    }
+
+    // Validate confirmation ID if provided (with parameter binding check)
+    if (params.confirmation_id) {
+      const confirmationError = validateConfirmation(
+        params.confirmation_id,
+        'update_offer',
+        normalizedParams
+      );
+      if (confirmationError) return confirmationError;
+    }
+
+    const offer = await client.updateOffer(params.uuid, providedChanges);
+
     return {
       content: [
         {
           type: 'text',
-          text: `Error getting minimum swap amount: ${error instanceof Error ? error.message : String(error)}`,
+          text: JSON.stringify({ status: 'offer_updated', offer }, null, 2),
         },
       ],
-      isError: true,
     };
+  } catch (error) {
+    return toolError('updating offer', error);
   }
 }
 
-export async function handleGetMySwaps(
+export async function handleDeleteOffer(
   client: LocalCoinSwapClient,
   config: ServerConfig,
-  params: { status?: 'active' | 'past' | 'all' }
+  params: { uuid: string; confirm?: boolean; confirmation_id?: string }
 ): Promise<ToolResponse> {
-  const tokenError = requireApiToken(config);
+  const tokenError = requireApiToken(client, config);
   if (tokenError) return tokenError;
 
   try {
-    let swaps;
-    switch (params.status) {
-      case 'active':
-        swaps = await client.getActiveSwaps();
+    const normalizedParams = { uuid: params.uuid };
+
+    // Check if confirmation is required (use !== true to properly handle explicit false)
+    if (config.requireConfirmation && params.confirm !== true && !params.confirmation_id) {
+      // Get offer details for display
+      const offer = await client.getOffer(params.uuid);
+
+      return issueConfirmation('delete_offer', normalizedParams, 'Deleting this offer', {
+        offer_details: {
+          uuid: offer.uuid,
+          type: offer.trading_type,
+          crypto: offer.coin_currency,
+          fiat: offer.fiat_currency,
+          payment_method: offer.payment_method?.name,
+          headline: offer.headline,
+        },
+      });
+    }
+
+    // Validate confirmation ID if provided (with parameter binding check)
+    if (params.confirmation_id) {
+      const confirmationError = validateConfirmation(
+        params.confirmation_id,
+        'delete_offer',
+        normalizedParams
+      );
+      if (confirmationError) return confirmationError;
+    }
+
+    await client.deleteOffer(params.uuid);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ status: 'offer_deleted', uuid: params.uuid }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return toolError('deleting offer', error);
+  }
+}
+
+export async function handleSetOffersActive(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: {
+    active: boolean;
+    coin_currency?: string;
+    fiat_currency?: string;
+    payment_method?: string;
+    all?: boolean;
+    confirm?: boolean;
+    confirmation_id?: string;
+  }
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const validationError = validateOfferFields(params);
+    if (validationError) {
+      return invalidRequest(validationError);
+    }
+
+    const hasFilter = !!(params.coin_currency || params.fiat_currency || params.payment_method);
+    if (!hasFilter && params.all !== true) {
+      return invalidRequest(
+        'Provide coin_currency, fiat_currency or payment_method, or set all=true to change every offer.'
+      );
+    }
+
+    const normalizedParams = {
+      active: params.active,
+      coin_currency: params.coin_currency?.toUpperCase().trim(),
+      fiat_currency: params.fiat_currency?.toUpperCase().trim(),
+      payment_method: params.payment_method,
+      all: params.all === true,
+    };
+
+    // Every page: a pause that leaves some offers live is worse than none during an incident
+    const offers: Offer[] = [];
+    for await (const offer of client.paginate(() => client.getMyOffers())) {
+      offers.push(offer);
+    }
+    const matching = offers.filter(
+      (offer) =>
+        offer.is_active !== normalizedParams.active &&
+        (!normalizedParams.coin_currency || offer.coin_currency === normalizedParams.coin_currency) &&
+        (!normalizedParams.fiat_currency || offer.fiat_currency === normalizedParams.fiat_currency) &&
+        (!normalizedParams.payment_method ||
+          offer.payment_method?.slug === normalizedParams.payment_method)
+    );
+
+    // Pausing is the safe direction and must work instantly during an incident,
+    // so only re-activating offers goes through the confirmation flow
+    if (
+      normalizedParams.active &&
+      config.requireConfirmation &&
+      params.confirm !== true &&
+      !params.confirmation_id
+    ) {
+      return issueConfirmation('set_offers_active', normalizedParams, 'Activating these offers', {
+        offers: matching.map((offer) => ({
+          uuid: offer.uuid,
+          type: offer.trading_type,
+          crypto: offer.coin_currency,
+          fiat: offer.fiat_currency,
+          payment_method: offer.payment_method?.name,
+        })),
+      });
+    }
+
+    // Validate confirmation ID if provided (with parameter binding check)
+    if (params.confirmation_id) {
+      const confirmationError = validateConfirmation(
+        params.confirmation_id,
+        'set_offers_active',
+        normalizedParams
+      );
+      if (confirmationError) return confirmationError;
+    }
+
+    const outcomes = await Promise.allSettled(
+      matching.map((offer) => client.updateOffer(offer.uuid, { is_active: normalizedParams.active }))
+    );
+
+    const results = matching.map((offer, i) => {
+      const outcome = outcomes[i];
+      return outcome.status === 'fulfilled'
+        ? { uuid: offer.uuid, success: true }
+        : {
+            uuid: offer.uuid,
+            success: false,
+            error:
+              outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+            code:
+              outcome.reason instanceof LocalCoinSwapError ? outcome.reason.code : 'INTERNAL_ERROR',
+          };
+    });
+    const failed = results.filter((r) => !r.success).length;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              status: normalizedParams.active ? 'offers_activated' : 'offers_paused',
+              matched: matching.length,
+              succeeded: matching.length - failed,
+              failed,
+              results,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    return toolError('changing offer status', error);
+  }
+}
+
+// ============================================================================
+// REPRICER HANDLERS
+// ============================================================================
+
+export async function handleConfigureRepricer(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: {
+    enabled: boolean;
+    min_margin: string;
+    max_margin: string;
+    target_position?: number;
+    step?: string;
+    interval_seconds?: number;
+    dry_run?: boolean;
+    coin_currency?: string;
+    fiat_currency?: string;
+    confirm?: boolean;
+    confirmation_id?: string;
+  }
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const validationError =
+      validateOfferFields({
+        coin_currency: params.coin_currency,
+        fiat_currency: params.fiat_currency,
+        margin: params.min_margin,
+      }) ?? validateMargin(params.max_margin);
+    if (validationError) {
+      return invalidRequest(validationError);
+    }
+    if (params.step !== undefined) {
+      const stepError = validateAmount(params.step);
+      if (stepError) {
+        return invalidRequest(`step: ${stepError}`);
+      }
+    }
+
+    const settings: RepricerSettings = {
+      enabled: params.enabled,
+      dryRun: params.dry_run === true,
+      intervalMs: (params.interval_seconds ?? 300) * 1000,
+      targetPosition: params.target_position ?? 1,
+      minMargin: Decimal.parse(params.min_margin).toString(),
+      maxMargin: Decimal.parse(params.max_margin).toString(),
+      step: params.step !== undefined ? Decimal.parse(params.step).toString() : '0.1',
+      coinCurrency: params.coin_currency?.toUpperCase().trim(),
+      fiatCurrency: params.fiat_currency?.toUpperCase().trim(),
+    };
+
+    if (Decimal.parse(settings.minMargin).gt(Decimal.parse(settings.maxMargin))) {
+      return invalidRequest('min_margin must not be greater than max_margin.');
+    }
+    if (!Number.isInteger(settings.targetPosition) || settings.targetPosition < 1) {
+      return invalidRequest('target_position must be a positive integer.');
+    }
+    if (!(settings.intervalMs >= 30000)) {
+      return invalidRequest('interval_seconds must be at least 30.');
+    }
+
+    // Live repricing changes offers unattended, so enabling it goes through confirmation
+    const isLive = settings.enabled && !settings.dryRun;
+    const normalizedParams = { ...settings };
+    if (isLive && config.requireConfirmation && params.confirm !== true && !params.confirmation_id) {
+      return issueConfirmation(
+        'configure_repricer',
+        normalizedParams,
+        'Enabling live repricing of your offers',
+        { repricer_settings: settings }
+      );
+    }
+
+    // Validate confirmation ID if provided (with parameter binding check)
+    if (params.confirmation_id) {
+      const confirmationError = validateConfirmation(
+        params.confirmation_id,
+        'configure_repricer',
+        normalizedParams
+      );
+      if (confirmationError) return confirmationError;
+    }
+
+    configureRepricer(client, settings);
+    const firstRun = settings.enabled ? await runRepricerNow(client) : null;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              status: settings.enabled ? 'repricer_configured' : 'repricer_stopped',
+              settings,
+              first_run: firstRun,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    return toolError('configuring repricer', error);
+  }
+}
+
+export async function handleGetRepricerStatus(): Promise<ToolResponse> {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(getRepricerStatus(), null, 2) }],
+  };
+}
+
+// ============================================================================
+// SWAP HANDLERS
+// ============================================================================
+
+export async function handleEstimateSwap(
+  client: LocalCoinSwapClient,
+  params: { from_currency: string; to_currency: string; amount: string }
+): Promise<ToolResponse> {
+  try {
+    // Validate inputs
+    const fromError = validateCurrencySymbol(params.from_currency);
+    if (fromError) {
+      return invalidRequest(fromError);
+    }
+    const toError = validateCurrencySymbol(params.to_currency);
+    if (toError) {
+      return invalidRequest(toError);
+    }
+    const amountError =
+      validateAmount(params.amount) ??
+      (await validateCurrencyPrecision(client, 'amount', params.amount, params.from_currency));
+    if (amountError) {
+      return invalidRequest(amountError);
+    }
+
+    const estimate = await client.estimateSwap(
+      params.from_currency.toUpperCase(),
+      params.to_currency.toUpperCase(),
+      params.amount
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              from: `${estimate.from_amount} ${estimate.from_currency}`,
+              to: `${estimate.to_amount} ${estimate.to_currency}`,
+              rate: estimate.rate,
+              fee: estimate.fee,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    return toolError('estimating swap', error);
+  }
+}
+
+export async function handleGetMinSwapAmount(
+  client: LocalCoinSwapClient,
+  params: { from_currency: string; to_currency: string }
+): Promise<ToolResponse> {
+  try {
+    // Validate inputs
+    const fromError = validateCurrencySymbol(params.from_currency);
+    if (fromError) {
+      return invalidRequest(fromError);
+    }
+    const toError = validateCurrencySymbol(params.to_currency);
+    if (toError) {
+      return invalidRequest(toError);
+    }
+
+    const minAmount = await client.getMinSwapAmount(
+      params.from_currency.toUpperCase(),
+      params.to_currency.toUpperCase()
+    );
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(minAmount, null, 2) }],
+    };
+  } catch (error) {
+    return toolError('getting minimum swap amount', error);
+  }
+}
+
+export async function handleGetMySwaps(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { status?: 'active' | 'past' | 'all' } & ListParams
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  const status = params.status ?? 'all';
+  const listError = validateListParams(params, SWAP_LIST_PATHS[status]);
+  if (listError) {
+    return invalidRequest(listError);
+  }
+
+  try {
+    let first: () => Promise<PaginatedResponse<Swap>>;
+    switch (status) {
+      case 'active':
+        first = () => client.getActiveSwaps();
         break;
       case 'past':
-        swaps = await client.getPastSwaps();
+        first = () => client.getPastSwaps();
         break;
       default:
-        swaps = await client.getSwaps();
+        first = () => client.getSwaps();
     }
 
+    const swaps = await fetchListWindow(client, first, params, SWAP_LIST_PATHS[status]);
+    return listResponse(swaps);
+  } catch (error) {
+    return toolError('getting swaps', error);
+  }
+}
+
+export async function handleGetSwap(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string }
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const swap = await client.getSwap(params.uuid);
     return {
-      content: [{ type: 'text', text: JSON.stringify(swaps, null, 2) }],
+      content: [{ type: 'text', text: JSON.stringify(swap, null, 2) }],
     };
   } catch (error) {
+    return toolError('getting swap', error);
+  }
+}
+
+// Swap states after which the status no longer changes
+const TERMINAL_SWAP_STATUSES = ['completed', 'failed', 'cancelled', 'expired', 'refunded'];
+
+// MCP clients give up on a request after 60 seconds by default, so the default wait must end
+// (and answer with a timeout status) before that
+const DEFAULT_SWAP_WAIT_SECONDS = 45;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function handleWaitForSwap(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; timeout_seconds?: number; poll_interval_seconds?: number }
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const timeoutSeconds = params.timeout_seconds ?? DEFAULT_SWAP_WAIT_SECONDS;
+    const pollIntervalSeconds = params.poll_interval_seconds ?? 10;
+    if (!(timeoutSeconds > 0 && timeoutSeconds <= 900)) {
+      return invalidRequest('timeout_seconds must be between 1 and 900.');
+    }
+    if (!(pollIntervalSeconds >= 2)) {
+      return invalidRequest('poll_interval_seconds must be at least 2.');
+    }
+
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutSeconds * 1000;
+    let swap = await client.getSwap(params.uuid);
+
+    while (!TERMINAL_SWAP_STATUSES.includes(swap.status) && Date.now() < deadline) {
+      await sleep(Math.min(pollIntervalSeconds * 1000, Math.max(0, deadline - Date.now())));
+      swap = await client.getSwap(params.uuid);
+    }
+
+    const finished = TERMINAL_SWAP_STATUSES.includes(swap.status);
     return {
       content: [
         {
           type: 'text',
-          text: `Error getting swaps: ${error instanceof Error ? error.message : String(error)}`,
+          text: JSON.stringify(
+            {
+              status: finished ? 'swap_finished' : 'timeout',
+              swap_status: swap.status,
+              transaction_hash: swap.transaction_hash,
+              elapsed_seconds: Math.round((Date.now() - startedAt) / 1000),
+              swap,
+            },
+            null,
+            2
+          ),
         },
       ],
-      isError: true,
     };
+  } catch (error) {
+    return toolError('waiting for swap', error);
   }
 }
 
@@ -591,26 +1271,40 @@ export async function handleCreateSwap(
     from_currency: string;
     to_currency: string;
     from_amount: string;
+    max_slippage_percent?: number;
     confirm?: boolean;
     confirmation_id?: string;
   }
 ): Promise<ToolResponse> {
-  const tokenError = requireApiToken(config);
+  const tokenError = requireApiToken(client, config);
   if (tokenError) return tokenError;
 
   try {
     // Validate inputs
     const fromError = validateCurrencySymbol(params.from_currency);
     if (fromError) {
-      return { content: [{ type: 'text', text: `Error: ${fromError}` }], isError: true };
+      return invalidRequest(fromError);
     }
     const toError = validateCurrencySymbol(params.to_currency);
     if (toError) {
-      return { content: [{ type: 'text', text: `Error: ${toError}` }], isError: true };
+      return invalidRequest(toError);
     }
-    const amountError = validateAmount(params.from_amount);
+    const amountError =
+      validateAmount(params.from_amount) ??
+      (await validateCurrencyPrecision(
+        client,
+        'from_amount',
+        params.from_amount,
+        params.from_currency
+      ));
     if (amountError) {
-      return { content: [{ type: 'text', text: `Error: ${amountError}` }], isError: true };
+      return invalidRequest(amountError);
+    }
+    if (
+      params.max_slippage_percent !== undefined &&
+      !(params.max_slippage_percent >= 0 && params.max_slippage_percent <= 100)
+    ) {
+      return invalidRequest('max_slippage_percent must be between 0 and 100.');
     }
 
     const normalizedParams = {
@@ -618,24 +1312,42 @@ export async function handleCreateSwap(
       to_currency: params.to_currency.toUpperCase(),
       from_amount: params.from_amount,
     };
+    // The slippage limit is bound to the confirmation too, so it cannot be loosened afterwards
+    const boundParams = { ...normalizedParams, max_slippage_percent: params.max_slippage_percent };
+
+    // Checked on every call, so limits also apply when a confirmed swap is executed
+    const policy = checkPolicy({
+      action: 'create_swap',
+      amount: normalizedParams.from_amount,
+      currency: normalizedParams.from_currency,
+      coins: [normalizedParams.from_currency, normalizedParams.to_currency],
+      idempotency_key: idempotencyKey('create_swap', normalizedParams),
+    });
+    const needsConfirmation =
+      config.requireConfirmation && params.confirm !== true && !params.confirmation_id;
+
+    // Check if confirmation is required (use !== true to properly handle explicit false).
+    // A slippage limit needs a locked quote to compare against, so it is never auto-approved.
+    if (
+      needsConfirmation &&
+      (!policy.autoApprove || params.max_slippage_percent !== undefined)
+    ) {
+      // Get estimate for display and to lock the quote
+      const estimate = await client.estimateSwap(
+        normalizedParams.from_currency,
+        normalizedParams.to_currency,
+        normalizedParams.from_amount
+      );
 
-    // Check if confirmation is required (use !== true to properly handle explicit false)
-    if (config.requireConfirmation && params.confirm !== true && !params.confirmation_id) {
       // Generate confirmation ID and store pending action with bound parameters
       const confirmId = generateConfirmationId();
       pendingConfirmations.set(confirmId, {
         action: 'create_swap',
-        params: normalizedParams,
+        params: boundParams,
+        quote: estimate,
         expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
       });
 
-      // Get estimate for display
-      const estimate = await client.estimateSwap(
-        normalizedParams.from_currency,
-        normalizedParams.to_currency,
-        normalizedParams.from_amount
-      );
-
       return {
         content: [
           {
@@ -647,10 +1359,12 @@ export async function handleCreateSwap(
                   'This swap requires confirmation before execution. Call create_swap again with confirm=true or use the confirmation_id with the SAME parameters.',
                 confirmation_id: confirmId,
                 expires_in: '5 minutes',
+                idempotency_key: idempotencyKey('create_swap', normalizedParams),
                 swap_details: {
                   from: `${normalizedParams.from_amount} ${normalizedParams.from_currency}`,
                   to: `${estimate.to_amount} ${normalizedParams.to_currency}`,
                   rate: estimate.rate,
+                  max_slippage_percent: params.max_slippage_percent,
                 },
               },
               null,
@@ -661,37 +1375,123 @@ export async function handleCreateSwap(
       };
     }
 
+    // Without a confirmation there is no locked quote, and the limit would be silently ignored
+    if (params.max_slippage_percent !== undefined && !params.confirmation_id) {
+      return invalidRequest(
+        'max_slippage_percent is checked against the quote locked by a confirmation. Call create_swap without confirm=true and execute it with the confirmation_id, or omit max_slippage_percent.'
+      );
+    }
+
     // Validate confirmation ID if provided (with parameter binding check)
     if (params.confirmation_id) {
+      const lockedQuote = pendingConfirmations.get(params.confirmation_id)?.quote;
       const validationError = validateConfirmation(
         params.confirmation_id,
         'create_swap',
-        normalizedParams
+        boundParams
       );
       if (validationError) return validationError;
+
+      // Re-quote and refuse if the rate moved against us by more than the allowed slippage
+      if (params.max_slippage_percent !== undefined) {
+        const quoted = lockedQuote ? Decimal.parse(lockedQuote.to_amount) : Decimal.ZERO;
+        if (!lockedQuote || !quoted.gt(Decimal.ZERO)) {
+          return invalidRequest(
+            'The confirmed quote has no amount to check slippage against. Please start a new request.'
+          );
+        }
+        const estimate = await client.estimateSwap(
+          normalizedParams.from_currency,
+          normalizedParams.to_currency,
+          normalizedParams.from_amount
+        );
+        const current = Decimal.parse(estimate.to_amount);
+        const slippagePercent = quoted
+          .sub(current)
+          .mul(Decimal.fromInteger(100))
+          .div(quoted);
+
+        if (slippagePercent.gt(Decimal.parse(params.max_slippage_percent.toFixed(8)))) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    status: 'slippage_exceeded',
+                    message:
+                      'The swap was not executed because the current quote is worse than the confirmed quote by more than max_slippage_percent. Please start a new request.',
+                    quoted_to_amount: lockedQuote.to_amount,
+                    current_to_amount: estimate.to_amount,
+                    slippage_percent: slippagePercent.toFixed(4),
+                    max_slippage_percent: params.max_slippage_percent,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
     }
 
-    // Execute the swap
-    const swap = await client.createSwap(normalizedParams);
+    // Held against the daily limit from here on, and given back if the API rejects the swap
+    const reservation = reserveSpend(
+      normalizedParams.from_currency,
+      normalizedParams.from_amount,
+      idempotencyKey('create_swap', normalizedParams)
+    );
+
+    // Execute the swap at most once: an earlier attempt that timed out may have gone through
+    const { key, result: swap, reconciled } = await runIdempotent<Swap>({
+      action: 'create_swap',
+      params: normalizedParams,
+      execute: () => client.createSwap(normalizedParams),
+      reconcile: async (since, claimed) => {
+        // The list is oldest first, so the earlier attempt may be on any page
+        for await (const s of client.paginate(() => client.getSwaps())) {
+          if (
+            !claimed.has(s.uuid) &&
+            s.from_currency === normalizedParams.from_currency &&
+            s.to_currency === normalizedParams.to_currency &&
+            sameAmount(s.from_amount, normalizedParams.from_amount) &&
+            createdSince(s.created_at, since)
+          ) {
+            return s;
+          }
+        }
+        return null;
+      },
+      resultId: (created) => created.uuid,
+    }).catch((error: unknown) => {
+      // Keep the allowance reserved while the request may still have gone through
+      if (isAmbiguous(error)) reservation.hold();
+      else reservation.release();
+      throw error;
+    });
+
+    const result = reconciled
+      ? {
+          status: 'swap_already_created',
+          message:
+            'An earlier attempt of this swap went through, so it was not submitted again.',
+          idempotency_key: key,
+          swap,
+        }
+      : {
+          status: 'swap_created',
+          idempotency_key: key,
+          ...(needsConfirmation && { auto_approved: true }),
+          swap,
+        };
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({ status: 'swap_created', swap }, null, 2),
-        },
-      ],
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
     };
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error creating swap: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return toolError('creating swap', error);
   }
 }
 
@@ -709,14 +1509,26 @@ export async function handleStartTrade(
     confirmation_id?: string;
   }
 ): Promise<ToolResponse> {
-  const tokenError = requireApiToken(config);
+  const tokenError = requireApiToken(client, config);
   if (tokenError) return tokenError;
 
   try {
     // Validate amount
     const amountError = validateAmount(params.amount);
     if (amountError) {
-      return { content: [{ type: 'text', text: `Error: ${amountError}` }], isError: true };
+      return invalidRequest(amountError);
+    }
+
+    // The trade amount is in the offer's fiat currency
+    const offer = await client.getOffer(params.offer_uuid);
+    const precisionError = await validateCurrencyPrecision(
+      client,
+      'amount',
+      params.amount,
+      offer.fiat_currency
+    );
+    if (precisionError) {
+      return invalidRequest(precisionError);
     }
 
     const normalizedParams = {
@@ -724,11 +1536,21 @@ export async function handleStartTrade(
       amount: params.amount,
     };
 
-    // Check if confirmation is required (use !== true to properly handle explicit false)
-    if (config.requireConfirmation && params.confirm !== true && !params.confirmation_id) {
-      // Get offer details for display
-      const offer = await client.getOffer(params.offer_uuid);
+    // Checked on every call, so limits also apply when a confirmed trade is started
+    const policy = checkPolicy({
+      action: 'start_trade',
+      amount: normalizedParams.amount,
+      currency: offer.fiat_currency,
+      coins: [offer.coin_currency],
+      payment_method: offer.payment_method?.slug,
+      counterparty: offer.trader,
+      idempotency_key: idempotencyKey('start_trade', normalizedParams),
+    });
+    const needsConfirmation =
+      config.requireConfirmation && params.confirm !== true && !params.confirmation_id;
 
+    // Check if confirmation is required (use !== true to properly handle explicit false)
+    if (needsConfirmation && !policy.autoApprove) {
       // Generate confirmation ID and store pending action with bound parameters
       const confirmId = generateConfirmationId();
       pendingConfirmations.set(confirmId, {
@@ -748,6 +1570,7 @@ export async function handleStartTrade(
                   'This trade requires confirmation before starting. Call start_trade again with confirm=true or use the confirmation_id with the SAME parameters.',
                 confirmation_id: confirmId,
                 expires_in: '5 minutes',
+                idempotency_key: idempotencyKey('start_trade', normalizedParams),
                 trade_details: {
                   offer_uuid: params.offer_uuid,
                   amount: `${params.amount} ${offer.fiat_currency}`,
@@ -775,77 +1598,601 @@ export async function handleStartTrade(
       if (validationError) return validationError;
     }
 
-    // Execute the trade
-    const trade = await client.startTrade(normalizedParams);
+    // Held against the daily limit from here on, and given back if the API rejects the trade
+    const reservation = reserveSpend(
+      offer.fiat_currency,
+      normalizedParams.amount,
+      idempotencyKey('start_trade', normalizedParams)
+    );
+
+    // Start the trade at most once: an earlier attempt that timed out may have gone through
+    const { key, result: trade, reconciled } = await runIdempotent<Trade>({
+      action: 'start_trade',
+      params: normalizedParams,
+      execute: () => client.startTrade(normalizedParams),
+      reconcile: async (since, claimed) => {
+        for await (const t of client.paginate(() => client.getMyTrades())) {
+          if (
+            !claimed.has(t.uuid) &&
+            t.offer?.uuid === normalizedParams.offer_uuid &&
+            sameAmount(t.amount, normalizedParams.amount) &&
+            createdSince(t.created_at, since)
+          ) {
+            return t;
+          }
+        }
+        return null;
+      },
+      resultId: (started) => started.uuid,
+    }).catch((error: unknown) => {
+      // Keep the allowance reserved while the request may still have gone through
+      if (isAmbiguous(error)) reservation.hold();
+      else reservation.release();
+      throw error;
+    });
+
+    const result = reconciled
+      ? {
+          status: 'trade_already_started',
+          message:
+            'An earlier attempt to start this trade went through, so it was not submitted again.',
+          idempotency_key: key,
+          trade,
+        }
+      : {
+          status: 'trade_started',
+          idempotency_key: key,
+          ...(needsConfirmation && { auto_approved: true }),
+          trade,
+        };
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({ status: 'trade_started', trade }, null, 2),
-        },
-      ],
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  } catch (error) {
+    return toolError('starting trade', error);
+  }
+}
+
+export async function handleGetMyTrades(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: ListParams = {}
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  const listError = validateListParams(params, MY_TRADES_PATH);
+  if (listError) {
+    return invalidRequest(listError);
+  }
+
+  try {
+    const trades = await fetchListWindow(
+      client,
+      () => client.getMyTrades(),
+      params,
+      MY_TRADES_PATH
+    );
+    return listResponse(trades);
+  } catch (error) {
+    return toolError('getting trades', error);
+  }
+}
+
+export async function handleGetTrade(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string }
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const trade = await client.getTrade(params.uuid);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(trade, null, 2) }],
     };
   } catch (error) {
+    return toolError('getting trade', error);
+  }
+}
+
+// ============================================================================
+// TRADE LIFECYCLE HANDLERS
+// ============================================================================
+
+// Options for the shared confirm-then-execute flow on an existing trade
+interface TradeActionOptions<T> {
+  action: Extract<
+    ConfirmableAction,
+    'mark_trade_paid' | 'release_trade' | 'cancel_trade' | 'open_dispute' | 'add_dispute_evidence'
+  >;
+  // Parameters bound to the confirmation in addition to the trade UUID
+  boundParams?: Record<string, unknown>;
+  // If set, the action is refused unless the trade is currently in one of these states
+  allowedStatuses?: readonly string[];
+  execute: () => Promise<T>;
+  resultKey: string;
+  description: string;
+  successStatus: string;
+  // Describes the action in error messages, e.g. 'releasing trade'
+  errorAction: string;
+}
+
+function disallowedStatusResponse(
+  trade: Trade,
+  options: TradeActionOptions<unknown>
+): ToolResponse | null {
+  if (!options.allowedStatuses || options.allowedStatuses.includes(trade.status)) {
+    return null;
+  }
+  return invalidRequest(
+    `Cannot ${options.action.replace(/_/g, ' ')} while trade is "${trade.status}". Allowed states: ${options.allowedStatuses.join(', ')}.`
+  );
+}
+
+// Shared confirm-then-execute flow for actions on an existing trade
+async function runTradeAction<T>(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; confirm?: boolean; confirmation_id?: string },
+  options: TradeActionOptions<T>
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const normalizedParams = { uuid: params.uuid, ...options.boundParams };
+
+    // Check if confirmation is required (use !== true to properly handle explicit false)
+    if (config.requireConfirmation && params.confirm !== true && !params.confirmation_id) {
+      // Get trade details for display
+      const trade = await client.getTrade(params.uuid);
+      const statusError = disallowedStatusResponse(trade, options);
+      if (statusError) return statusError;
+
+      return issueConfirmation(options.action, normalizedParams, options.description, {
+        trade_details: {
+          uuid: trade.uuid,
+          status: trade.status,
+          amount: `${trade.amount} ${trade.offer?.fiat_currency}`,
+          crypto: trade.offer?.coin_currency,
+          buyer: trade.buyer?.username,
+          seller: trade.seller?.username,
+          payment_method: trade.offer?.payment_method?.name,
+        },
+        ...options.boundParams,
+      });
+    }
+
+    // Validate confirmation ID if provided (with parameter binding check)
+    if (params.confirmation_id) {
+      const validationError = validateConfirmation(
+        params.confirmation_id,
+        options.action,
+        normalizedParams
+      );
+      if (validationError) return validationError;
+    }
+
+    // Re-check the trade state right before executing, it may have changed since confirmation
+    if (options.allowedStatuses) {
+      const trade = await client.getTrade(params.uuid);
+      const statusError = disallowedStatusResponse(trade, options);
+      if (statusError) return statusError;
+    }
+
+    const result = await options.execute();
+
     return {
       content: [
         {
           type: 'text',
-          text: `Error starting trade: ${error instanceof Error ? error.message : String(error)}`,
+          text: JSON.stringify(
+            { status: options.successStatus, [options.resultKey]: result },
+            null,
+            2
+          ),
         },
       ],
-      isError: true,
     };
+  } catch (error) {
+    return toolError(options.errorAction, error);
   }
 }
 
-export async function handleGetMyTrades(
+export async function handleMarkTradePaid(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; confirm?: boolean; confirmation_id?: string }
+): Promise<ToolResponse> {
+  return runTradeAction(client, config, params, {
+    action: 'mark_trade_paid',
+    execute: () => client.markTradePaid(params.uuid),
+    resultKey: 'trade',
+    description: 'Marking this trade as paid',
+    successStatus: 'trade_marked_paid',
+    errorAction: 'marking trade as paid',
+  });
+}
+
+export async function handleReleaseTrade(
   client: LocalCoinSwapClient,
-  config: ServerConfig
+  config: ServerConfig,
+  params: { uuid: string; confirm?: boolean; confirmation_id?: string }
+): Promise<ToolResponse> {
+  return runTradeAction(client, config, params, {
+    action: 'release_trade',
+    execute: () => client.releaseTrade(params.uuid),
+    resultKey: 'trade',
+    description: 'Releasing escrow to the buyer',
+    successStatus: 'trade_released',
+    errorAction: 'releasing trade',
+  });
+}
+
+export async function handleCancelTrade(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; confirm?: boolean; confirmation_id?: string }
+): Promise<ToolResponse> {
+  return runTradeAction(client, config, params, {
+    action: 'cancel_trade',
+    execute: () => client.cancelTrade(params.uuid),
+    resultKey: 'trade',
+    description: 'Cancelling this trade',
+    successStatus: 'trade_cancelled',
+    errorAction: 'cancelling trade',
+  });
+}
+
+// ============================================================================
+// TRADE CHAT HANDLERS
+// ============================================================================
+
+const MAX_TRADE_MESSAGE_LENGTH = 2000;
+
+export async function handleGetTradeMessages(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string }
 ): Promise<ToolResponse> {
-  const tokenError = requireApiToken(config);
+  const tokenError = requireApiToken(client, config);
   if (tokenError) return tokenError;
 
   try {
-    const trades = await client.getMyTrades();
+    const results = await client.getTradeMessages(params.uuid);
+
+    const summary = {
+      trade_uuid: params.uuid,
+      total_count: results.count,
+      messages: results.results.map((m) => ({
+        id: m.id,
+        sender: m.sender?.username,
+        sent_at: m.created_at,
+        message: m.message,
+        // Attachments are surfaced as metadata only; the file itself is not downloaded
+        attachment: m.attachment
+          ? {
+              filename: m.attachment.filename,
+              content_type: m.attachment.content_type,
+              size: m.attachment.size,
+              url: m.attachment.url,
+            }
+          : undefined,
+      })),
+    };
+
     return {
-      content: [{ type: 'text', text: JSON.stringify(trades, null, 2) }],
+      content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }],
     };
   } catch (error) {
+    return toolError('getting trade messages', error);
+  }
+}
+
+export async function handleSendTradeMessage(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; message: string }
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const message = params.message.trim();
+    if (!message) {
+      return invalidRequest('message must not be empty.');
+    }
+    if (message.length > MAX_TRADE_MESSAGE_LENGTH) {
+      return invalidRequest(`message must be at most ${MAX_TRADE_MESSAGE_LENGTH} characters.`);
+    }
+
+    const sent = await client.sendTradeMessage(params.uuid, message);
+
     return {
       content: [
         {
           type: 'text',
-          text: `Error getting trades: ${error instanceof Error ? error.message : String(error)}`,
+          text: JSON.stringify({ status: 'message_sent', message: sent }, null, 2),
         },
       ],
-      isError: true,
     };
+  } catch (error) {
+    return toolError('sending trade message', error);
   }
 }
 
-export async function handleGetTrade(
+// ============================================================================
+// DISPUTE HANDLERS
+// ============================================================================
+
+const MAX_DISPUTE_TEXT_LENGTH = 5000;
+
+function validateDisputeText(field: string, text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return `${field} must not be empty.`;
+  }
+  if (trimmed.length > MAX_DISPUTE_TEXT_LENGTH) {
+    return `${field} must be at most ${MAX_DISPUTE_TEXT_LENGTH} characters.`;
+  }
+  return null;
+}
+
+export async function handleOpenDispute(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; reason: string; confirm?: boolean; confirmation_id?: string }
+): Promise<ToolResponse> {
+  const reasonError = validateDisputeText('reason', params.reason);
+  if (reasonError) {
+    return invalidRequest(reasonError);
+  }
+
+  const reason = params.reason.trim();
+  return runTradeAction(client, config, params, {
+    action: 'open_dispute',
+    boundParams: { reason },
+    allowedStatuses: DISPUTABLE_TRADE_STATUSES,
+    execute: () => client.openDispute(params.uuid, reason),
+    resultKey: 'dispute',
+    description: 'Opening a dispute on this trade',
+    successStatus: 'dispute_opened',
+    errorAction: 'opening dispute',
+  });
+}
+
+export async function handleGetDispute(
   client: LocalCoinSwapClient,
   config: ServerConfig,
   params: { uuid: string }
 ): Promise<ToolResponse> {
-  const tokenError = requireApiToken(config);
+  const tokenError = requireApiToken(client, config);
+  if (tokenError) return tokenError;
+
+  try {
+    const dispute = await client.getDispute(params.uuid);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(dispute, null, 2) }],
+    };
+  } catch (error) {
+    return toolError('getting dispute', error);
+  }
+}
+
+export async function handleAddDisputeEvidence(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; text: string; confirm?: boolean; confirmation_id?: string }
+): Promise<ToolResponse> {
+  const textError = validateDisputeText('text', params.text);
+  if (textError) {
+    return invalidRequest(textError);
+  }
+
+  const text = params.text.trim();
+  return runTradeAction(client, config, params, {
+    action: 'add_dispute_evidence',
+    boundParams: { text },
+    allowedStatuses: ['disputed'],
+    execute: () => client.addDisputeEvidence(params.uuid, text),
+    resultKey: 'evidence',
+    description: 'Submitting dispute evidence',
+    successStatus: 'evidence_added',
+    errorAction: 'adding dispute evidence',
+  });
+}
+
+// ============================================================================
+// FEEDBACK HANDLERS
+// ============================================================================
+
+const MAX_FEEDBACK_COMMENT_LENGTH = 500;
+
+// Username validation
+const USERNAME_REGEX = /^[A-Za-z0-9_.-]{1,64}$/;
+
+export async function handleLeaveFeedback(
+  client: LocalCoinSwapClient,
+  config: ServerConfig,
+  params: { uuid: string; rating: FeedbackRating; comment: string }
+): Promise<ToolResponse> {
+  const tokenError = requireApiToken(client, config);
   if (tokenError) return tokenError;
 
   try {
+    const comment = params.comment.trim();
+    if (!comment) {
+      return invalidRequest('comment must not be empty.');
+    }
+    if (comment.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+      return invalidRequest(`comment must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters.`);
+    }
+
+    // Feedback can only be left once the trade has completed
     const trade = await client.getTrade(params.uuid);
+    if (trade.status !== 'completed') {
+      return invalidRequest(
+        `Feedback can only be left on completed trades. Trade is "${trade.status}".`
+      );
+    }
+
+    const feedback = await client.leaveFeedback({
+      trade_uuid: params.uuid,
+      rating: params.rating,
+      comment,
+    });
+
     return {
-      content: [{ type: 'text', text: JSON.stringify(trade, null, 2) }],
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ status: 'feedback_left', feedback }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return toolError('leaving feedback', error);
+  }
+}
+
+export async function handleGetUserFeedback(
+  client: LocalCoinSwapClient,
+  params: { username: string }
+): Promise<ToolResponse> {
+  try {
+    const username = params.username.trim();
+    if (!USERNAME_REGEX.test(username)) {
+      return invalidRequest(`Invalid username: "${params.username}".`);
+    }
+
+    const [profile, feedback] = await Promise.all([
+      client.getUserProfile(username),
+      client.getUserFeedback(username),
+    ]);
+
+    const summary = {
+      user: {
+        username: profile.username,
+        trades: profile.trades_count,
+        feedback_score: profile.feedback_score,
+        last_seen: profile.last_seen,
+      },
+      total_count: feedback.count,
+      feedback: feedback.results.map((f) => ({
+        rating: f.rating,
+        comment: f.comment,
+        from: f.from_user?.username,
+        trade_uuid: f.trade_uuid,
+        created_at: f.created_at,
+      })),
+    };
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }],
     };
   } catch (error) {
+    return toolError('getting user feedback', error);
+  }
+}
+
+// ============================================================================
+// CACHE HANDLERS
+// ============================================================================
+
+export async function handleCacheStats(
+  client: LocalCoinSwapClient,
+  params: { clear?: boolean } = {}
+): Promise<ToolResponse> {
+  try {
+    const cleared = params.clear ? await client.invalidateCache() : undefined;
+    const stats = await client.getCacheStats();
+    const result = stats ? { enabled: true, ...stats } : { enabled: false };
+
     return {
       content: [
         {
           type: 'text',
-          text: `Error getting trade: ${error instanceof Error ? error.message : String(error)}`,
+          text: JSON.stringify(cleared === undefined ? result : { ...result, cleared }, null, 2),
         },
       ],
-      isError: true,
     };
+  } catch (error) {
+    return toolError('getting cache stats', error);
+  }
+}
+
+// ============================================================================
+// POLICY HANDLERS
+// ============================================================================
+
+export async function handleGetPolicy(): Promise<ToolResponse> {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(getPolicyStatus(), null, 2) }],
+  };
+}
+
+// ============================================================================
+// AUDIT HANDLERS
+// ============================================================================
+
+export async function handleGetAuditLog(
+  params: { since?: string; until?: string; tool?: string; limit?: number } = {}
+): Promise<ToolResponse> {
+  for (const field of ['since', 'until'] as const) {
+    const value = params[field];
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      return invalidRequest(`Invalid ${field}: "${value}". Use an ISO 8601 timestamp.`);
+    }
+  }
+  if (
+    params.limit !== undefined &&
+    (!Number.isInteger(params.limit) || params.limit < 1 || params.limit > MAX_AUDIT_QUERY_LIMIT)
+  ) {
+    return invalidRequest(
+      `Invalid limit: ${params.limit}. Must be an integer between 1 and ${MAX_AUDIT_QUERY_LIMIT}.`
+    );
+  }
+
+  try {
+    const { entries, chain } = queryAuditLog(params);
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ chain, entries }, null, 2) }],
+    };
+  } catch (error) {
+    return toolError('reading audit log', error);
+  }
+}
+
+// ============================================================================
+// PAPER TRADING HANDLERS
+// ============================================================================
+
+export async function handlePaperPortfolio(
+  client: LocalCoinSwapClient,
+  params: { quote_currency?: string } = {}
+): Promise<ToolResponse> {
+  if (!(client instanceof PaperTradingClient)) {
+    return invalidRequest(
+      'Paper trading is not enabled. Start the server with LCS_MODE=paper to simulate swaps, trades and offers.'
+    );
+  }
+
+  if (params.quote_currency !== undefined) {
+    const quoteError = validateCurrencySymbol(params.quote_currency);
+    if (quoteError) {
+      return invalidRequest(quoteError);
+    }
+  }
+
+  try {
+    const portfolio = await client.getPortfolio(params.quote_currency);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(portfolio, null, 2) }],
+    };
+  } catch (error) {
+    return toolError('valuing paper portfolio', error);
   }
 }
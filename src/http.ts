@@ -0,0 +1,180 @@
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { LocalCoinSwapClient } from './api-client.js';
+import { createServer } from './server.js';
+import type { HttpTransportConfig, ServerConfig } from './types.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpServerHandle {
+  server: Server;
+  close(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// JSON-RPC error response for requests rejected before they reach a transport
+function sendRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+// Constant-time bearer token check
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer (.+)$/.exec(header);
+  if (!match) return false;
+
+  const provided = Buffer.from(match[1]);
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+// Serve MCP over Streamable HTTP (/mcp) with the legacy SSE transport (/sse, /messages) as a
+// fallback. Every session gets its own McpServer, all sharing one client and confirmation store.
+export async function startHttpServer(
+  config: ServerConfig,
+  client: LocalCoinSwapClient,
+  httpConfig: HttpTransportConfig
+): Promise<HttpServerHandle> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existing = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId || !isInitializeRequest(body)) {
+        sendRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableTransports.set(id, transport);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) streamableTransports.delete(transport.sessionId);
+      };
+      await createServer(config, client).connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // GET opens the server-to-client stream, DELETE ends the session
+    if (!existing) {
+      sendRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    await existing.handleRequest(req, res);
+  }
+
+  async function handleSseConnect(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      sseTransports.delete(transport.sessionId);
+    };
+    await createServer(config, client).connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const transport = sseTransports.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendRpcError(res, 404, 'Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const server = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const route = async () => {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: streamableTransports.size + sseTransports.size,
+        });
+        return;
+      }
+
+      if (!isAuthorized(req, httpConfig.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendRpcError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    };
+
+    route().catch((error) => {
+      console.error('HTTP request error:', error);
+      if (!res.headersSent) {
+        sendRpcError(res, 400, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(httpConfig.port, httpConfig.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    server,
+    async close() {
+      const transports = [...streamableTransports.values(), ...sseTransports.values()];
+      await Promise.allSettled(transports.map((t) => t.close()));
+      streamableTransports.clear();
+      sseTransports.clear();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
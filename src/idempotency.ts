@@ -0,0 +1,183 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { LocalCoinSwapError, NetworkError, ServerError } from './errors.js';
+
+// in_flight: submitted and not yet answered; unknown: the attempt failed in a way that does not
+// tell us whether the API processed it (timeout, connection drop, 5xx)
+export type ExecutionState = 'in_flight' | 'completed' | 'unknown';
+
+export interface ExecutionRecord {
+  key: string;
+  action: string;
+  params: Record<string, unknown>;
+  state: ExecutionState;
+  started_at: string;
+  updated_at: string;
+  result_id?: string;
+  error?: string;
+}
+
+export interface IdempotentResult<T> {
+  key: string;
+  result: T;
+  // True when an earlier ambiguous attempt turned out to have gone through (nothing resubmitted)
+  reconciled: boolean;
+}
+
+export interface IdempotentExecution<T> {
+  action: string;
+  params: Record<string, unknown>;
+  execute: () => Promise<T>;
+  // Look for the result of an earlier attempt started at `since`; null if it did not go through.
+  // Results whose IDs are in `claimed` belong to other executions and must not be matched.
+  reconcile: (since: Date, claimed: ReadonlySet<string>) => Promise<T | null>;
+  resultId: (result: T) => string;
+}
+
+// Records older than this are dropped
+const RECORD_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Execution records by key, optionally persisted to a JSON file so they survive restarts
+const records = new Map<string, ExecutionRecord>();
+// Keys being executed by this process right now
+const running = new Set<string>();
+let storeFile: string | null = null;
+
+// Key derived from the action and its bound parameters, so a retry with a fresh confirmation of
+// the same request maps onto the same execution record
+export function idempotencyKey(action: string, params: Record<string, unknown>): string {
+  const canonical = JSON.stringify(
+    Object.keys(params)
+      .sort()
+      .map((k) => [k, params[k]])
+  );
+  return `${action}:${createHash('sha256').update(canonical).digest('hex').slice(0, 16)}`;
+}
+
+function prune(): void {
+  const cutoff = Date.now() - RECORD_RETENTION_MS;
+  for (const [key, record] of records) {
+    if (Date.parse(record.updated_at) < cutoff) records.delete(key);
+  }
+}
+
+async function persist(): Promise<void> {
+  if (!storeFile) return;
+  prune();
+  await writeFile(storeFile, JSON.stringify([...records.values()], null, 2), 'utf8');
+}
+
+async function update(record: ExecutionRecord, changes: Partial<ExecutionRecord>): Promise<void> {
+  records.set(record.key, { ...record, ...changes, updated_at: new Date().toISOString() });
+  await persist();
+}
+
+// Result IDs already attributed to executions other than `key`
+function claimedIds(key: string): Set<string> {
+  const claimed = new Set<string>();
+  for (const record of records.values()) {
+    if (record.key !== key && record.result_id) claimed.add(record.result_id);
+  }
+  return claimed;
+}
+
+// Errors after which the request may or may not have been processed by the API
+export function isAmbiguous(error: unknown): boolean {
+  return (
+    !(error instanceof LocalCoinSwapError) ||
+    error instanceof NetworkError ||
+    error instanceof ServerError
+  );
+}
+
+// Execute a money-moving request at most once. If an earlier attempt with the same key ended
+// ambiguously, reconcile against the API first and only resubmit if nothing was created.
+export async function runIdempotent<T>(
+  execution: IdempotentExecution<T>
+): Promise<IdempotentResult<T>> {
+  const key = idempotencyKey(execution.action, execution.params);
+
+  if (running.has(key)) {
+    throw new LocalCoinSwapError(
+      `An identical ${execution.action} request is already in progress`,
+      'IN_PROGRESS'
+    );
+  }
+  running.add(key);
+
+  try {
+    const previous = records.get(key);
+    if (previous && previous.state !== 'completed') {
+      // Errors here propagate: never resubmit while the earlier attempt is unaccounted for
+      const existing = await execution.reconcile(new Date(previous.started_at), claimedIds(key));
+      if (existing !== null) {
+        await update(previous, { state: 'completed', result_id: execution.resultId(existing) });
+        return { key, result: existing, reconciled: true };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const record: ExecutionRecord = {
+      key,
+      action: execution.action,
+      params: execution.params,
+      state: 'in_flight',
+      started_at: now,
+      updated_at: now,
+    };
+    await update(record, {});
+
+    try {
+      const result = await execution.execute();
+      await update(record, { state: 'completed', result_id: execution.resultId(result) });
+      return { key, result, reconciled: false };
+    } catch (error) {
+      if (isAmbiguous(error)) {
+        await update(record, {
+          state: 'unknown',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } else {
+        // The API rejected the request outright, so there is nothing to reconcile
+        records.delete(key);
+        await persist();
+      }
+      throw error;
+    }
+  } finally {
+    running.delete(key);
+  }
+}
+
+// Persist execution records to a JSON file, loading any records already in it
+export function configureIdempotencyStore(file: string | null): void {
+  storeFile = file;
+  records.clear();
+  if (!file) return;
+
+  try {
+    const stored = JSON.parse(readFileSync(file, 'utf8')) as ExecutionRecord[];
+    for (const record of stored) {
+      // A record left in flight by a previous process can only be resolved by reconciling
+      records.set(
+        record.key,
+        record.state === 'in_flight' ? { ...record, state: 'unknown' } : record
+      );
+    }
+    prune();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+export function getExecutionRecord(key: string): ExecutionRecord | undefined {
+  return records.get(key);
+}
+
+// Reset all state (for testing)
+export function resetIdempotency(): void {
+  records.clear();
+  running.clear();
+  storeFile = null;
+}
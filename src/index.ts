@@ -1,10 +1,30 @@
 #!/usr/bin/env node
 
+import { dirname, join } from 'node:path';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { LocalCoinSwapClient } from './api-client.js';
+import { FileCacheStore, MemoryCacheStore, ResponseCache } from './cache.js';
 import { createServer } from './server.js';
-import { startConfirmationCleanup } from './handlers.js';
-import type { ServerConfig } from './types.js';
+import { startHttpServer } from './http.js';
+import { startConfirmationCleanup, stopConfirmationCleanup } from './handlers.js';
+import { stopRepricer } from './repricer.js';
+import { configureIdempotencyStore } from './idempotency.js';
+import {
+  POLICY_USAGE_FILE_NAME,
+  configurePolicy,
+  configurePolicyUsageStore,
+  loadPolicyFile,
+} from './policy.js';
+import { configureAuditLog } from './audit.js';
+import { PaperTradingClient, parsePaperBalances } from './paper.js';
+import type {
+  CacheConfig,
+  CassetteConfig,
+  HttpTransportConfig,
+  PaperConfig,
+  ServerConfig,
+  StoreConfig,
+} from './types.js';
 
 // Load configuration from environment
 export function loadConfig(): ServerConfig {
@@ -15,16 +35,141 @@ export function loadConfig(): ServerConfig {
   return { apiToken, apiUrl, requireConfirmation };
 }
 
+// Load HTTP transport configuration; returns null when the default stdio transport is used
+export function loadHttpConfig(argv: string[] = process.argv.slice(2)): HttpTransportConfig | null {
+  if (process.env.LCS_TRANSPORT !== 'http' && !argv.includes('--http')) {
+    return null;
+  }
+
+  const authToken = process.env.LCS_HTTP_AUTH_TOKEN || '';
+  if (!authToken) {
+    throw new Error('LCS_HTTP_AUTH_TOKEN must be set when using the HTTP transport');
+  }
+
+  const port = parseInt(process.env.LCS_HTTP_PORT || '3000', 10);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid LCS_HTTP_PORT: "${process.env.LCS_HTTP_PORT}"`);
+  }
+
+  return {
+    host: process.env.LCS_HTTP_HOST || '127.0.0.1',
+    port,
+    authToken,
+  };
+}
+
+// Load response cache configuration
+export function loadCacheConfig(): CacheConfig {
+  return {
+    enabled: process.env.LCS_CACHE !== 'false',
+    dir: process.env.LCS_CACHE_DIR || undefined,
+  };
+}
+
+// Load paper trading configuration; returns null unless LCS_MODE=paper
+export function loadPaperConfig(): PaperConfig | null {
+  const mode = process.env.LCS_MODE || 'live';
+  if (mode !== 'live' && mode !== 'paper') {
+    throw new Error(`Invalid LCS_MODE: "${mode}". Use "live" or "paper".`);
+  }
+  if (mode === 'live') {
+    return null;
+  }
+
+  return {
+    balances: parsePaperBalances(process.env.LCS_PAPER_BALANCES || ''),
+    quoteCurrency: (process.env.LCS_PAPER_QUOTE_CURRENCY || 'USD').toUpperCase(),
+  };
+}
+
+// Load the persistent store locations. Paper mode keeps everything in memory, so simulated
+// executions and spending never end up in the stores a live server uses.
+export function loadStoreConfig(paper: boolean): StoreConfig {
+  if (paper) {
+    return { idempotencyFile: null, policyUsageFile: null };
+  }
+
+  const policyFile = process.env.LCS_POLICY_FILE;
+  return {
+    idempotencyFile: process.env.LCS_IDEMPOTENCY_FILE || null,
+    policyUsageFile: policyFile
+      ? process.env.LCS_POLICY_USAGE_FILE || join(dirname(policyFile), POLICY_USAGE_FILE_NAME)
+      : null,
+  };
+}
+
+// Load HTTP record/replay configuration; returns null unless LCS_CASSETTE_MODE is set
+export function loadCassetteConfig(): CassetteConfig | null {
+  const mode = process.env.LCS_CASSETTE_MODE;
+  if (!mode) {
+    return null;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid LCS_CASSETTE_MODE: "${mode}". Use "record" or "replay".`);
+  }
+
+  const file = process.env.LCS_CASSETTE || '';
+  if (!file) {
+    throw new Error(`LCS_CASSETTE must be set when LCS_CASSETTE_MODE is "${mode}"`);
+  }
+  return { mode, file };
+}
+
 async function main() {
   const config = loadConfig();
-  const client = new LocalCoinSwapClient(config.apiUrl, config.apiToken);
-  const server = createServer(config, client);
+  const httpConfig = loadHttpConfig();
+  const cacheConfig = loadCacheConfig();
+  const paperConfig = loadPaperConfig();
+  const cassette = loadCassetteConfig();
+  const stores = loadStoreConfig(paperConfig !== null);
+  const cache = cacheConfig.enabled
+    ? new ResponseCache(
+        cacheConfig.dir ? new FileCacheStore(cacheConfig.dir) : new MemoryCacheStore()
+      )
+    : null;
+  // Paper mode reads real market data but never sends anything that moves funds
+  const client = paperConfig
+    ? new PaperTradingClient(config.apiUrl, config.apiToken, paperConfig, { cache, cassette })
+    : new LocalCoinSwapClient(config.apiUrl, config.apiToken, { cache, cassette });
+
+  // Persist idempotency records for swaps and trades so they survive restarts
+  configureIdempotencyStore(stores.idempotencyFile);
+
+  // Spending limits, allowlists and auto-approve thresholds for swaps and trades, with the
+  // spending counted towards the daily limits
+  if (process.env.LCS_POLICY_FILE) {
+    configurePolicy(loadPolicyFile(process.env.LCS_POLICY_FILE));
+    configurePolicyUsageStore(stores.policyUsageFile);
+  }
+
+  // Append-only, hash-chained record of every tool call
+  if (process.env.LCS_AUDIT_LOG) {
+    configureAuditLog(process.env.LCS_AUDIT_LOG);
+  }
 
   // Start periodic cleanup of expired confirmations (every 60 seconds)
   startConfirmationCleanup(60000);
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  let closeTransport: () => Promise<void>;
+  if (httpConfig) {
+    const handle = await startHttpServer(config, client, httpConfig);
+    closeTransport = () => handle.close();
+  } else {
+    const server = createServer(config, client);
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    closeTransport = () => server.close();
+  }
+
+  // Stop background timers and close connections on shutdown
+  const shutdown = async () => {
+    stopConfirmationCleanup();
+    stopRepricer();
+    await closeTransport();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
 
   // Log to stderr so it doesn't interfere with MCP protocol
   // Note: We only log whether the token is configured, never the actual value
@@ -32,6 +177,30 @@ async function main() {
   console.error(`API URL: ${config.apiUrl}`);
   console.error(`Confirmation required: ${config.requireConfirmation}`);
   console.error(`API Token: ${config.apiToken ? 'configured' : 'NOT configured'}`);
+  if (paperConfig) {
+    const balances = Object.entries(paperConfig.balances)
+      .map(([symbol, amount]) => `${amount} ${symbol}`)
+      .join(', ');
+    console.error(`Mode: PAPER TRADING (no funds move); starting balances: ${balances || 'none'}`);
+  }
+  if (process.env.LCS_POLICY_FILE) {
+    const usage = stores.policyUsageFile ?? 'memory only';
+    console.error(`Policy: ${process.env.LCS_POLICY_FILE} (daily usage: ${usage})`);
+  }
+  console.error(`Audit log: ${process.env.LCS_AUDIT_LOG || 'memory only'}`);
+  if (cassette) {
+    console.error(
+      `HTTP cassette: ${cassette.mode === 'record' ? 'recording to' : 'replaying'} ${cassette.file}`
+    );
+  }
+  if (!cacheConfig.enabled) {
+    console.error('Response cache: disabled');
+  } else {
+    console.error(`Response cache: ${cacheConfig.dir ? `disk (${cacheConfig.dir})` : 'memory'}`);
+  }
+  if (httpConfig) {
+    console.error(`HTTP transport: http://${httpConfig.host}:${httpConfig.port}/mcp (SSE: /sse)`);
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,109 @@
+import type { PaginatedResponse } from './types.js';
+
+// Most items a single list call may return when following `next` links
+export const MAX_PAGINATION_LIMIT = 500;
+
+// A fetched page and the link it was fetched from (null for the first page of a list)
+export interface PageRef<T> {
+  page: PaginatedResponse<T>;
+  link: string | null;
+}
+
+// Position in a list: the page link (null for the first page) and how many of its items were
+// already returned
+export interface CursorPosition {
+  link: string | null;
+  skip: number;
+}
+
+export interface PageWindow<T> {
+  count: number;
+  results: T[];
+  has_previous: boolean;
+  // Opaque cursor to pass back to continue the list; null when there is nothing further
+  next_cursor: string | null;
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify({ l: position.link, s: position.skip })).toString(
+    'base64url'
+  );
+}
+
+// Decode a cursor issued for the list at listPath; null if malformed or from another list
+export function decodeCursor(cursor: string, listPath: string): CursorPosition | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (typeof decoded !== 'object' || decoded === null) return null;
+
+  const { l: link, s: skip } = decoded as { l?: unknown; s?: unknown };
+  if (typeof skip !== 'number' || !Number.isInteger(skip) || skip < 0) return null;
+  if (link === null) return { link, skip };
+  if (typeof link !== 'string') return null;
+
+  try {
+    if (!new URL(link, 'http://localhost').pathname.endsWith(listPath)) return null;
+  } catch {
+    return null;
+  }
+  return { link, skip };
+}
+
+// Yield pages starting from the first page (or from startLink), following `next` links
+export async function* followPages<T>(
+  first: () => Promise<PaginatedResponse<T>>,
+  fetchPage: (link: string) => Promise<PaginatedResponse<T>>,
+  startLink: string | null = null
+): AsyncGenerator<PageRef<T>> {
+  let link = startLink;
+  let page = link === null ? await first() : await fetchPage(link);
+  for (;;) {
+    yield { page, link };
+    if (!page.next) return;
+    link = page.next;
+    page = await fetchPage(link);
+  }
+}
+
+// Collect up to `limit` items starting at `cursor`. Without a limit a single page is returned,
+// as the API would; with one, further pages are fetched until the limit is reached.
+export async function collectPage<T>(
+  first: () => Promise<PaginatedResponse<T>>,
+  fetchPage: (link: string) => Promise<PaginatedResponse<T>>,
+  options: { limit?: number; cursor?: CursorPosition | null } = {}
+): Promise<PageWindow<T>> {
+  const start = options.cursor ?? { link: null, skip: 0 };
+  const limit = options.limit;
+  const results: T[] = [];
+  let count = 0;
+  let hasPrevious: boolean | null = null;
+  let nextCursor: string | null = null;
+  let skip = start.skip;
+
+  for await (const { page, link } of followPages(first, fetchPage, start.link)) {
+    hasPrevious ??= !!page.previous || skip > 0;
+    count = page.count;
+
+    const available = page.results.slice(skip);
+    const room = (limit ?? available.length) - results.length;
+    if (available.length > room) {
+      // Stop part way through this page and resume from the next unreturned item
+      results.push(...available.slice(0, room));
+      nextCursor = encodeCursor({ link, skip: skip + room });
+      break;
+    }
+
+    results.push(...available);
+    skip = 0;
+    if (limit === undefined || results.length >= limit) {
+      nextCursor = page.next ? encodeCursor({ link: page.next, skip: 0 }) : null;
+      break;
+    }
+  }
+
+  return { count, results, has_previous: hasPrevious ?? false, next_cursor: nextCursor };
+}
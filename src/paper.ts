@@ -0,0 +1,530 @@
+import { randomUUID } from 'node:crypto';
+import { LocalCoinSwapClient, type ClientOptions } from './api-client.js';
+import { Decimal } from './decimal.js';
+import { LocalCoinSwapError, NotFoundError, ValidationError } from './errors.js';
+import type {
+  CreateOfferParams,
+  CreateSwapParams,
+  DecimalString,
+  Dispute,
+  DisputeEvidence,
+  Feedback,
+  Offer,
+  PaginatedResponse,
+  PaperConfig,
+  StartTradeParams,
+  Swap,
+  Trade,
+  TradeMessage,
+  UpdateOfferParams,
+  UserProfile,
+} from './types.js';
+
+// The simulated account on one side of every paper trade
+const PAPER_TRADER: UserProfile = { username: 'paper-trader', uuid: 'paper-trader' };
+
+// Every simulated swap, trade and offer has a UUID with this prefix
+const PAPER_UUID_PREFIX = 'paper-';
+
+// Decimal places for coin amounts when the currency does not report its own
+const DEFAULT_COIN_DECIMALS = 8;
+
+// Decimal places for portfolio values when the quote currency does not report its own
+const DEFAULT_QUOTE_DECIMALS = 2;
+
+const TERMINAL_SWAP_STATUSES = ['completed', 'failed', 'cancelled', 'expired', 'refunded'];
+
+// A simulated trade and what it holds: the currency and amount taken from the ledger when the
+// trade started, and the currency and amount credited when it completes
+interface PaperTrade {
+  trade: Trade;
+  spend: { currency: string; amount: Decimal };
+  receive: { currency: string; amount: Decimal };
+}
+
+export interface PaperBalance {
+  currency: string;
+  starting: DecimalString;
+  // Available balance plus anything held in open trades
+  current: DecimalString;
+  in_open_trades: DecimalString;
+  change: DecimalString;
+  // Current value in the quote currency; null when no market data prices this currency
+  value: DecimalString | null;
+}
+
+export interface PaperPortfolio {
+  mode: 'paper';
+  quote_currency: string;
+  balances: PaperBalance[];
+  // Both valued at current prices, so PnL is the result of trading versus holding
+  starting_value: DecimalString;
+  current_value: DecimalString;
+  pnl: DecimalString;
+  pnl_percent: DecimalString | null;
+  unpriced_currencies: string[];
+  swaps: number;
+  trades: { open: number; completed: number; cancelled: number };
+  offers: number;
+}
+
+// Parse "USD=10000,BTC=0.5" into balances keyed by upper-case symbol
+export function parsePaperBalances(text: string): Record<string, DecimalString> {
+  const balances: Record<string, DecimalString> = {};
+  for (const entry of text.split(',')) {
+    if (entry.trim() === '') continue;
+    const [symbol, amount, ...rest] = entry.split('=').map((part) => part.trim());
+    if (
+      !symbol ||
+      amount === undefined ||
+      rest.length > 0 ||
+      !Decimal.isDecimal(amount) ||
+      Decimal.parse(amount).isNegative()
+    ) {
+      throw new Error(
+        `Invalid paper balance "${entry.trim()}" (expected SYMBOL=amount, e.g. USD=1000)`
+      );
+    }
+    balances[symbol.toUpperCase()] = amount;
+  }
+  return balances;
+}
+
+export function isPaperUuid(uuid: string): boolean {
+  return uuid.startsWith(PAPER_UUID_PREFIX);
+}
+
+function paperUuid(): string {
+  return `${PAPER_UUID_PREFIX}${randomUUID()}`;
+}
+
+function singlePage<T>(results: T[]): PaginatedResponse<T> {
+  return { count: results.length, next: null, previous: null, results };
+}
+
+// Refusal for writes that have no simulated equivalent
+function notSimulated(action: string): ValidationError {
+  return new ValidationError(`${action} is not available in paper trading mode`, 400);
+}
+
+// A client that reads real market data but simulates everything that would move funds or change
+// the account: swaps and trades settle against an in-memory balance ledger, and offers are kept
+// locally. Simulated records use the API's own shapes so handlers work unchanged.
+export class PaperTradingClient extends LocalCoinSwapClient {
+  private readonly startingBalances: Map<string, Decimal>;
+  private readonly balances: Map<string, Decimal>;
+  private readonly swaps: Swap[] = [];
+  private readonly trades: PaperTrade[] = [];
+  private readonly offers: Offer[] = [];
+  readonly quoteCurrency: string;
+
+  constructor(baseUrl: string, token: string, paper: PaperConfig, options: ClientOptions = {}) {
+    super(baseUrl, token, options);
+    this.quoteCurrency = paper.quoteCurrency.toUpperCase();
+    this.startingBalances = new Map(
+      Object.entries(paper.balances).map(([symbol, amount]) => [
+        symbol.toUpperCase(),
+        Decimal.parse(amount),
+      ])
+    );
+    this.balances = new Map(this.startingBalances);
+  }
+
+  getBalance(currency: string): Decimal {
+    return this.balances.get(currency.toUpperCase()) ?? Decimal.ZERO;
+  }
+
+  private debit(currency: string, amount: Decimal): void {
+    const symbol = currency.toUpperCase();
+    const balance = this.getBalance(symbol);
+    if (balance.lt(amount)) {
+      throw new ValidationError(
+        `Insufficient paper balance: ${amount} ${symbol} needed, ${balance} ${symbol} available`,
+        400
+      );
+    }
+    this.balances.set(symbol, balance.sub(amount));
+  }
+
+  private credit(currency: string, amount: Decimal): void {
+    const symbol = currency.toUpperCase();
+    this.balances.set(symbol, this.getBalance(symbol).add(amount));
+  }
+
+  // Swaps
+
+  async createSwap(params: CreateSwapParams): Promise<Swap> {
+    const estimate = await this.estimateSwap(
+      params.from_currency,
+      params.to_currency,
+      params.from_amount
+    );
+    this.debit(params.from_currency, Decimal.parse(params.from_amount));
+    this.credit(params.to_currency, Decimal.parse(estimate.to_amount));
+
+    const now = new Date().toISOString();
+    const swap: Swap = {
+      uuid: paperUuid(),
+      from_currency: params.from_currency,
+      to_currency: params.to_currency,
+      from_amount: params.from_amount,
+      to_amount: estimate.to_amount,
+      status: 'completed',
+      created_at: now,
+      completed_at: now,
+    };
+    this.swaps.push(swap);
+    return { ...swap };
+  }
+
+  async getSwap(uuid: string): Promise<Swap> {
+    const swap = this.swaps.find((s) => s.uuid === uuid);
+    if (!swap) throw new NotFoundError(`Paper swap ${uuid} not found`);
+    return { ...swap };
+  }
+
+  async getSwaps(): Promise<PaginatedResponse<Swap>> {
+    return singlePage(this.swaps.map((s) => ({ ...s })));
+  }
+
+  async getActiveSwaps(): Promise<PaginatedResponse<Swap>> {
+    return singlePage(
+      this.swaps.filter((s) => !TERMINAL_SWAP_STATUSES.includes(s.status)).map((s) => ({ ...s }))
+    );
+  }
+
+  async getPastSwaps(): Promise<PaginatedResponse<Swap>> {
+    return singlePage(
+      this.swaps.filter((s) => TERMINAL_SWAP_STATUSES.includes(s.status)).map((s) => ({ ...s }))
+    );
+  }
+
+  // Trades. The counterparty is simulated and always acts straight away: a seller releases as
+  // soon as the trade is marked paid, and a buyer has paid by the time a sell trade starts.
+
+  async startTrade(params: StartTradeParams): Promise<Trade> {
+    if (isPaperUuid(params.offer_uuid)) {
+      throw new ValidationError('Paper offers cannot be traded against', 400);
+    }
+    const offer = await super.getOffer(params.offer_uuid);
+    if (!offer.is_active) {
+      throw new ValidationError(`Offer ${offer.uuid} is not active`, 400);
+    }
+    if (!offer.price) {
+      throw new ValidationError(`Offer ${offer.uuid} has no price to simulate a trade at`, 400);
+    }
+
+    const fiatAmount = Decimal.parse(params.amount);
+    if (
+      fiatAmount.lt(Decimal.parse(offer.min_trade_size)) ||
+      fiatAmount.gt(Decimal.parse(offer.max_trade_size))
+    ) {
+      throw new ValidationError(
+        `Amount must be between ${offer.min_trade_size} and ${offer.max_trade_size} ${offer.fiat_currency}`,
+        400
+      );
+    }
+
+    const coin = await this.getCurrency(offer.coin_currency);
+    const coinAmount = fiatAmount.div(
+      Decimal.parse(offer.price),
+      coin.decimals ?? DEFAULT_COIN_DECIMALS
+    );
+    const fiat = { currency: offer.fiat_currency, amount: fiatAmount };
+    const crypto = { currency: offer.coin_currency, amount: coinAmount };
+
+    // A sell offer's trader sells crypto, so taking it means buying
+    const buying = offer.trading_type === 'sell';
+    const paperTrade: PaperTrade = {
+      trade: {
+        uuid: paperUuid(),
+        offer,
+        amount: params.amount,
+        status: buying ? 'active' : 'paid',
+        created_at: new Date().toISOString(),
+        buyer: buying ? PAPER_TRADER : offer.trader,
+        seller: buying ? offer.trader : PAPER_TRADER,
+      },
+      spend: buying ? fiat : crypto,
+      receive: buying ? crypto : fiat,
+    };
+
+    // What is being spent is held for the life of the trade
+    this.debit(paperTrade.spend.currency, paperTrade.spend.amount);
+    this.trades.push(paperTrade);
+    return { ...paperTrade.trade };
+  }
+
+  private findTrade(uuid: string): PaperTrade {
+    const paperTrade = this.trades.find((t) => t.trade.uuid === uuid);
+    if (!paperTrade) {
+      throw isPaperUuid(uuid)
+        ? new NotFoundError(`Paper trade ${uuid} not found`)
+        : new ValidationError(
+            `Trade ${uuid} is a live trade and cannot be changed in paper trading mode`,
+            400
+          );
+    }
+    return paperTrade;
+  }
+
+  private settle(paperTrade: PaperTrade, status: 'completed' | 'cancelled'): Trade {
+    const { currency, amount } = status === 'completed' ? paperTrade.receive : paperTrade.spend;
+    this.credit(currency, amount);
+    paperTrade.trade.status = status;
+    return { ...paperTrade.trade };
+  }
+
+  async getTrade(uuid: string): Promise<Trade> {
+    if (!isPaperUuid(uuid)) return super.getTrade(uuid);
+    const paperTrade = this.trades.find((t) => t.trade.uuid === uuid);
+    if (!paperTrade) throw new NotFoundError(`Paper trade ${uuid} not found`);
+    return { ...paperTrade.trade };
+  }
+
+  async getMyTrades(): Promise<PaginatedResponse<Trade>> {
+    return singlePage(this.trades.map((t) => ({ ...t.trade })));
+  }
+
+  async markTradePaid(uuid: string): Promise<Trade> {
+    const paperTrade = this.findTrade(uuid);
+    if (paperTrade.trade.buyer !== PAPER_TRADER) {
+      throw new ValidationError('Only the buyer can mark a trade as paid', 400);
+    }
+    if (paperTrade.trade.status !== 'active') {
+      throw new ValidationError(
+        `Trade is "${paperTrade.trade.status}" and cannot be marked paid`,
+        400
+      );
+    }
+    return this.settle(paperTrade, 'completed');
+  }
+
+  async releaseTrade(uuid: string): Promise<Trade> {
+    const paperTrade = this.findTrade(uuid);
+    if (paperTrade.trade.seller !== PAPER_TRADER) {
+      throw new ValidationError('Only the seller can release a trade', 400);
+    }
+    if (paperTrade.trade.status !== 'paid') {
+      throw new ValidationError(
+        `Trade is "${paperTrade.trade.status}" and cannot be released`,
+        400
+      );
+    }
+    return this.settle(paperTrade, 'completed');
+  }
+
+  async cancelTrade(uuid: string): Promise<Trade> {
+    const paperTrade = this.findTrade(uuid);
+    if (paperTrade.trade.status !== 'active') {
+      throw new ValidationError(
+        `Trade is "${paperTrade.trade.status}" and cannot be cancelled`,
+        400
+      );
+    }
+    return this.settle(paperTrade, 'cancelled');
+  }
+
+  async getTradeMessages(uuid: string): Promise<PaginatedResponse<TradeMessage>> {
+    if (!isPaperUuid(uuid)) return super.getTradeMessages(uuid);
+    this.findTrade(uuid);
+    return singlePage([]);
+  }
+
+  async sendTradeMessage(): Promise<TradeMessage> {
+    throw notSimulated('Sending trade messages');
+  }
+
+  async openDispute(): Promise<Dispute> {
+    throw notSimulated('Opening disputes');
+  }
+
+  async getDispute(uuid: string): Promise<Dispute> {
+    if (!isPaperUuid(uuid)) return super.getDispute(uuid);
+    throw new NotFoundError(`Paper trade ${uuid} has no dispute`);
+  }
+
+  async addDisputeEvidence(): Promise<DisputeEvidence> {
+    throw notSimulated('Adding dispute evidence');
+  }
+
+  async leaveFeedback(): Promise<Feedback> {
+    throw notSimulated('Leaving feedback');
+  }
+
+  // Offers. Paper offers are listed and edited like real ones but never matched.
+
+  private findOffer(uuid: string): Offer {
+    const offer = this.offers.find((o) => o.uuid === uuid);
+    if (!offer) {
+      throw isPaperUuid(uuid)
+        ? new NotFoundError(`Paper offer ${uuid} not found`)
+        : new ValidationError(
+            `Offer ${uuid} is a live offer and cannot be changed in paper trading mode`,
+            400
+          );
+    }
+    return offer;
+  }
+
+  async createOffer(params: CreateOfferParams): Promise<Offer> {
+    const now = new Date().toISOString();
+    const offer: Offer = {
+      uuid: paperUuid(),
+      trading_type: params.trading_type,
+      coin_currency: params.coin_currency,
+      fiat_currency: params.fiat_currency,
+      payment_method: { id: 0, name: params.payment_method, slug: params.payment_method },
+      headline: params.headline,
+      min_trade_size: params.min_trade_size,
+      max_trade_size: params.max_trade_size,
+      trading_conditions: params.trading_conditions,
+      margin: params.margin,
+      is_active: true,
+      trader: PAPER_TRADER,
+      created_at: now,
+      updated_at: now,
+    };
+    this.offers.push(offer);
+    return { ...offer };
+  }
+
+  async updateOffer(uuid: string, params: UpdateOfferParams): Promise<Offer> {
+    const offer = this.findOffer(uuid);
+    const { payment_method, ...changes } = params;
+    Object.assign(offer, changes, { updated_at: new Date().toISOString() });
+    if (payment_method !== undefined) {
+      offer.payment_method = { id: 0, name: payment_method, slug: payment_method };
+    }
+    return { ...offer };
+  }
+
+  async deleteOffer(uuid: string): Promise<void> {
+    this.offers.splice(this.offers.indexOf(this.findOffer(uuid)), 1);
+  }
+
+  async getOffer(uuid: string): Promise<Offer> {
+    if (!isPaperUuid(uuid)) return super.getOffer(uuid);
+    return { ...this.findOffer(uuid) };
+  }
+
+  async getMyOffers(): Promise<PaginatedResponse<Offer>> {
+    return singlePage(this.offers.map((o) => ({ ...o })));
+  }
+
+  // Portfolio
+
+  // Quote-currency price of one unit of a currency from live market data: swap estimates between
+  // cryptos, the best P2P offer between a crypto and a fiat. Null when neither applies.
+  private async unitPrice(
+    symbol: string,
+    quote: string,
+    amount: Decimal
+  ): Promise<Decimal | null> {
+    if (symbol === quote) return Decimal.fromInteger(1);
+    const [from, to] = await Promise.all([this.getCurrency(symbol), this.getCurrency(quote)]);
+
+    if (from.is_crypto && to.is_crypto) {
+      const estimate = await this.estimateSwap(symbol, quote, amount.toString());
+      return Decimal.parse(estimate.to_amount).div(Decimal.parse(estimate.from_amount));
+    }
+    if (from.is_crypto === to.is_crypto) return null;
+
+    // Selling the crypto for fiat, or buying it with fiat, at the best price on offer
+    const coin = from.is_crypto ? symbol : quote;
+    const fiat = from.is_crypto ? quote : symbol;
+    const offers = await this.searchOffers({
+      coin_currency: coin,
+      fiat_currency: fiat,
+      trading_type: from.is_crypto ? 'sell' : 'buy',
+      ordering: from.is_crypto ? '-price' : 'price',
+    });
+    const price = offers.results.find((o) => o.price)?.price;
+    if (!price) return null;
+    return from.is_crypto
+      ? Decimal.parse(price)
+      : Decimal.fromInteger(1).div(Decimal.parse(price));
+  }
+
+  // Balances and PnL, valued in the quote currency at current market prices
+  async getPortfolio(quoteCurrency: string = this.quoteCurrency): Promise<PaperPortfolio> {
+    const quote = quoteCurrency.toUpperCase();
+    const places = (await this.getCurrency(quote)).decimals ?? DEFAULT_QUOTE_DECIMALS;
+
+    const held = new Map<string, Decimal>();
+    for (const { trade, spend } of this.trades) {
+      if (trade.status !== 'completed' && trade.status !== 'cancelled') {
+        const symbol = spend.currency.toUpperCase();
+        held.set(symbol, (held.get(symbol) ?? Decimal.ZERO).add(spend.amount));
+      }
+    }
+
+    const symbols = [
+      ...new Set([...this.startingBalances.keys(), ...this.balances.keys(), ...held.keys()]),
+    ].sort();
+
+    let startingValue = Decimal.ZERO;
+    let currentValue = Decimal.ZERO;
+    const unpriced: string[] = [];
+    const balances: PaperBalance[] = [];
+
+    for (const symbol of symbols) {
+      const starting = this.startingBalances.get(symbol) ?? Decimal.ZERO;
+      const inTrades = held.get(symbol) ?? Decimal.ZERO;
+      const current = this.getBalance(symbol).add(inTrades);
+
+      const sized = starting.gt(current) ? starting : current;
+      let price: Decimal | null = null;
+      if (!sized.isZero()) {
+        try {
+          price = await this.unitPrice(symbol, quote, sized);
+        } catch (error) {
+          if (!(error instanceof LocalCoinSwapError)) throw error;
+        }
+        if (price) {
+          startingValue = startingValue.add(starting.mul(price));
+          currentValue = currentValue.add(current.mul(price));
+        } else {
+          unpriced.push(symbol);
+        }
+      }
+
+      balances.push({
+        currency: symbol,
+        starting: starting.toString(),
+        current: current.toString(),
+        in_open_trades: inTrades.toString(),
+        change: current.sub(starting).toString(),
+        value: price
+          ? current.mul(price).toFixed(places)
+          : sized.isZero()
+            ? Decimal.ZERO.toFixed(places)
+            : null,
+      });
+    }
+
+    const pnl = currentValue.sub(startingValue);
+    const count = (status: string) => this.trades.filter((t) => t.trade.status === status).length;
+    const closed = count('completed') + count('cancelled');
+
+    return {
+      mode: 'paper',
+      quote_currency: quote,
+      balances,
+      starting_value: startingValue.toFixed(places),
+      current_value: currentValue.toFixed(places),
+      pnl: pnl.toFixed(places),
+      pnl_percent: startingValue.isZero()
+        ? null
+        : pnl.mul(Decimal.fromInteger(100)).div(startingValue).toFixed(2),
+      unpriced_currencies: unpriced,
+      swaps: this.swaps.length,
+      trades: {
+        open: this.trades.length - closed,
+        completed: count('completed'),
+        cancelled: count('cancelled'),
+      },
+      offers: this.offers.length,
+    };
+  }
+}
@@ -0,0 +1,333 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { z } from 'zod';
+import { Decimal } from './decimal.js';
+import { PolicyViolationError } from './errors.js';
+import type { DecimalString, UserProfile } from './types.js';
+
+const decimalString = z
+  .string()
+  .refine((value) => Decimal.isDecimal(value) && !Decimal.parse(value).isNegative(), {
+    message: 'Must be a non-negative decimal string',
+  });
+
+// Amounts keyed by currency symbol (crypto for swaps, the offer's fiat for trades)
+const amountsByCurrency = z.record(decimalString);
+
+// Policy file schema; every rule is optional and rule names match the keys in the file
+const policySchema = z
+  .object({
+    max_amount_per_transaction: amountsByCurrency.optional(),
+    max_amount_per_day: amountsByCurrency.optional(),
+    allowed_coins: z.array(z.string()).optional(),
+    allowed_payment_methods: z.array(z.string()).optional(),
+    allowed_counterparties: z.array(z.string()).optional(),
+    min_counterparty_trades: z.number().int().min(0).optional(),
+    min_counterparty_feedback_score: z.number().min(0).optional(),
+    // Confirmation is skipped for amounts strictly below these thresholds
+    auto_approve_below: amountsByCurrency.optional(),
+  })
+  .strict();
+
+export type Policy = z.infer<typeof policySchema>;
+
+export type PolicyRule = keyof Policy;
+
+// An action checked against the policy
+export interface PolicyRequest {
+  action: 'create_swap' | 'start_trade';
+  // Amount spent and the currency it is in
+  amount: DecimalString;
+  currency: string;
+  // Coins involved (both sides of a swap, the offer's coin for a trade)
+  coins: string[];
+  payment_method?: string;
+  counterparty?: UserProfile;
+  // Idempotency key of the request, so a retry is not counted against its own reservation
+  idempotency_key?: string;
+}
+
+export interface PolicyDecision {
+  // True when the action is under an auto-approve threshold and may skip confirmation
+  autoApprove: boolean;
+}
+
+// Saved next to the policy file unless LCS_POLICY_USAGE_FILE is set
+export const POLICY_USAGE_FILE_NAME = 'policy-usage.json';
+
+// Daily usage as saved to the usage file
+interface StoredUsage {
+  day: string;
+  used: Record<string, DecimalString>;
+}
+
+// Active policy and the amounts spent (or reserved by actions still executing) per currency on
+// the current UTC day, optionally persisted so the daily limits survive restarts
+let policy: Policy | null = null;
+let usageDay = '';
+const dailyUsage = new Map<string, Decimal>();
+let usageFile: string | null = null;
+// Reservations kept for requests whose outcome is unknown, by idempotency key. A retry of the
+// same request takes its reservation over instead of counting the amount again.
+const heldSpends = new Map<string, { symbol: string; amount: Decimal; day: string }>();
+
+// Reservation returned by reserveSpend; call exactly one of these once the action has finished
+export interface SpendReservation {
+  // The API rejected the action: give the amount back
+  release(): void;
+  // The outcome is unknown: keep the amount counted, for a retry of the same request to reuse
+  hold(): void;
+}
+
+function upperKeys(
+  amounts: Record<string, string> | undefined
+): Record<string, string> | undefined {
+  return amounts
+    ? Object.fromEntries(Object.entries(amounts).map(([k, v]) => [k.toUpperCase(), v]))
+    : undefined;
+}
+
+// Validate a parsed policy document, normalising currency symbols to upper case
+export function parsePolicy(document: unknown): Policy {
+  const result = policySchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid policy: ${issues}`);
+  }
+
+  const parsed = result.data;
+  return {
+    ...parsed,
+    max_amount_per_transaction: upperKeys(parsed.max_amount_per_transaction),
+    max_amount_per_day: upperKeys(parsed.max_amount_per_day),
+    auto_approve_below: upperKeys(parsed.auto_approve_below),
+    allowed_coins: parsed.allowed_coins?.map((c) => c.toUpperCase()),
+  };
+}
+
+export function loadPolicyFile(file: string): Policy {
+  let document: unknown;
+  try {
+    document = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Could not read policy file ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return parsePolicy(document);
+}
+
+export function configurePolicy(newPolicy: Policy | null): void {
+  policy = newPolicy;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Amount spent in a currency today, resetting the counters when the UTC day changes
+function usedToday(currency: string): Decimal {
+  if (usageDay !== today()) {
+    usageDay = today();
+    dailyUsage.clear();
+  }
+  return dailyUsage.get(currency) ?? Decimal.ZERO;
+}
+
+// Amount held today for an earlier attempt of the request with this key
+function heldFor(key: string | undefined, symbol: string): Decimal {
+  const held = key === undefined ? undefined : heldSpends.get(key);
+  return held && held.symbol === symbol && held.day === usageDay ? held.amount : Decimal.ZERO;
+}
+
+function persistUsage(): void {
+  if (!usageFile) return;
+  const stored: StoredUsage = {
+    day: usageDay,
+    used: Object.fromEntries([...dailyUsage].map(([symbol, used]) => [symbol, used.toString()])),
+  };
+  writeFileSync(usageFile, JSON.stringify(stored, null, 2), 'utf8');
+}
+
+const COUNTERPARTY_RULES: PolicyRule[] = [
+  'allowed_counterparties',
+  'min_counterparty_trades',
+  'min_counterparty_feedback_score',
+];
+
+function violation(rule: PolicyRule, message: string): PolicyViolationError {
+  return new PolicyViolationError(`${message} (policy rule: ${rule})`, rule);
+}
+
+function checkDailyLimit(currency: string, amount: DecimalString, key?: string): void {
+  const dailyCap = policy?.max_amount_per_day?.[currency];
+  if (dailyCap === undefined) return;
+
+  const used = usedToday(currency).sub(heldFor(key, currency));
+  if (used.add(Decimal.parse(amount)).gt(Decimal.parse(dailyCap))) {
+    throw violation(
+      'max_amount_per_day',
+      `${amount} ${currency} would exceed the daily limit of ${dailyCap} ${currency} (${used} ${currency} already used today)`
+    );
+  }
+}
+
+// Payment method and counterparty rules, which only apply to trades. A rule that cannot be
+// checked because the offer does not say (no payment method or trader) blocks the trade.
+function checkTradeRules(active: Policy, request: PolicyRequest): void {
+  if (active.allowed_payment_methods) {
+    if (request.payment_method === undefined) {
+      throw violation(
+        'allowed_payment_methods',
+        'The payment method is unknown, so it cannot be checked against the allowed list'
+      );
+    }
+    const method = request.payment_method.toLowerCase();
+    if (!active.allowed_payment_methods.some((m) => m.toLowerCase() === method)) {
+      throw violation(
+        'allowed_payment_methods',
+        `Payment method "${request.payment_method}" is not allowed`
+      );
+    }
+  }
+
+  const counterpartyRule = COUNTERPARTY_RULES.find((rule) => active[rule] !== undefined);
+  if (counterpartyRule && !request.counterparty) {
+    throw violation(counterpartyRule, 'The counterparty is unknown, so it cannot be checked');
+  }
+  if (request.counterparty) {
+    const { username, trades_count, feedback_score } = request.counterparty;
+    if (
+      active.allowed_counterparties &&
+      !active.allowed_counterparties.some((u) => u.toLowerCase() === username?.toLowerCase())
+    ) {
+      throw violation('allowed_counterparties', `Counterparty "${username}" is not allowed`);
+    }
+    if (
+      active.min_counterparty_trades !== undefined &&
+      (trades_count ?? 0) < active.min_counterparty_trades
+    ) {
+      throw violation(
+        'min_counterparty_trades',
+        `Counterparty "${username}" has ${trades_count ?? 0} trades, fewer than the required ${active.min_counterparty_trades}`
+      );
+    }
+    if (
+      active.min_counterparty_feedback_score !== undefined &&
+      (feedback_score ?? 0) < active.min_counterparty_feedback_score
+    ) {
+      throw violation(
+        'min_counterparty_feedback_score',
+        `Counterparty "${username}" has a feedback score of ${feedback_score ?? 0}, below the required ${active.min_counterparty_feedback_score}`
+      );
+    }
+  }
+}
+
+// Check an action against the policy, throwing PolicyViolationError for the first rule it breaks
+export function checkPolicy(request: PolicyRequest): PolicyDecision {
+  if (!policy) return { autoApprove: false };
+
+  const currency = request.currency.toUpperCase();
+  const amount = Decimal.parse(request.amount);
+
+  const allowedCoins = policy.allowed_coins;
+  if (allowedCoins) {
+    const blocked = request.coins.find((c) => !allowedCoins.includes(c.toUpperCase()));
+    if (blocked) {
+      throw violation('allowed_coins', `${blocked.toUpperCase()} is not an allowed coin`);
+    }
+  }
+
+  if (request.action === 'start_trade') checkTradeRules(policy, request);
+
+  const transactionCap = policy.max_amount_per_transaction?.[currency];
+  if (transactionCap !== undefined && amount.gt(Decimal.parse(transactionCap))) {
+    throw violation(
+      'max_amount_per_transaction',
+      `${request.amount} ${currency} exceeds the per-transaction limit of ${transactionCap} ${currency}`
+    );
+  }
+
+  checkDailyLimit(currency, request.amount, request.idempotency_key);
+
+  const threshold = policy.auto_approve_below?.[currency];
+  return { autoApprove: threshold !== undefined && amount.lt(Decimal.parse(threshold)) };
+}
+
+// Count an action towards the daily limit before it executes. The limit is checked again and
+// the amount added in one step, so concurrent actions cannot all pass the same check.
+export function reserveSpend(
+  currency: string,
+  amount: DecimalString,
+  key?: string
+): SpendReservation {
+  const symbol = currency.toUpperCase();
+  checkDailyLimit(symbol, amount, key);
+
+  const reservedOn = today();
+  const reserved = Decimal.parse(amount);
+  const takenOver = heldFor(key, symbol);
+  if (key !== undefined) heldSpends.delete(key);
+  dailyUsage.set(symbol, usedToday(symbol).sub(takenOver).add(reserved));
+  persistUsage();
+
+  let settled = false;
+  return {
+    release() {
+      // Nothing to give back once the counters have been reset for a new day
+      if (settled || usageDay !== reservedOn) return;
+      settled = true;
+      const remaining = usedToday(symbol).sub(reserved);
+      dailyUsage.set(symbol, remaining.isNegative() ? Decimal.ZERO : remaining);
+      persistUsage();
+    },
+    hold() {
+      if (settled) return;
+      settled = true;
+      if (key !== undefined) heldSpends.set(key, { symbol, amount: reserved, day: reservedOn });
+    },
+  };
+}
+
+// Policy rules with today's usage (for display)
+export function getPolicyStatus() {
+  if (!policy) return { enabled: false };
+  const symbols = Object.keys(policy.max_amount_per_day ?? {});
+  return {
+    enabled: true,
+    rules: policy,
+    used_today: Object.fromEntries(symbols.map((s) => [s, usedToday(s).toString()])),
+  };
+}
+
+// Persist daily usage to a JSON file, loading today's usage if the file has any
+export function configurePolicyUsageStore(file: string | null): void {
+  usageFile = file;
+  usageDay = '';
+  dailyUsage.clear();
+  heldSpends.clear();
+  if (!file) return;
+
+  try {
+    const stored = JSON.parse(readFileSync(file, 'utf8')) as StoredUsage;
+    if (stored.day === today()) {
+      usageDay = stored.day;
+      for (const [symbol, used] of Object.entries(stored.used)) {
+        dailyUsage.set(symbol, Decimal.parse(used));
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+// Reset all state (for testing)
+export function resetPolicy(): void {
+  policy = null;
+  usageDay = '';
+  dailyUsage.clear();
+  heldSpends.clear();
+  usageFile = null;
+}
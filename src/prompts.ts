@@ -0,0 +1,112 @@
+import { z, type ZodRawShape } from 'zod';
+
+// A prompt exposed by the MCP server. Prompt arguments are always strings in MCP.
+export interface PromptDefinition<Shape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  description: string;
+  schema: Shape;
+  build: (args: z.objectOutputType<Shape, z.ZodTypeAny>) => string;
+}
+
+function definePrompt<Shape extends ZodRawShape>(
+  prompt: PromptDefinition<Shape>
+): PromptDefinition {
+  return prompt as unknown as PromptDefinition;
+}
+
+// Shared rules appended to every money-moving workflow
+const SAFETY_RULES = `Safety rules:
+- Money-moving tools return a confirmation_id first. Show the user the exact details from that response and only call the tool again with the confirmation_id after they explicitly approve.
+- The confirmation is bound to the parameters: if anything changes, start over and ask again.
+- Never call release_trade until the user confirms the payment has actually arrived in their account.
+- If a tool returns an error, stop and report it rather than retrying with different amounts.`;
+
+function numbered(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+}
+
+// Guided workflows built on the server's own tools
+export function createPromptRegistry(): PromptDefinition[] {
+  return [
+    definePrompt({
+      name: 'buy_crypto_p2p',
+      description: 'Step-by-step guide to buying cryptocurrency from a P2P offer',
+      schema: {
+        coin: z.string().describe('Cryptocurrency to buy (e.g., BTC, USDT)'),
+        fiat: z.string().describe('Fiat currency to pay with (e.g., USD, EUR)'),
+        amount: z.string().describe('Amount to spend, in the fiat currency'),
+        payment_method: z
+          .string()
+          .optional()
+          .describe('Preferred payment method slug (e.g., bank-transfer, paypal)'),
+      },
+      build: ({ coin, fiat, amount, payment_method }) => {
+        const coinSymbol = coin.toUpperCase();
+        const fiatCode = fiat.toUpperCase();
+        const paymentFilter = payment_method ? `, payment_method="${payment_method}"` : '';
+
+        return `Help me buy ${coinSymbol} with ${amount} ${fiatCode} on LocalCoinSwap.
+
+${numbered([
+  `Call search_offers with coin_currency="${coinSymbol}", fiat_currency="${fiatCode}", trading_type="buy"${paymentFilter}, min_amount="${amount}", ordering="price" to find sellers.${payment_method ? '' : ' If I have not said how I want to pay, call list_payment_methods and ask me.'}`,
+  `Discard offers whose limits do not cover ${amount} ${fiatCode}. For the best 3 remaining, call get_user_feedback on each trader and summarise price, limits, trade count and feedback score in a table.`,
+  'Ask me which offer to use. Call get_offer on it and point out its terms and payment window.',
+  `Call start_trade with the chosen offer_uuid and amount="${amount}", then follow the confirmation flow.`,
+  'Use get_trade_messages / send_trade_message to get the payment details from the seller. After I tell you I have paid, call mark_trade_paid (it also needs confirmation).',
+  'Track progress with get_trade until the seller releases the crypto. If the seller does not respond within the payment window, explain the open_dispute option before using it.',
+  'Once the trade is completed, offer to leave feedback with leave_feedback.',
+])}
+
+${SAFETY_RULES}`;
+      },
+    }),
+
+    definePrompt({
+      name: 'swap_with_best_rate',
+      description:
+        'Estimate a swap, check it against the minimum and execute it with slippage protection',
+      schema: {
+        from_currency: z.string().describe('Currency to swap from (e.g., ETH)'),
+        to_currency: z.string().describe('Currency to swap to (e.g., USDT)'),
+        amount: z.string().describe('Amount of from_currency to swap'),
+        max_slippage_percent: z
+          .string()
+          .optional()
+          .describe('Largest acceptable drop in the quoted amount, in percent (default 1)'),
+      },
+      build: ({ from_currency, to_currency, amount, max_slippage_percent }) => {
+        const from = from_currency.toUpperCase();
+        const to = to_currency.toUpperCase();
+        const slippage = max_slippage_percent || '1';
+
+        return `Help me swap ${amount} ${from} to ${to} at the best available rate.
+
+${numbered([
+  `Call get_min_swap_amount for ${from} -> ${to} and stop if ${amount} ${from} is below the minimum.`,
+  `Call estimate_swap with from_currency="${from}", to_currency="${to}", amount="${amount}" and show me the rate, the amount I will receive and any fees.`,
+  `Compare against a P2P alternative: call search_offers with coin_currency="${to}", trading_type="buy" and tell me if a P2P trade would clearly beat the swap.`,
+  `If I want to go ahead, call create_swap with from_currency="${from}", to_currency="${to}", from_amount="${amount}", max_slippage_percent=${slippage} and follow the confirmation flow. If it reports slippage_exceeded, show me the new quote and ask again instead of retrying.`,
+  'After the swap is created, show me the deposit address and memo (if any), then call wait_for_swap to follow it until it finishes.',
+])}
+
+${SAFETY_RULES}`;
+      },
+    }),
+
+    definePrompt({
+      name: 'review_open_trades',
+      description: 'Review my open trades and swaps and suggest the next action for each',
+      schema: {},
+      build: () => `Review my open activity on LocalCoinSwap and tell me what needs attention.
+
+${numbered([
+  'Call get_my_trades and get_my_swaps.',
+  'For every trade that is not completed or cancelled, call get_trade and get_trade_messages and work out whose turn it is: waiting for my payment, waiting for the counterparty, ready to release, or disputed (use get_dispute).',
+  'Summarise everything in a table with the trade/swap UUID, counterparty, amount, status and the next action, with the most urgent items (payment windows closing, unanswered messages, disputes) first.',
+  'Do not take any action yet: ask me which items to act on.',
+])}
+
+${SAFETY_RULES}`,
+    }),
+  ];
+}
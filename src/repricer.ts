@@ -0,0 +1,228 @@
+import type { LocalCoinSwapClient } from './api-client.js';
+import { Decimal } from './decimal.js';
+import type { DecimalString, Offer } from './types.js';
+
+// Repricer settings (margins are percentages, as in Offer.margin)
+export interface RepricerSettings {
+  enabled: boolean;
+  dryRun: boolean;
+  intervalMs: number;
+  // Position to hold in the competing offer list (1 = top)
+  targetPosition: number;
+  minMargin: DecimalString;
+  maxMargin: DecimalString;
+  // How far to undercut/overbid the competitor we are positioning against
+  step: DecimalString;
+  coinCurrency?: string;
+  fiatCurrency?: string;
+}
+
+export interface RepricerChange {
+  offer_uuid: string;
+  trading_type: string;
+  coin_currency: string;
+  fiat_currency: string;
+  payment_method?: string;
+  competitors: number;
+  current_margin?: string;
+  new_margin: string;
+  applied: boolean;
+  error?: string;
+}
+
+export interface RepricerRunReport {
+  started_at: string;
+  finished_at: string;
+  dry_run: boolean;
+  offers_checked: number;
+  changes: RepricerChange[];
+  errors: string[];
+}
+
+// Repricer state
+let settings: RepricerSettings | null = null;
+let repricerInterval: ReturnType<typeof setInterval> | null = null;
+let lastReport: RepricerRunReport | null = null;
+let running = false;
+
+// Margins are set with two decimal places
+const MARGIN_PLACES = 2;
+
+// Compute the margin that places an offer at the target position among its competitors.
+// Buyers prefer the lowest margin on sell offers and sellers the highest margin on buy offers.
+export function computeTargetMargin(
+  offer: Offer,
+  competitors: Offer[],
+  repricerSettings: RepricerSettings
+): Decimal {
+  const isSell = offer.trading_type === 'sell';
+  const minMargin = Decimal.parse(repricerSettings.minMargin);
+  const maxMargin = Decimal.parse(repricerSettings.maxMargin);
+  const ranked = competitors
+    .flatMap((c) => (c.margin !== undefined && Decimal.isDecimal(c.margin) ? [c.margin] : []))
+    .map((margin) => Decimal.parse(margin))
+    .sort((a, b) => (isSell ? a.compare(b) : b.compare(a)));
+
+  let target: Decimal;
+  if (ranked.length < repricerSettings.targetPosition) {
+    // Not enough competition to hold the position against: take the most favourable bound
+    target = isSell ? maxMargin : minMargin;
+  } else {
+    const reference = ranked[repricerSettings.targetPosition - 1];
+    const step = Decimal.parse(repricerSettings.step);
+    target = isSell ? reference.sub(step) : reference.add(step);
+  }
+
+  if (target.gt(maxMargin)) target = maxMargin;
+  if (target.lt(minMargin)) target = minMargin;
+  return target.round(MARGIN_PLACES);
+}
+
+// Run one repricing pass over my offers
+export async function runRepricerPass(
+  client: LocalCoinSwapClient,
+  repricerSettings: RepricerSettings
+): Promise<RepricerRunReport> {
+  const startedAt = new Date().toISOString();
+  const changes: RepricerChange[] = [];
+  const errors: string[] = [];
+
+  const myOffers: Offer[] = [];
+  for await (const offer of client.paginate(() => client.getMyOffers())) {
+    myOffers.push(offer);
+  }
+  const myOfferIds = new Set(myOffers.map((o) => o.uuid));
+  const offers = myOffers.filter(
+    (o) =>
+      o.is_active &&
+      (!repricerSettings.coinCurrency || o.coin_currency === repricerSettings.coinCurrency) &&
+      (!repricerSettings.fiatCurrency || o.fiat_currency === repricerSettings.fiatCurrency)
+  );
+
+  for (const offer of offers) {
+    try {
+      // trading_type is the searcher's side: searching to buy finds the offers that sell
+      const search = () =>
+        client.searchOffers({
+          coin_currency: offer.coin_currency,
+          fiat_currency: offer.fiat_currency,
+          trading_type: offer.trading_type === 'sell' ? 'buy' : 'sell',
+          payment_method: offer.payment_method?.slug,
+        });
+      const competitors: Offer[] = [];
+      for await (const c of client.paginate(search)) {
+        if (!myOfferIds.has(c.uuid) && c.trading_type === offer.trading_type) competitors.push(c);
+      }
+
+      const target = computeTargetMargin(offer, competitors, repricerSettings);
+      const newMargin = target.toFixed(MARGIN_PLACES);
+      const currentMargin = offer.margin;
+      if (
+        currentMargin !== undefined &&
+        Decimal.isDecimal(currentMargin) &&
+        Decimal.parse(currentMargin).eq(target)
+      ) {
+        continue;
+      }
+
+      const change: RepricerChange = {
+        offer_uuid: offer.uuid,
+        trading_type: offer.trading_type,
+        coin_currency: offer.coin_currency,
+        fiat_currency: offer.fiat_currency,
+        payment_method: offer.payment_method?.slug,
+        competitors: competitors.length,
+        current_margin: currentMargin,
+        new_margin: newMargin,
+        applied: false,
+      };
+
+      if (!repricerSettings.dryRun) {
+        try {
+          await client.updateOffer(offer.uuid, { margin: newMargin });
+          change.applied = true;
+        } catch (error) {
+          change.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      changes.push(change);
+    } catch (error) {
+      errors.push(`${offer.uuid}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    dry_run: repricerSettings.dryRun,
+    offers_checked: offers.length,
+    changes,
+    errors,
+  };
+}
+
+// Run a pass with the current settings, skipping if one is already in progress
+export async function runRepricerNow(
+  client: LocalCoinSwapClient
+): Promise<RepricerRunReport | null> {
+  if (!settings || running) return null;
+
+  running = true;
+  try {
+    lastReport = await runRepricerPass(client, settings);
+  } catch (error) {
+    const now = new Date().toISOString();
+    lastReport = {
+      started_at: now,
+      finished_at: now,
+      dry_run: settings.dryRun,
+      offers_checked: 0,
+      changes: [],
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  } finally {
+    running = false;
+  }
+  return lastReport;
+}
+
+// Apply new settings and (re)start or stop the periodic pass
+export function configureRepricer(
+  client: LocalCoinSwapClient,
+  newSettings: RepricerSettings
+): void {
+  stopRepricer();
+  settings = newSettings;
+
+  if (newSettings.enabled) {
+    repricerInterval = setInterval(() => {
+      void runRepricerNow(client);
+    }, newSettings.intervalMs);
+  }
+}
+
+export function stopRepricer(): void {
+  if (repricerInterval) {
+    clearInterval(repricerInterval);
+    repricerInterval = null;
+  }
+}
+
+export function getRepricerStatus() {
+  return {
+    configured: settings !== null,
+    running: repricerInterval !== null,
+    pass_in_progress: running,
+    settings,
+    last_run: lastReport,
+  };
+}
+
+// Reset all state (for testing)
+export function resetRepricer(): void {
+  stopRepricer();
+  settings = null;
+  lastReport = null;
+  running = false;
+}
@@ -0,0 +1,99 @@
+import { LocalCoinSwapClient } from './api-client.js';
+import { validateCurrencySymbol } from './handlers.js';
+
+// A fixed-URI resource whose contents are the JSON returned by read()
+export interface ResourceDefinition {
+  name: string;
+  uri: string;
+  description: string;
+  read: () => Promise<unknown>;
+}
+
+// A resource addressed by a URI template (RFC 6570), e.g. lcs://currency/{symbol}
+export interface ResourceTemplateDefinition {
+  name: string;
+  uriTemplate: string;
+  description: string;
+  // Enumerates concrete resources matching the template for resources/list
+  list?: () => Promise<Array<{ uri: string; name: string }>>;
+  read: (variables: Record<string, string>) => Promise<unknown>;
+}
+
+export interface ResourceRegistry {
+  resources: ResourceDefinition[];
+  templates: ResourceTemplateDefinition[];
+}
+
+// Reference data, trades and swaps published as MCP resources so clients can attach them as
+// context instead of calling the equivalent tools
+export function createResourceRegistry(client: LocalCoinSwapClient): ResourceRegistry {
+  return {
+    resources: [
+      {
+        name: 'crypto-currencies',
+        uri: 'lcs://currencies/crypto',
+        description: 'Cryptocurrencies supported on LocalCoinSwap, including network information',
+        read: () => client.getCryptoCurrencies(),
+      },
+      {
+        name: 'fiat-currencies',
+        uri: 'lcs://currencies/fiat',
+        description: 'Fiat currencies supported on LocalCoinSwap',
+        read: () => client.getFiatCurrencies(),
+      },
+      {
+        name: 'active-cryptos',
+        uri: 'lcs://currencies/active',
+        description: 'Actively traded cryptocurrencies on LocalCoinSwap',
+        read: () => client.getActiveCryptos(),
+      },
+      {
+        name: 'payment-methods',
+        uri: 'lcs://payment-methods',
+        description: 'Payment methods available for P2P trades',
+        read: () => client.getPaymentMethods(),
+      },
+      {
+        name: 'trade-types',
+        uri: 'lcs://trade-types',
+        description: 'Trade types available on LocalCoinSwap',
+        read: () => client.getTradeTypes(),
+      },
+    ],
+    templates: [
+      {
+        name: 'currency',
+        uriTemplate: 'lcs://currency/{symbol}',
+        description: 'Detailed information about a single currency (e.g., lcs://currency/BTC)',
+        list: async () => {
+          const currencies = await client.getCryptoCurrencies();
+          return currencies.map((currency) => ({
+            uri: `lcs://currency/${currency.symbol}`,
+            name: `${currency.symbol} (${currency.title})`,
+          }));
+        },
+        read: async ({ symbol }) => {
+          const symbolError = validateCurrencySymbol(symbol);
+          if (symbolError) {
+            throw new Error(symbolError);
+          }
+          return client.getCurrency(symbol.toUpperCase());
+        },
+      },
+      {
+        name: 'trade',
+        uriTemplate: 'lcs://trade/{uuid}',
+        description:
+          'A P2P trade by UUID. Supports resources/subscribe: an update notification is sent when its status changes.',
+        read: ({ uuid }) => client.getTrade(uuid),
+      },
+      {
+        name: 'swap',
+        uriTemplate: 'lcs://swap/{uuid}',
+        description:
+          'A swap by UUID. Supports resources/subscribe: an update notification is sent when its status changes.',
+        read: ({ uuid }) => client.getSwap(uuid),
+      },
+    ],
+  };
+}
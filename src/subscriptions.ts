@@ -0,0 +1,160 @@
+import { LocalCoinSwapClient } from './api-client.js';
+
+export const DEFAULT_RESOURCE_POLL_INTERVAL_MS = 15000;
+
+const TRADE_URI_REGEX = /^lcs:\/\/trade\/([^/]+)$/;
+const SWAP_URI_REGEX = /^lcs:\/\/swap\/([^/]+)$/;
+
+export interface ResourceWatcher {
+  // Returns false if the URI is not a subscribable resource
+  subscribe(uri: string): Promise<boolean>;
+  unsubscribe(uri: string): void;
+  // Check every subscribed resource once, notifying on status changes
+  poll(): Promise<void>;
+  subscriptions(): string[];
+  stop(): void;
+}
+
+interface WatchedResource {
+  kind: 'trade' | 'swap';
+  uuid: string;
+}
+
+function parseWatchedUri(uri: string): WatchedResource | null {
+  const trade = TRADE_URI_REGEX.exec(uri);
+  if (trade) return { kind: 'trade', uuid: trade[1] };
+  const swap = SWAP_URI_REGEX.exec(uri);
+  if (swap) return { kind: 'swap', uuid: swap[1] };
+  return null;
+}
+
+export function isSubscribableUri(uri: string): boolean {
+  return parseWatchedUri(uri) !== null;
+}
+
+// Watch subscribed trade and swap resources by polling the API in the background and call
+// notify(uri) whenever a resource's status changes. Polling only runs while subscriptions exist.
+export function createResourceWatcher(
+  client: LocalCoinSwapClient,
+  notify: (uri: string) => void | Promise<void>,
+  intervalMs: number = DEFAULT_RESOURCE_POLL_INTERVAL_MS
+): ResourceWatcher {
+  // Last seen status per subscribed URI (undefined until the first successful fetch)
+  const statuses = new Map<string, string | undefined>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+
+  async function fetchStatus({ kind, uuid }: WatchedResource): Promise<string> {
+    const resource = kind === 'trade' ? await client.getTrade(uuid) : await client.getSwap(uuid);
+    return resource.status;
+  }
+
+  // Swap statuses come from the active swap list in one call; swaps that have left it
+  // (finished, failed, expired...) are fetched individually
+  async function fetchSwapStatuses(uuids: string[]): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+    if (uuids.length === 0) return result;
+
+    const active = await client.getActiveSwaps();
+    for (const swap of active.results) {
+      result.set(swap.uuid, swap.status);
+    }
+    for (const uuid of uuids) {
+      if (!result.has(uuid)) {
+        result.set(uuid, (await client.getSwap(uuid)).status);
+      }
+    }
+    return result;
+  }
+
+  async function record(uri: string, status: string): Promise<void> {
+    if (!statuses.has(uri)) return; // unsubscribed while the fetch was in flight
+
+    const previous = statuses.get(uri);
+    statuses.set(uri, status);
+    if (previous !== undefined && previous !== status) {
+      await notify(uri);
+    }
+  }
+
+  async function poll(): Promise<void> {
+    if (polling) return;
+    polling = true;
+    try {
+      const swapUris = new Map<string, string>();
+      for (const uri of statuses.keys()) {
+        const resource = parseWatchedUri(uri);
+        if (resource?.kind === 'swap') {
+          swapUris.set(resource.uuid, uri);
+        } else if (resource) {
+          try {
+            await record(uri, await fetchStatus(resource));
+          } catch (error) {
+            console.error(`Resource poll failed for ${uri}:`, error);
+          }
+        }
+      }
+
+      if (swapUris.size > 0) {
+        try {
+          const swapStatuses = await fetchSwapStatuses([...swapUris.keys()]);
+          for (const [uuid, uri] of swapUris) {
+            const status = swapStatuses.get(uuid);
+            if (status !== undefined) await record(uri, status);
+          }
+        } catch (error) {
+          console.error('Resource poll failed for swaps:', error);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  }
+
+  function stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  return {
+    async subscribe(uri) {
+      const resource = parseWatchedUri(uri);
+      if (!resource) return false;
+      if (statuses.has(uri)) return true;
+
+      statuses.set(uri, undefined);
+      // Record a baseline so a change before the first poll is still reported
+      try {
+        const status = await fetchStatus(resource);
+        if (statuses.has(uri) && statuses.get(uri) === undefined) statuses.set(uri, status);
+      } catch (error) {
+        console.error(`Resource baseline failed for ${uri}:`, error);
+      }
+
+      if (!timer && statuses.has(uri)) {
+        timer = setInterval(() => {
+          void poll();
+        }, intervalMs);
+      }
+      return true;
+    },
+
+    unsubscribe(uri) {
+      statuses.delete(uri);
+      if (statuses.size === 0) stop();
+    },
+
+    poll,
+
+    subscriptions() {
+      return [...statuses.keys()];
+    },
+
+    stop() {
+      stop();
+      statuses.clear();
+    },
+  };
+}
@@ -0,0 +1,734 @@
+import { z, type ZodRawShape } from 'zod';
+import { LocalCoinSwapClient } from './api-client.js';
+import {
+  handleListCurrencies,
+  handleGetCurrency,
+  handleSearchOffers,
+  handleGetOffer,
+  handleGetFeaturedOffers,
+  handleGetMyOffers,
+  handleListPaymentMethods,
+  handleListTradeTypes,
+  handleCreateOffer,
+  handleUpdateOffer,
+  handleDeleteOffer,
+  handleSetOffersActive,
+  handleConfigureRepricer,
+  handleGetRepricerStatus,
+  handleEstimateSwap,
+  handleGetMinSwapAmount,
+  handleGetMySwaps,
+  handleGetSwap,
+  handleWaitForSwap,
+  handleCreateSwap,
+  handleStartTrade,
+  handleGetMyTrades,
+  handleGetTrade,
+  handleMarkTradePaid,
+  handleReleaseTrade,
+  handleCancelTrade,
+  handleGetTradeMessages,
+  handleSendTradeMessage,
+  handleOpenDispute,
+  handleGetDispute,
+  handleAddDisputeEvidence,
+  handleLeaveFeedback,
+  handleGetUserFeedback,
+  handleCacheStats,
+  handleGetPolicy,
+  handleGetAuditLog,
+  handlePaperPortfolio,
+  type ToolResponse,
+} from './handlers.js';
+import { MAX_AUDIT_QUERY_LIMIT } from './audit.js';
+import { MAX_PAGINATION_LIMIT } from './pagination.js';
+import type { ServerConfig } from './types.js';
+
+// A tool exposed by the MCP server: its zod input schema and the handler that implements it
+export interface ToolDefinition<Shape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  description: string;
+  schema: Shape;
+  handler: (params: z.objectOutputType<Shape, z.ZodTypeAny>) => Promise<ToolResponse>;
+}
+
+// Keeps the handler's params typed against its own schema inside the registry array
+function defineTool<Shape extends ZodRawShape>(tool: ToolDefinition<Shape>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+// limit/cursor arguments shared by the list tools
+const listSchema = {
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGINATION_LIMIT)
+    .optional()
+    .describe(
+      `Maximum number of items to return, fetching further pages as needed (default: one page, max ${MAX_PAGINATION_LIMIT})`
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe('next_cursor from a previous call, to continue where that call stopped'),
+};
+
+// Every tool the server registers, mapped onto the handlers in handlers.ts
+export function createToolRegistry(
+  config: ServerConfig,
+  client: LocalCoinSwapClient
+): ToolDefinition[] {
+  return [
+    // ============================================================================
+    // CURRENCY TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'list_currencies',
+      description:
+        'List available currencies on LocalCoinSwap. Use type="crypto" for cryptocurrencies (default), type="fiat" for fiat currencies, or type="active" for actively traded cryptos. Includes network information (e.g., USDT on TRC20, ERC20).',
+      schema: {
+        type: z.enum(['crypto', 'fiat', 'active']).optional().describe('Type of currencies to list: crypto (default), fiat, or active'),
+      },
+      handler: (params) => handleListCurrencies(client, params),
+    }),
+
+    defineTool({
+      name: 'get_currency',
+      description: 'Get detailed information about a specific currency',
+      schema: {
+        symbol: z.string().describe('Currency symbol (e.g., BTC, USDT, ETH)'),
+      },
+      handler: (params) => handleGetCurrency(client, params),
+    }),
+
+    // ============================================================================
+    // OFFER SEARCH TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'search_offers',
+      description: 'Search P2P trading offers on LocalCoinSwap with filtering and sorting options',
+      schema: {
+        coin_currency: z
+          .string()
+          .optional()
+          .describe('Cryptocurrency symbol (e.g., BTC, ETH, USDT)'),
+        fiat_currency: z.string().optional().describe('Fiat currency code (e.g., USD, EUR, GBP)'),
+        trading_type: z
+          .enum(['buy', 'sell'])
+          .optional()
+          .describe('Type of trade: buy (you buy crypto) or sell (you sell crypto)'),
+        payment_method: z
+          .string()
+          .optional()
+          .describe('Payment method slug (e.g., bank-transfer, paypal)'),
+        country_code: z.string().optional().describe('Country code (e.g., US, GB, DE)'),
+        min_amount: z
+          .string()
+          .optional()
+          .describe('Minimum trade amount in fiat, as a decimal string (e.g., "100.50")'),
+        max_amount: z
+          .string()
+          .optional()
+          .describe('Maximum trade amount in fiat, as a decimal string (e.g., "1000")'),
+        ordering: z
+          .string()
+          .optional()
+          .describe('Sort order (e.g., price, -price, created_at, -created_at)'),
+        page: z.number().optional().describe('Page number for pagination'),
+        page_size: z.number().optional().describe('Number of results per page (default 20)'),
+        ...listSchema,
+      },
+      handler: (params) => handleSearchOffers(client, params),
+    }),
+
+    defineTool({
+      name: 'get_offer',
+      description: 'Get detailed information about a specific offer by its UUID',
+      schema: {
+        uuid: z.string().describe('The UUID of the offer'),
+      },
+      handler: (params) => handleGetOffer(client, params),
+    }),
+
+    defineTool({
+      name: 'get_featured_offers',
+      description: 'Get the list of featured offers on LocalCoinSwap',
+      schema: {},
+      handler: () => handleGetFeaturedOffers(client),
+    }),
+
+    defineTool({
+      name: 'get_my_offers',
+      description: 'Get your own trading offers (requires authentication)',
+      schema: listSchema,
+      handler: (params) => handleGetMyOffers(client, config, params),
+    }),
+
+    defineTool({
+      name: 'list_payment_methods',
+      description: 'List all available payment methods on LocalCoinSwap',
+      schema: {},
+      handler: () => handleListPaymentMethods(client),
+    }),
+
+    defineTool({
+      name: 'list_trade_types',
+      description: 'List all available trade types on LocalCoinSwap',
+      schema: {},
+      handler: () => handleListTradeTypes(client),
+    }),
+
+    // ============================================================================
+    // OFFER MANAGEMENT TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'create_offer',
+      description:
+        'Publish a new P2P trading offer (requires authentication). By default, requires explicit confirmation.',
+      schema: {
+        trading_type: z
+          .enum(['buy', 'sell'])
+          .describe('Type of offer: buy (you buy crypto) or sell (you sell crypto)'),
+        coin_currency: z.string().describe('Cryptocurrency symbol (e.g., BTC, ETH, USDT)'),
+        fiat_currency: z.string().describe('Fiat currency code (e.g., USD, EUR, GBP)'),
+        payment_method: z.string().describe('Payment method slug (e.g., bank-transfer, paypal)'),
+        min_trade_size: z.string().describe('Minimum trade size in fiat'),
+        max_trade_size: z.string().describe('Maximum trade size in fiat'),
+        margin: z
+          .string()
+          .describe('Margin in percent above (positive) or below (negative) the market price'),
+        headline: z.string().optional().describe('Short headline shown in search results'),
+        trading_conditions: z
+          .string()
+          .optional()
+          .describe('Terms the counterparty must accept before trading'),
+        country_code: z.string().optional().describe('Country code (e.g., US, GB, DE)'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and publish the offer. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous create_offer call'),
+      },
+      handler: (params) => handleCreateOffer(client, config, params),
+    }),
+
+    defineTool({
+      name: 'update_offer',
+      description:
+        'Edit one of your P2P offers; only the provided fields are changed. By default, requires explicit confirmation.',
+      schema: {
+        uuid: z.string().describe('The UUID of the offer'),
+        payment_method: z.string().optional().describe('New payment method slug'),
+        min_trade_size: z.string().optional().describe('New minimum trade size in fiat'),
+        max_trade_size: z.string().optional().describe('New maximum trade size in fiat'),
+        margin: z.string().optional().describe('New margin in percent'),
+        headline: z.string().optional().describe('New headline'),
+        trading_conditions: z.string().optional().describe('New trading conditions'),
+        is_active: z.boolean().optional().describe('Enable or disable the offer'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and apply the changes. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous update_offer call'),
+      },
+      handler: (params) => handleUpdateOffer(client, config, params),
+    }),
+
+    defineTool({
+      name: 'delete_offer',
+      description: 'Delete one of your P2P offers. By default, requires explicit confirmation.',
+      schema: {
+        uuid: z.string().describe('The UUID of the offer'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and delete the offer. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous delete_offer call'),
+      },
+      handler: (params) => handleDeleteOffer(client, config, params),
+    }),
+
+    defineTool({
+      name: 'set_offers_active',
+      description:
+        'Pause or resume many of your offers at once, filtered by coin, fiat currency and/or payment method (or all=true). Reports success or failure per offer. Pausing runs immediately; resuming requires explicit confirmation by default.',
+      schema: {
+        active: z.boolean().describe('false to pause matching offers, true to resume them'),
+        coin_currency: z.string().optional().describe('Only offers for this cryptocurrency'),
+        fiat_currency: z.string().optional().describe('Only offers for this fiat currency'),
+        payment_method: z.string().optional().describe('Only offers with this payment method slug'),
+        all: z
+          .boolean()
+          .optional()
+          .describe('Set to true to change every offer when no other filter is given'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm resuming offers. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous set_offers_active call'),
+      },
+      handler: (params) => handleSetOffersActive(client, config, params),
+    }),
+
+    // ============================================================================
+    // REPRICER TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'configure_repricer',
+      description:
+        'Configure automatic margin repricing of your active offers. On each interval, every offer is compared with competing offers for the same coin, fiat and payment method, and its margin is adjusted to hold target_position within [min_margin, max_margin]. Use dry_run=true to only report the changes it would make. Enabling live repricing requires explicit confirmation by default.',
+      schema: {
+        enabled: z.boolean().describe('Start (true) or stop (false) the repricer'),
+        min_margin: z.string().describe('Lowest margin (percent) the repricer may set'),
+        max_margin: z.string().describe('Highest margin (percent) the repricer may set'),
+        target_position: z
+          .number()
+          .optional()
+          .describe('Position to hold among competing offers, 1 = top (default 1)'),
+        step: z
+          .string()
+          .optional()
+          .describe('Margin difference (percent) to keep from the competitor ahead (default 0.1)'),
+        interval_seconds: z
+          .number()
+          .optional()
+          .describe('Seconds between repricing passes (default 300, minimum 30)'),
+        dry_run: z
+          .boolean()
+          .optional()
+          .describe('Only report the margin changes that would be made, without applying them'),
+        coin_currency: z
+          .string()
+          .optional()
+          .describe('Only reprice offers for this cryptocurrency'),
+        fiat_currency: z.string().optional().describe('Only reprice offers for this fiat currency'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm enabling live repricing. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous configure_repricer call'),
+      },
+      handler: (params) => handleConfigureRepricer(client, config, params),
+    }),
+
+    defineTool({
+      name: 'get_repricer_status',
+      description:
+        'Get the repricer settings and the report of its last pass (changes made or, in dry-run mode, proposed)',
+      schema: {},
+      handler: () => handleGetRepricerStatus(),
+    }),
+
+    // ============================================================================
+    // SWAP TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'estimate_swap',
+      description: 'Get an estimate for swapping one cryptocurrency to another',
+      schema: {
+        from_currency: z.string().describe('Source currency symbol (e.g., BTC, ETH)'),
+        to_currency: z.string().describe('Target currency symbol (e.g., USDT, BTC)'),
+        amount: z.string().describe('Amount to swap (as string to preserve precision)'),
+      },
+      handler: (params) => handleEstimateSwap(client, params),
+    }),
+
+    defineTool({
+      name: 'get_min_swap_amount',
+      description: 'Get the minimum amount required for a swap between two currencies',
+      schema: {
+        from_currency: z.string().describe('Source currency symbol (e.g., BTC, ETH)'),
+        to_currency: z.string().describe('Target currency symbol (e.g., USDT, BTC)'),
+      },
+      handler: (params) => handleGetMinSwapAmount(client, params),
+    }),
+
+    defineTool({
+      name: 'get_my_swaps',
+      description: 'Get your swap history (active and/or past swaps)',
+      schema: {
+        status: z
+          .enum(['active', 'past', 'all'])
+          .optional()
+          .describe('Filter by swap status (default: all)'),
+        ...listSchema,
+      },
+      handler: (params) => handleGetMySwaps(client, config, params),
+    }),
+
+    defineTool({
+      name: 'get_swap',
+      description:
+        'Get the current status of one of your swaps, including its deposit address and transaction hash',
+      schema: {
+        uuid: z.string().describe('The UUID of the swap'),
+      },
+      handler: (params) => handleGetSwap(client, config, params),
+    }),
+
+    defineTool({
+      name: 'wait_for_swap',
+      description:
+        'Poll a swap until it reaches a terminal status (completed, failed, cancelled, expired, refunded) or the timeout elapses, then return the final status and transaction hash',
+      schema: {
+        uuid: z.string().describe('The UUID of the swap'),
+        timeout_seconds: z
+          .number()
+          .optional()
+          .describe(
+            'Maximum time to wait in seconds (default 45, max 900). Waits over 60 seconds need a longer request timeout in the MCP client; otherwise call again after a timeout.'
+          ),
+        poll_interval_seconds: z
+          .number()
+          .optional()
+          .describe('Seconds between status checks (default 10, minimum 2)'),
+      },
+      handler: (params) => handleWaitForSwap(client, config, params),
+    }),
+
+    defineTool({
+      name: 'create_swap',
+      description:
+        'Create a new cryptocurrency swap. IMPORTANT: This will execute a real swap if confirmed. By default, requires explicit confirmation.',
+      schema: {
+        from_currency: z.string().describe('Source currency symbol (e.g., BTC, ETH)'),
+        to_currency: z.string().describe('Target currency symbol (e.g., USDT, BTC)'),
+        from_amount: z.string().describe('Amount to swap from (as string to preserve precision)'),
+        max_slippage_percent: z
+          .number()
+          .optional()
+          .describe(
+            'When executing with a confirmation_id, re-quote and refuse if the amount received is worse than the confirmed quote by more than this percentage. Requires the confirmation flow: rejected with confirm=true, and never auto-approved by the spending policy'
+          ),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and execute the swap. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous create_swap call to execute the swap'),
+      },
+      handler: (params) => handleCreateSwap(client, config, params),
+    }),
+
+    // ============================================================================
+    // TRADE TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'start_trade',
+      description:
+        'Start a P2P trade on an existing offer. IMPORTANT: This will initiate a real trade. By default, requires explicit confirmation.',
+      schema: {
+        offer_uuid: z.string().describe('UUID of the offer to trade on'),
+        amount: z.string().describe('Amount in fiat currency to trade'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and start the trade. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous start_trade call to execute the trade'),
+      },
+      handler: (params) => handleStartTrade(client, config, params),
+    }),
+
+    defineTool({
+      name: 'get_my_trades',
+      description: 'Get your trade history',
+      schema: listSchema,
+      handler: (params) => handleGetMyTrades(client, config, params),
+    }),
+
+    defineTool({
+      name: 'get_trade',
+      description: 'Get details of a specific trade by UUID',
+      schema: {
+        uuid: z.string().describe('The UUID of the trade'),
+      },
+      handler: (params) => handleGetTrade(client, config, params),
+    }),
+
+    // ============================================================================
+    // TRADE LIFECYCLE TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'mark_trade_paid',
+      description:
+        'Mark a P2P trade as paid after you have sent the fiat payment. IMPORTANT: Only call this once payment has actually been sent. By default, requires explicit confirmation.',
+      schema: {
+        uuid: z.string().describe('The UUID of the trade'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and mark the trade as paid. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous mark_trade_paid call'),
+      },
+      handler: (params) => handleMarkTradePaid(client, config, params),
+    }),
+
+    defineTool({
+      name: 'release_trade',
+      description:
+        'Release escrowed crypto to the buyer of a P2P trade. IMPORTANT: This is irreversible; only release after the fiat payment has been received. By default, requires explicit confirmation.',
+      schema: {
+        uuid: z.string().describe('The UUID of the trade'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and release the escrow. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous release_trade call'),
+      },
+      handler: (params) => handleReleaseTrade(client, config, params),
+    }),
+
+    defineTool({
+      name: 'cancel_trade',
+      description: 'Cancel an open P2P trade. By default, requires explicit confirmation.',
+      schema: {
+        uuid: z.string().describe('The UUID of the trade'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and cancel the trade. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous cancel_trade call'),
+      },
+      handler: (params) => handleCancelTrade(client, config, params),
+    }),
+
+    // ============================================================================
+    // TRADE CHAT TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'get_trade_messages',
+      description:
+        'Read the chat messages of a P2P trade, including attachment metadata (filename, type, size, URL)',
+      schema: {
+        uuid: z.string().describe('The UUID of the trade'),
+      },
+      handler: (params) => handleGetTradeMessages(client, config, params),
+    }),
+
+    defineTool({
+      name: 'send_trade_message',
+      description:
+        'Send a chat message to the counterparty of a P2P trade (e.g., payment instructions or payment reference)',
+      schema: {
+        uuid: z.string().describe('The UUID of the trade'),
+        message: z.string().describe('Message text to send (max 2000 characters)'),
+      },
+      handler: (params) => handleSendTradeMessage(client, config, params),
+    }),
+
+    // ============================================================================
+    // DISPUTE TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'open_dispute',
+      description:
+        'Open a dispute on a P2P trade when the counterparty stops responding or does not fulfil the trade. Only allowed while funds are in escrow (trade status active or paid). By default, requires explicit confirmation.',
+      schema: {
+        uuid: z.string().describe('The UUID of the trade'),
+        reason: z
+          .string()
+          .describe('Why the dispute is being opened (required, max 5000 characters)'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and open the dispute. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous open_dispute call'),
+      },
+      handler: (params) => handleOpenDispute(client, config, params),
+    }),
+
+    defineTool({
+      name: 'get_dispute',
+      description: 'Get the status, reason and submitted evidence of the dispute on a trade',
+      schema: {
+        uuid: z.string().describe('The UUID of the disputed trade'),
+      },
+      handler: (params) => handleGetDispute(client, config, params),
+    }),
+
+    defineTool({
+      name: 'add_dispute_evidence',
+      description:
+        'Attach evidence text (e.g., payment reference, timeline of events) to a disputed trade. By default, requires explicit confirmation.',
+      schema: {
+        uuid: z.string().describe('The UUID of the disputed trade'),
+        text: z.string().describe('Evidence text to submit (max 5000 characters)'),
+        confirm: z
+          .boolean()
+          .optional()
+          .describe(
+            'Set to true to confirm and submit the evidence. If not set, returns a confirmation ID.'
+          ),
+        confirmation_id: z
+          .string()
+          .optional()
+          .describe('Confirmation ID from a previous add_dispute_evidence call'),
+      },
+      handler: (params) => handleAddDisputeEvidence(client, config, params),
+    }),
+
+    // ============================================================================
+    // FEEDBACK TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'leave_feedback',
+      description:
+        'Leave feedback (positive, neutral or negative) for the counterparty of a completed P2P trade',
+      schema: {
+        uuid: z.string().describe('The UUID of the completed trade'),
+        rating: z.enum(['positive', 'neutral', 'negative']).describe('Feedback rating'),
+        comment: z.string().describe('Feedback comment (max 500 characters)'),
+      },
+      handler: (params) => handleLeaveFeedback(client, config, params),
+    }),
+
+    defineTool({
+      name: 'get_user_feedback',
+      description:
+        'List feedback received by a LocalCoinSwap user, together with their trade count and feedback score',
+      schema: {
+        username: z.string().describe('Username of the trader'),
+      },
+      handler: (params) => handleGetUserFeedback(client, params),
+    }),
+
+    // ============================================================================
+    // CACHE TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'cache_stats',
+      description:
+        'Show response cache statistics (entries, hits, misses). Only public reference data such as currencies, payment methods and trade types is cached.',
+      schema: {
+        clear: z
+          .boolean()
+          .optional()
+          .describe('Drop all cached responses before reporting, forcing fresh data'),
+      },
+      handler: (params) => handleCacheStats(client, params),
+    }),
+
+    // ============================================================================
+    // POLICY TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'get_policy',
+      description:
+        'Show the spending policy that create_swap and start_trade are checked against (limits, allowlists, counterparty minimums, auto-approve thresholds) and the amounts used today',
+      schema: {},
+      handler: () => handleGetPolicy(),
+    }),
+
+    // ============================================================================
+    // AUDIT TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'get_audit_log',
+      description:
+        'Read the audit log of tool calls (parameters with secrets redacted, outcome, confirmation IDs issued and consumed, swap/trade UUIDs) and check that its hash chain is intact',
+      schema: {
+        since: z.string().optional().describe('Only entries at or after this ISO 8601 timestamp'),
+        until: z.string().optional().describe('Only entries at or before this ISO 8601 timestamp'),
+        tool: z
+          .string()
+          .optional()
+          .describe('Only calls to this tool (e.g., create_swap, start_trade)'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_AUDIT_QUERY_LIMIT)
+          .optional()
+          .describe('Maximum number of entries to return, most recent last (default 100)'),
+      },
+      handler: (params) => handleGetAuditLog(params),
+    }),
+
+    // ============================================================================
+    // PAPER TRADING TOOLS
+    // ============================================================================
+
+    defineTool({
+      name: 'paper_portfolio',
+      description:
+        'In paper trading mode (LCS_MODE=paper), show simulated balances, funds held in open trades, and profit/loss versus the starting balances, valued at current market prices',
+      schema: {
+        quote_currency: z
+          .string()
+          .optional()
+          .describe(
+            'Currency to value the portfolio in (e.g., USD, USDT); defaults to LCS_PAPER_QUOTE_CURRENCY'
+          ),
+      },
+      handler: (params) => handlePaperPortfolio(client, params),
+    }),
+  ];
+}
@@ -1,5 +1,9 @@
 // LocalCoinSwap API Types
 
+// Amounts, prices and rates travel as exact decimal strings ("0.000000000000000001") and are
+// parsed with Decimal (see decimal.ts), never with parseFloat
+export type DecimalString = string;
+
 export interface Currency {
   symbol: string;
   title: string;
@@ -36,25 +40,48 @@ export interface Offer {
   fiat_currency: string;
   payment_method: PaymentMethod;
   headline?: string;
-  min_trade_size: string;
-  max_trade_size: string;
+  min_trade_size: DecimalString;
+  max_trade_size: DecimalString;
   trading_conditions?: string;
-  price?: string;
-  margin?: string;
+  price?: DecimalString;
+  margin?: DecimalString;
   is_active: boolean;
   trader: UserProfile;
   created_at: string;
   updated_at: string;
 }
 
+export interface CreateOfferParams {
+  trading_type: 'buy' | 'sell';
+  coin_currency: string;
+  fiat_currency: string;
+  payment_method: string;
+  min_trade_size: DecimalString;
+  max_trade_size: DecimalString;
+  margin: DecimalString;
+  headline?: string;
+  trading_conditions?: string;
+  country_code?: string;
+}
+
+export interface UpdateOfferParams {
+  payment_method?: string;
+  min_trade_size?: DecimalString;
+  max_trade_size?: DecimalString;
+  margin?: DecimalString;
+  headline?: string;
+  trading_conditions?: string;
+  is_active?: boolean;
+}
+
 export interface OfferSearchParams {
   coin_currency?: string;
   fiat_currency?: string;
   trading_type?: 'buy' | 'sell';
   payment_method?: string;
   country_code?: string;
-  min_amount?: number;
-  max_amount?: number;
+  min_amount?: DecimalString;
+  max_amount?: DecimalString;
   ordering?: string;
   page?: number;
   page_size?: number;
@@ -70,49 +97,105 @@ export interface PaginatedResponse<T> {
 export interface SwapEstimate {
   from_currency: string;
   to_currency: string;
-  from_amount: string;
-  to_amount: string;
-  rate: string;
-  fee?: string;
+  from_amount: DecimalString;
+  to_amount: DecimalString;
+  rate: DecimalString;
+  fee?: DecimalString;
 }
 
 export interface MinSwapAmount {
   from_currency: string;
   to_currency: string;
-  min_amount: string;
+  min_amount: DecimalString;
 }
 
 export interface Swap {
   uuid: string;
   from_currency: string;
   to_currency: string;
-  from_amount: string;
-  to_amount: string;
+  from_amount: DecimalString;
+  to_amount: DecimalString;
   status: string;
   created_at: string;
   completed_at?: string;
   transaction_hash?: string;
+  deposit_address?: string;
+  deposit_memo?: string;
 }
 
 export interface CreateSwapParams {
   from_currency: string;
   to_currency: string;
-  from_amount: string;
+  from_amount: DecimalString;
 }
 
+// Trade states in which the API lets either side open a dispute (funds are in escrow)
+export const DISPUTABLE_TRADE_STATUSES: readonly string[] = ['active', 'paid'];
+
 export interface Trade {
   uuid: string;
   offer: Offer;
-  amount: string;
+  amount: DecimalString;
   status: string;
   created_at: string;
   buyer?: UserProfile;
   seller?: UserProfile;
 }
 
+export interface TradeMessageAttachment {
+  url: string;
+  filename?: string;
+  content_type?: string;
+  size?: number;
+}
+
+export interface TradeMessage {
+  id: number;
+  sender: UserProfile;
+  message: string;
+  created_at: string;
+  attachment?: TradeMessageAttachment | null;
+}
+
+export interface DisputeEvidence {
+  id: number;
+  text: string;
+  submitted_by?: UserProfile;
+  created_at: string;
+}
+
+export interface Dispute {
+  trade_uuid: string;
+  status: string;
+  reason: string;
+  opened_by?: UserProfile;
+  created_at: string;
+  resolved_at?: string;
+  resolution?: string;
+  evidence: DisputeEvidence[];
+}
+
+export type FeedbackRating = 'positive' | 'neutral' | 'negative';
+
+export interface Feedback {
+  id: number;
+  trade_uuid: string;
+  rating: FeedbackRating;
+  comment: string;
+  from_user: UserProfile;
+  to_user?: UserProfile;
+  created_at: string;
+}
+
+export interface LeaveFeedbackParams {
+  trade_uuid: string;
+  rating: FeedbackRating;
+  comment: string;
+}
+
 export interface StartTradeParams {
   offer_uuid: string;
-  amount: string;
+  amount: DecimalString;
 }
 
 export interface ApiError {
@@ -128,3 +211,39 @@ export interface ServerConfig {
   apiUrl: string;
   requireConfirmation: boolean;
 }
+
+// HTTP transport configuration (opt-in alternative to stdio)
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  authToken: string;
+}
+
+// Response cache configuration
+export interface CacheConfig {
+  enabled: boolean;
+  // Directory for the on-disk store; the in-memory store is used when unset
+  dir?: string;
+}
+
+// Paper trading configuration (LCS_MODE=paper)
+export interface PaperConfig {
+  // Starting balances keyed by currency symbol
+  balances: Record<string, DecimalString>;
+  // Currency the paper portfolio is valued in
+  quoteCurrency: string;
+}
+
+// Files that keep execution records and daily policy usage across restarts; null keeps them in
+// memory only
+export interface StoreConfig {
+  idempotencyFile: string | null;
+  policyUsageFile: string | null;
+}
+
+// HTTP record/replay configuration (LCS_CASSETTE_MODE)
+export interface CassetteConfig {
+  mode: 'record' | 'replay';
+  // JSON cassette file written when recording and read when replaying
+  file: string;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { LocalCoinSwapClient } from '../src/api-client.js';
+import {
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from '../src/errors.js';
 import {
   mockCurrencies,
   mockFiatCurrencies,
@@ -13,6 +20,12 @@ import {
   mockPaginatedSwaps,
   mockTrade,
   mockPaginatedTrades,
+  mockTradeMessages,
+  mockPaginatedTradeMessages,
+  mockDispute,
+  mockTrader,
+  mockFeedback,
+  mockPaginatedFeedback,
   createMockResponse,
 } from './mocks.js';
 
@@ -125,8 +138,8 @@ describe('LocalCoinSwapClient', () => {
         trading_type: 'buy',
         payment_method: 'bank-transfer',
         country_code: 'US',
-        min_amount: 100,
-        max_amount: 1000,
+        min_amount: '100',
+        max_amount: '1000',
         ordering: '-price',
         page: 1,
         page_size: 20,
@@ -169,6 +182,51 @@ describe('LocalCoinSwapClient', () => {
       expect(result).toEqual(mockPaginatedOffers);
     });
 
+    it('createOffer should post the offer', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockOffer));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const params = {
+        trading_type: 'sell' as const,
+        coin_currency: 'BTC',
+        fiat_currency: 'USD',
+        payment_method: 'bank-transfer',
+        min_trade_size: '50',
+        max_trade_size: '5000',
+        margin: '2.5',
+      };
+      const result = await client.createOffer(params);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/offers/`,
+        expect.objectContaining({ method: 'POST', body: JSON.stringify(params) })
+      );
+      expect(result).toEqual(mockOffer);
+    });
+
+    it('updateOffer should patch the offer', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockOffer));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.updateOffer('offer-uuid-456', { margin: '3' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/offers/offer-uuid-456/`,
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ margin: '3' }) })
+      );
+    });
+
+    it('deleteOffer should handle a 204 No Content response', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(null, 204));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(client.deleteOffer('offer-uuid-456')).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/offers/offer-uuid-456/`,
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
     it('getFeaturedOffers should fetch featured offers', async () => {
       const mockFetch = vi.fn().mockResolvedValue(createMockResponse([mockOffer]));
       vi.stubGlobal('fetch', mockFetch);
@@ -279,6 +337,19 @@ describe('LocalCoinSwapClient', () => {
       expect(result).toEqual(mockPaginatedSwaps);
     });
 
+    it('getSwap should fetch a specific swap', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockSwap));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await client.getSwap('swap-uuid-abc');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/swaps/swap-uuid-abc/`,
+        expect.any(Object)
+      );
+      expect(result).toEqual(mockSwap);
+    });
+
     it('createSwap should post swap creation request', async () => {
       const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockSwap));
       vi.stubGlobal('fetch', mockFetch);
@@ -349,6 +420,371 @@ describe('LocalCoinSwapClient', () => {
       expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/api/v2/trades/`, expect.any(Object));
       expect(result).toEqual(mockPaginatedTrades);
     });
+
+    it('markTradePaid should post to the mark-paid endpoint', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockTrade));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await client.markTradePaid('trade-uuid-def');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/mark-paid/`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(result).toEqual(mockTrade);
+    });
+
+    it('releaseTrade should post to the release endpoint', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockTrade));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.releaseTrade('trade-uuid-def');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/release/`,
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('cancelTrade should post to the cancel endpoint', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockTrade));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.cancelTrade('trade-uuid-def');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/cancel/`,
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+  });
+
+  describe('Trade chat endpoints', () => {
+    it('getTradeMessages should fetch trade messages', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockPaginatedTradeMessages));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await client.getTradeMessages('trade-uuid-def');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/messages/`,
+        expect.any(Object)
+      );
+      expect(result).toEqual(mockPaginatedTradeMessages);
+    });
+
+    it('sendTradeMessage should post the message body', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockTradeMessages[0]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.sendTradeMessage('trade-uuid-def', 'Hello');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/messages/`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ message: 'Hello' }),
+        })
+      );
+    });
+  });
+
+  describe('Dispute endpoints', () => {
+    it('openDispute should post the reason', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockDispute));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await client.openDispute('trade-uuid-def', 'Seller unresponsive');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/dispute/`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ reason: 'Seller unresponsive' }),
+        })
+      );
+      expect(result).toEqual(mockDispute);
+    });
+
+    it('getDispute should fetch the dispute', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockDispute));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.getDispute('trade-uuid-def');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/dispute/`,
+        expect.any(Object)
+      );
+    });
+
+    it('addDisputeEvidence should post the evidence text', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockDispute.evidence[0]));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.addDisputeEvidence('trade-uuid-def', 'Reference ABC123');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/dispute/evidence/`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ text: 'Reference ABC123' }),
+        })
+      );
+    });
+  });
+
+  describe('Feedback endpoints', () => {
+    it('leaveFeedback should post rating and comment for the trade', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockFeedback));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await client.leaveFeedback({
+        trade_uuid: 'trade-uuid-def',
+        rating: 'positive',
+        comment: 'Fast and smooth trade',
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/trade-uuid-def/feedback/`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ rating: 'positive', comment: 'Fast and smooth trade' }),
+        })
+      );
+      expect(result).toEqual(mockFeedback);
+    });
+
+    it('getUserProfile should fetch a user profile', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockTrader));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await client.getUserProfile('testtrader');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/profile/testtrader/`,
+        expect.any(Object)
+      );
+      expect(result).toEqual(mockTrader);
+    });
+
+    it('getUserFeedback should fetch feedback received by a user', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockPaginatedFeedback));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await client.getUserFeedback('testtrader');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/profile/testtrader/feedback/`,
+        expect.any(Object)
+      );
+      expect(result).toEqual(mockPaginatedFeedback);
+    });
+  });
+
+  describe('Response caching', () => {
+    it('should serve repeated reference data requests from the cache', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockPaymentMethods));
+      vi.stubGlobal('fetch', mockFetch);
+
+      expect(await client.getPaymentMethods()).toEqual(mockPaymentMethods);
+      expect(await client.getPaymentMethods()).toEqual(mockPaymentMethods);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(await client.getCacheStats()).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+    });
+
+    it('should never cache user-specific endpoints', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockPaginatedTrades));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.getMyTrades();
+      await client.getMyTrades();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should never cache mutating requests', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockSwapEstimate));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.estimateSwap('ETH', 'USDT', '1.0');
+      await client.estimateSwap('ETH', 'USDT', '1.0');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache error responses', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(createMockResponse({ detail: 'Not found' }, 404))
+        .mockResolvedValueOnce(createMockResponse(mockTradeTypes));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(client.getTradeTypes()).rejects.toThrow('API Error (404)');
+      expect(await client.getTradeTypes()).toEqual(mockTradeTypes);
+    });
+
+    it('should fetch again after invalidation', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockCurrencies));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await client.getCryptoCurrencies();
+      expect(await client.invalidateCache()).toBe(1);
+      await client.getCryptoCurrencies();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache when constructed without a cache', async () => {
+      const uncached = new LocalCoinSwapClient(baseUrl, token, { cache: null });
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockCurrencies));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await uncached.getCryptoCurrencies();
+      await uncached.getCryptoCurrencies();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(await uncached.getCacheStats()).toBeNull();
+    });
+  });
+
+  describe('Retries and rate limiting', () => {
+    let retryClient: LocalCoinSwapClient;
+
+    beforeEach(() => {
+      retryClient = new LocalCoinSwapClient(baseUrl, token, {
+        cache: null,
+        rateLimit: null,
+        retryBaseDelayMs: 1,
+        retryMaxDelayMs: 1,
+      });
+    });
+
+    function rateLimited(retryAfter: string | null): Response {
+      const response = createMockResponse({ detail: 'Request was throttled.' }, 429);
+      if (retryAfter !== null) response.headers.set('Retry-After', retryAfter);
+      return response;
+    }
+
+    it('should retry GET requests on 5xx responses', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(createMockResponse({ detail: 'Bad gateway' }, 502))
+        .mockResolvedValueOnce(createMockResponse(mockOffer));
+      vi.stubGlobal('fetch', mockFetch);
+
+      expect(await retryClient.getOffer('offer-uuid-456')).toEqual(mockOffer);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry GET requests on network errors', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(createMockResponse(mockTrade));
+      vi.stubGlobal('fetch', mockFetch);
+
+      expect(await retryClient.getTrade('trade-uuid-def')).toEqual(mockTrade);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse({ detail: 'Down' }, 503));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(retryClient.getTrade('trade-uuid-def')).rejects.toThrow('API Error (503)');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse({ detail: 'Not found' }, 404));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(retryClient.getTrade('missing')).rejects.toThrow('API Error (404)');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never retry POST requests', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse({ detail: 'Oops' }, 500));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(
+        retryClient.createSwap({ from_currency: 'ETH', to_currency: 'USDT', from_amount: '1.0' })
+      ).rejects.toThrow('API Error (500)');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockReset().mockRejectedValue(new TypeError('fetch failed'));
+      await expect(
+        retryClient.startTrade({ offer_uuid: 'offer-uuid-456', amount: '500' })
+      ).rejects.toThrow('fetch failed');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockReset().mockResolvedValue(rateLimited('0'));
+      await expect(retryClient.markTradePaid('trade-uuid-def')).rejects.toThrow('API Error (429)');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After on 429 responses', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(rateLimited('0'))
+        .mockResolvedValueOnce(createMockResponse(mockPaginatedOffers));
+      vi.stubGlobal('fetch', mockFetch);
+
+      expect(await retryClient.searchOffers({ coin_currency: 'BTC' })).toEqual(mockPaginatedOffers);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail immediately when Retry-After exceeds the limit', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(rateLimited('3600'));
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(retryClient.searchOffers()).rejects.toThrow('API Error (429)');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out slow requests', async () => {
+      const slowClient = new LocalCoinSwapClient(baseUrl, token, {
+        cache: null,
+        rateLimit: null,
+        maxRetries: 0,
+        timeoutMs: 10,
+      });
+      const mockFetch = vi.fn().mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(slowClient.getTrade('trade-uuid-def')).rejects.toThrow(
+        'Request timed out after 10ms'
+      );
+    });
+
+    it('should throttle bursts with the token bucket', async () => {
+      vi.useFakeTimers();
+      try {
+        const limitedClient = new LocalCoinSwapClient(baseUrl, token, {
+          cache: null,
+          rateLimit: { capacity: 2, refillPerSecond: 1 },
+        });
+        const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockPaginatedOffers));
+        vi.stubGlobal('fetch', mockFetch);
+
+        const searches = [1, 2, 3].map(() => limitedClient.searchOffers());
+        await vi.advanceTimersByTimeAsync(0);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await Promise.all(searches);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
   });
 
   describe('Error handling', () => {
@@ -394,6 +830,129 @@ describe('LocalCoinSwapClient', () => {
     });
   });
 
+  describe('Typed errors', () => {
+    let typedClient: LocalCoinSwapClient;
+
+    beforeEach(() => {
+      typedClient = new LocalCoinSwapClient(baseUrl, token, {
+        cache: null,
+        rateLimit: null,
+        maxRetries: 0,
+      });
+    });
+
+    it('should throw AuthError for 401 responses', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(createMockResponse({ detail: 'Invalid token.' }, 401))
+      );
+
+      await expect(typedClient.getMyTrades()).rejects.toBeInstanceOf(AuthError);
+    });
+
+    it('should throw NotFoundError for 404 responses', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(createMockResponse({ detail: 'Not found.' }, 404))
+      );
+
+      await expect(typedClient.getOffer('gone')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should throw ValidationError with field details for 400 responses', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(createMockResponse({ amount: ['Below minimum.'] }, 400))
+      );
+
+      const error = await typedClient
+        .startTrade({ offer_uuid: 'offer-uuid-456', amount: '1' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fields).toEqual({ amount: ['Below minimum.'] });
+    });
+
+    it('should throw RateLimitError with the Retry-After delay', async () => {
+      const response = createMockResponse({ detail: 'Request was throttled.' }, 429);
+      response.headers.set('Retry-After', '7');
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(response));
+
+      const error = await typedClient.searchOffers().catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(7000);
+    });
+
+    it('should throw NetworkError for connection failures', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+      const getError = await typedClient.getTrade('trade-uuid-def').catch((e) => e);
+      expect(getError).toBeInstanceOf(NetworkError);
+      expect(getError.retryable).toBe(true);
+
+      const postError = await typedClient.releaseTrade('trade-uuid-def').catch((e) => e);
+      expect(postError).toBeInstanceOf(NetworkError);
+      expect(postError.retryable).toBe(false);
+    });
+  });
+
+  describe('Pagination', () => {
+    const page1 = {
+      count: 3,
+      next: `${baseUrl}/api/v2/trades/?page=2`,
+      previous: null,
+      results: [{ uuid: 'a' }, { uuid: 'b' }],
+    };
+    const page2 = {
+      count: 3,
+      next: null,
+      previous: `${baseUrl}/api/v2/trades/`,
+      results: [{ uuid: 'c' }],
+    };
+
+    it('getPage should fetch a next link through the base URL', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(createMockResponse(page2));
+      vi.stubGlobal('fetch', mockFetch);
+
+      // The API may report http links behind its proxy; the request still goes to baseUrl
+      const page = await client.getPage('http://api.localcoinswap.com/api/v2/trades/?page=2');
+
+      expect(page).toEqual(page2);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/api/v2/trades/?page=2`,
+        expect.any(Object)
+      );
+    });
+
+    it('getPage should refuse links to another host', async () => {
+      const mockFetch = vi.fn();
+      vi.stubGlobal('fetch', mockFetch);
+
+      await expect(client.getPage('https://evil.example.com/api/v2/trades/?page=2')).rejects.toThrow(
+        'Refusing to follow pagination link outside the API'
+      );
+      await expect(client.getPage('/other/path/')).rejects.toThrow('outside the API');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('paginate should iterate over items on every page', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(createMockResponse(page1))
+        .mockResolvedValueOnce(createMockResponse(page2));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const uuids: string[] = [];
+      for await (const trade of client.paginate(() => client.getMyTrades())) {
+        uuids.push(trade.uuid);
+      }
+
+      expect(uuids).toEqual(['a', 'b', 'c']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('Authentication', () => {
     it('should include Authorization header when token is set', async () => {
       const mockFetch = vi.fn().mockResolvedValue(createMockResponse(mockCurrencies));
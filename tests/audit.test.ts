@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  appendAuditEntry,
+  configureAuditLog,
+  queryAuditLog,
+  redact,
+  resetAuditLog,
+  verifyChain,
+  withAudit,
+  type AuditEntry,
+} from '../src/audit.js';
+import type { ToolResponse } from '../src/handlers.js';
+
+function textResponse(body: unknown, isError?: boolean): ToolResponse {
+  return { content: [{ type: 'text', text: JSON.stringify(body) }], ...(isError && { isError }) };
+}
+
+function record(tool: string) {
+  return appendAuditEntry({ tool, params: {}, outcome: 'ok', duration_ms: 1 });
+}
+
+describe('Audit log', () => {
+  afterEach(() => {
+    resetAuditLog();
+    vi.useRealTimers();
+  });
+
+  describe('redact', () => {
+    it('should replace secret values at any depth', () => {
+      expect(
+        redact({
+          amount: '1',
+          api_token: 'abc',
+          nested: { Authorization: 'Token abc', items: [{ password: 'x', ok: 1 }] },
+        })
+      ).toEqual({
+        amount: '1',
+        api_token: '[REDACTED]',
+        nested: { Authorization: '[REDACTED]', items: [{ password: '[REDACTED]', ok: 1 }] },
+      });
+    });
+  });
+
+  describe('hash chain', () => {
+    it('should chain entries and detect tampering', async () => {
+      await record('estimate_swap');
+      await record('create_swap');
+      await record('get_swap');
+
+      const { entries, chain } = queryAuditLog();
+      expect(chain).toEqual({ valid: true, entries: 3 });
+      expect(entries[1].prev_hash).toBe(entries[0].hash);
+
+      const edited: AuditEntry[] = entries.map((e) => ({ ...e }));
+      edited[1].tool = 'get_currency';
+      expect(verifyChain(edited)).toMatchObject({ valid: false, first_invalid_seq: 2 });
+
+      const removed = [entries[0], entries[2]];
+      expect(verifyChain(removed)).toMatchObject({ valid: false, first_invalid_seq: 3 });
+    });
+
+    it('should redact params before hashing', async () => {
+      await appendAuditEntry({
+        tool: 'x',
+        params: { secret: 'hunter2' },
+        outcome: 'ok',
+        duration_ms: 0,
+      });
+      expect(queryAuditLog().entries[0].params).toEqual({ secret: '[REDACTED]' });
+    });
+  });
+
+  describe('file log', () => {
+    it('should append JSONL and continue the chain after a restart', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'lcs-audit-'));
+      const file = join(dir, 'audit.jsonl');
+      try {
+        configureAuditLog(file);
+        await record('create_swap');
+        await record('get_swap');
+
+        // A new process picks up the chain where the file ends
+        configureAuditLog(file);
+        await record('start_trade');
+
+        const lines = readFileSync(file, 'utf8').trim().split('\n');
+        expect(lines).toHaveLength(3);
+        expect(lines.map((l) => JSON.parse(l).seq)).toEqual([1, 2, 3]);
+        expect(queryAuditLog().chain).toEqual({ valid: true, entries: 3 });
+
+        // Editing a line on disk is detected
+        const tampered = lines.map((l) => JSON.parse(l));
+        tampered[0].params = { from_amount: '1000' };
+        writeFileSync(file, tampered.map((e) => JSON.stringify(e)).join('\n') + '\n');
+        expect(queryAuditLog().chain).toMatchObject({ valid: false, first_invalid_seq: 1 });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('withAudit', () => {
+    it('should record issued confirmations', async () => {
+      const handler = withAudit('create_swap', async () =>
+        textResponse({ status: 'confirmation_required', confirmation_id: 'confirm_1' })
+      );
+      await handler({ from_currency: 'BTC', to_currency: 'ETH', from_amount: '0.1' });
+
+      expect(queryAuditLog().entries[0]).toMatchObject({
+        tool: 'create_swap',
+        outcome: 'ok',
+        confirmation_issued: 'confirm_1',
+        params: { from_currency: 'BTC', to_currency: 'ETH', from_amount: '0.1' },
+      });
+    });
+
+    it('should record consumed confirmations and resulting UUIDs', async () => {
+      const handler = withAudit('create_swap', async () =>
+        textResponse({ status: 'swap_created', swap: { uuid: 'swap-1' } })
+      );
+      await handler({ confirmation_id: 'confirm_1' });
+
+      expect(queryAuditLog().entries[0]).toMatchObject({
+        confirmation_consumed: 'confirm_1',
+        swap_uuid: 'swap-1',
+      });
+    });
+
+    it('should record the trade a dispute tool acts on', async () => {
+      const open = withAudit('open_dispute', async () =>
+        textResponse({ status: 'dispute_opened', dispute: { trade_uuid: 'trade-1' } })
+      );
+      const evidence = withAudit('add_dispute_evidence', async () =>
+        textResponse({ error: { code: 'VALIDATION_ERROR', message: 'not disputed' } }, true)
+      );
+      await open({ uuid: 'trade-1', reason: 'Seller unresponsive' });
+      await evidence({ uuid: 'trade-2', text: 'Receipt' });
+
+      const { entries } = queryAuditLog();
+      expect(entries[0]).toMatchObject({ tool: 'open_dispute', trade_uuid: 'trade-1' });
+      expect(entries[1]).toMatchObject({ outcome: 'error', trade_uuid: 'trade-2' });
+      expect(entries[1].offer_uuid).toBeUndefined();
+    });
+
+    it('should record error codes', async () => {
+      const structured = withAudit('create_swap', async () =>
+        textResponse(
+          { error: { code: 'POLICY_VIOLATION', message: 'Error creating swap: no' } },
+          true
+        )
+      );
+      const plain = withAudit('get_currency', async () => ({
+        content: [{ type: 'text' as const, text: 'Error: Invalid currency symbol' }],
+        isError: true,
+      }));
+      await structured({ confirmation_id: 'confirm_1' });
+      await plain({ symbol: 'X' });
+
+      const { entries } = queryAuditLog();
+      expect(entries[0]).toMatchObject({
+        outcome: 'error',
+        error_code: 'POLICY_VIOLATION',
+        error: 'Error creating swap: no',
+      });
+      // The failed action may still have gone through, so its confirmation is kept with it
+      expect(entries[0].confirmation_consumed).toBe('confirm_1');
+      expect(entries[1]).toMatchObject({
+        outcome: 'error',
+        error: 'Error: Invalid currency symbol',
+      });
+    });
+
+    it('should record currency symbols as the handlers use them', async () => {
+      const handler = withAudit('estimate_swap', async () => textResponse({ rate: '1' }));
+      await handler({ from_currency: 'btc', to_currency: ' usdt', from_amount: '0.1' });
+
+      expect(queryAuditLog().entries[0].params).toEqual({
+        from_currency: 'BTC',
+        to_currency: 'USDT',
+        from_amount: '0.1',
+      });
+    });
+
+    it('should record handlers that throw', async () => {
+      const handler = withAudit('get_swap', async () => {
+        throw new Error('boom');
+      });
+      await expect(handler({})).rejects.toThrow('boom');
+      expect(queryAuditLog().entries[0]).toMatchObject({ outcome: 'error', error: 'boom' });
+    });
+  });
+
+  describe('queryAuditLog', () => {
+    it('should filter by tool and time and keep the most recent entries', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-12-07T10:00:00Z'));
+      await record('create_swap');
+      vi.setSystemTime(new Date('2025-12-07T11:00:00Z'));
+      await record('start_trade');
+      await record('create_swap');
+      vi.setSystemTime(new Date('2025-12-07T12:00:00Z'));
+      await record('create_swap');
+
+      expect(queryAuditLog({ tool: 'create_swap' }).entries.map((e) => e.seq)).toEqual([1, 3, 4]);
+      expect(
+        queryAuditLog({ since: '2025-12-07T10:30:00Z', until: '2025-12-07T11:30:00Z' }).entries.map(
+          (e) => e.seq
+        )
+      ).toEqual([2, 3]);
+      expect(queryAuditLog({ limit: 2 }).entries.map((e) => e.seq)).toEqual([3, 4]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  ResponseCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  DEFAULT_CACHE_RULES,
+} from '../src/cache.js';
+import { mockCurrencies } from './mocks.js';
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('ttlFor', () => {
+    const cache = new ResponseCache();
+
+    it('should cache public reference data', () => {
+      expect(cache.ttlFor('/api/v2/currencies/crypto-currencies/')).toBe(60 * 60 * 1000);
+      expect(cache.ttlFor('/api/v2/currencies/BTC/')).toBe(60 * 60 * 1000);
+      expect(cache.ttlFor('/api/v2/offers/payment-methods/')).toBe(60 * 60 * 1000);
+      expect(cache.ttlFor('/api/v2/offers/trade-types/')).toBe(60 * 60 * 1000);
+      expect(cache.ttlFor('/api/v2/swaps/min-swap-amount/ETH/USDT/')).toBe(5 * 60 * 1000);
+    });
+
+    it('should never cache user-specific endpoints', () => {
+      expect(cache.ttlFor('/api/v2/offers/')).toBeNull();
+      expect(cache.ttlFor('/api/v2/trades/')).toBeNull();
+      expect(cache.ttlFor('/api/v2/trades/trade-uuid-def/')).toBeNull();
+      expect(cache.ttlFor('/api/v2/swaps/')).toBeNull();
+      expect(cache.ttlFor('/api/v2/profile/trader1/')).toBeNull();
+      expect(cache.ttlFor('/api/v2/offers/search/?coin_currency=BTC')).toBeNull();
+    });
+  });
+
+  it('should return cached values until they expire', async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache();
+    const endpoint = '/api/v2/currencies/crypto-currencies/';
+
+    await cache.set(endpoint, mockCurrencies);
+    expect(await cache.get(endpoint)).toEqual(mockCurrencies);
+
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+    expect(await cache.get(endpoint)).toBeUndefined();
+  });
+
+  it('should ignore endpoints without a rule', async () => {
+    const cache = new ResponseCache();
+
+    await cache.set('/api/v2/trades/', { results: [] });
+
+    expect(await cache.get('/api/v2/trades/')).toBeUndefined();
+  });
+
+  it('should invalidate by prefix', async () => {
+    const cache = new ResponseCache();
+    await cache.set('/api/v2/currencies/crypto-currencies/', mockCurrencies);
+    await cache.set('/api/v2/offers/payment-methods/', []);
+
+    expect(await cache.invalidate('/api/v2/currencies/')).toBe(1);
+    expect(await cache.get('/api/v2/currencies/crypto-currencies/')).toBeUndefined();
+    expect(await cache.get('/api/v2/offers/payment-methods/')).toEqual([]);
+
+    expect(await cache.invalidate()).toBe(1);
+  });
+
+  it('should report hits, misses and entries', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(), DEFAULT_CACHE_RULES);
+    const endpoint = '/api/v2/offers/trade-types/';
+
+    await cache.get(endpoint);
+    await cache.set(endpoint, []);
+    await cache.get(endpoint);
+    await cache.get(endpoint);
+
+    expect(await cache.stats()).toEqual({
+      store: 'memory',
+      entries: 1,
+      hits: 2,
+      misses: 1,
+      hit_rate: 0.667,
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'lcs-cache-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist entries across cache instances', async () => {
+      const endpoint = '/api/v2/currencies/crypto-currencies/';
+      await new ResponseCache(new FileCacheStore(dir)).set(endpoint, mockCurrencies);
+
+      const reopened = new ResponseCache(new FileCacheStore(dir));
+
+      expect(await reopened.get(endpoint)).toEqual(mockCurrencies);
+      expect((await reopened.stats()).store).toBe('disk');
+    });
+
+    it('should invalidate entries on disk', async () => {
+      const cache = new ResponseCache(new FileCacheStore(dir));
+      await cache.set('/api/v2/offers/payment-methods/', []);
+
+      expect(await cache.invalidate()).toBe(1);
+      expect((await cache.stats()).entries).toBe(0);
+    });
+
+    it('should treat a missing directory as empty', async () => {
+      const cache = new ResponseCache(new FileCacheStore(join(dir, 'missing')));
+
+      expect(await cache.get('/api/v2/offers/trade-types/')).toBeUndefined();
+      expect((await cache.stats()).entries).toBe(0);
+    });
+  });
+});
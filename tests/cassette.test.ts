@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CassettePlayer,
+  CassetteRecorder,
+  scrubPersonalData,
+  type CassetteFile,
+} from '../src/cassette.js';
+import {
+  FAKE_API_TOKEN,
+  FAKE_API_USER,
+  startFakeApi,
+  type FakeApiHandle,
+} from '../src/fake-api.js';
+import { LocalCoinSwapClient } from '../src/api-client.js';
+import { NetworkError, NotFoundError } from '../src/errors.js';
+import { createServer } from '../src/server.js';
+import { clearPendingConfirmations } from '../src/handlers.js';
+import { resetIdempotency } from '../src/idempotency.js';
+import { resetAuditLog } from '../src/audit.js';
+import type { CassetteConfig } from '../src/types.js';
+
+const API_URL = 'https://api.localcoinswap.com';
+
+function createClient(url: string, cassette: CassetteConfig): LocalCoinSwapClient {
+  return new LocalCoinSwapClient(url, FAKE_API_TOKEN, {
+    cache: null,
+    rateLimit: null,
+    maxRetries: 0,
+    cassette,
+  });
+}
+
+describe('scrubPersonalData', () => {
+  it('should redact personal fields and free text', () => {
+    const scrubbed = scrubPersonalData(
+      {
+        email: 'alice@example.com',
+        deposit_address: 'bc1qexample',
+        message: 'My phone is 555-0100',
+        headline: 'Fast BTC from Alice',
+        amount: '250',
+        note: null,
+      },
+      new Map(),
+      API_URL
+    );
+
+    expect(scrubbed).toEqual({
+      email: '[REDACTED]',
+      deposit_address: '[REDACTED]',
+      message: '[REDACTED]',
+      headline: '[REDACTED]',
+      amount: '250',
+      note: null,
+    });
+  });
+
+  it('should replace usernames with stable pseudonyms', () => {
+    const pseudonyms = new Map<string, string>();
+    const scrubbed = scrubPersonalData(
+      {
+        buyer: { username: 'alice', uuid: 'a1b2' },
+        seller: { username: 'bob', uuid: 'c3d4' },
+        messages: [{ sender: { username: 'alice', uuid: 'a1b2' } }],
+      },
+      pseudonyms,
+      API_URL
+    );
+
+    expect(scrubbed).toEqual({
+      buyer: { username: 'user-1', uuid: 'user-1-uuid' },
+      seller: { username: 'user-2', uuid: 'user-2-uuid' },
+      messages: [{ sender: { username: 'user-1', uuid: 'user-1-uuid' } }],
+    });
+    expect(pseudonyms.get('bob')).toBe('user-2');
+  });
+
+  it('should make links to the API relative', () => {
+    const scrubbed = scrubPersonalData(
+      { next: `${API_URL}/api/v2/trades/?page=2`, previous: null },
+      new Map(),
+      API_URL
+    );
+
+    expect(scrubbed).toEqual({ next: '/api/v2/trades/?page=2', previous: null });
+  });
+});
+
+describe('Cassettes', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lcs-cassette-'));
+    file = join(dir, 'session.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('Recording', () => {
+    let fake: FakeApiHandle;
+
+    beforeEach(async () => {
+      fake = await startFakeApi();
+    });
+
+    afterEach(async () => {
+      await fake.close();
+    });
+
+    it('should save scrubbed exchanges while the client sees the real responses', async () => {
+      const client = createClient(fake.url, { mode: 'record', file });
+
+      // fake-offer-001 is alice selling BTC for USD
+      const trade = await client.startTrade({ offer_uuid: 'fake-offer-001', amount: '500' });
+      await client.sendTradeMessage(trade.uuid, 'Paying now');
+      await expect(client.getOffer('no-such-offer')).rejects.toThrow(NotFoundError);
+
+      expect(trade.seller?.username).toBe('alice');
+
+      const json = readFileSync(file, 'utf8');
+      expect(json).not.toContain(FAKE_API_TOKEN);
+      expect(json).not.toContain('alice');
+      expect(json).not.toContain(FAKE_API_USER);
+      expect(json).not.toContain('Paying now');
+      expect(json).not.toContain(fake.url);
+
+      const cassette = JSON.parse(json) as CassetteFile;
+      expect(cassette.interactions.map((i) => `${i.request.method} ${i.request.path}`)).toEqual([
+        'POST /api/v2/trades/',
+        `POST /api/v2/trades/${trade.uuid}/messages/`,
+        'GET /api/v2/offers/no-such-offer/',
+      ]);
+      expect(cassette.interactions[0].request.body).toEqual({
+        offer: 'fake-offer-001',
+        fiat_amount: '500',
+      });
+      expect(cassette.interactions[2].response?.status).toBe(404);
+    });
+
+    it('should pseudonymize usernames in profile paths', async () => {
+      const client = createClient(fake.url, { mode: 'record', file });
+
+      await client.getUserProfile('carol');
+
+      const cassette = JSON.parse(readFileSync(file, 'utf8')) as CassetteFile;
+      expect(cassette.interactions[0].request.path).toBe('/api/v2/profile/user-1/');
+      expect(cassette.interactions[0].response?.body).toMatchObject({ username: 'user-1' });
+    });
+
+    it('should record requests that fail without a response', async () => {
+      const client = createClient('http://127.0.0.1:1', { mode: 'record', file });
+
+      await expect(client.getTradeTypes()).rejects.toThrow(NetworkError);
+
+      const cassette = JSON.parse(readFileSync(file, 'utf8')) as CassetteFile;
+      expect(cassette.interactions[0].response).toBeUndefined();
+      expect(cassette.interactions[0].error).toBeDefined();
+    });
+  });
+
+  describe('Recording bodies that are not JSON', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should redact them instead of saving them as they are', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => {
+          return new Response('<h1>Bad gateway</h1><p>alice@example.com</p>', { status: 502 });
+        })
+      );
+      const recorder = new CassetteRecorder(file, API_URL, FAKE_API_TOKEN);
+
+      const response = await recorder.fetch(`${API_URL}/api/v2/trades/t-1/messages/`, {
+        method: 'POST',
+        body: 'message=Call me on 555-0100',
+      });
+
+      expect(await response.text()).toContain('alice@example.com');
+      const json = readFileSync(file, 'utf8');
+      expect(json).not.toContain('alice');
+      expect(json).not.toContain('555-0100');
+      const [interaction] = (JSON.parse(json) as CassetteFile).interactions;
+      expect(interaction.request.body).toBe('[REDACTED]');
+      expect(interaction.response).toMatchObject({ status: 502, text: '[REDACTED]' });
+    });
+  });
+
+  describe('Replaying', () => {
+    function writeCassette(cassette: CassetteFile) {
+      writeFileSync(file, JSON.stringify(cassette));
+    }
+
+    it('should serve repeated requests in order and then repeat the last one', async () => {
+      const trade = (status: string) => ({
+        request: { method: 'GET', path: '/api/v2/trades/t-1/' },
+        response: { status: 200, headers: {}, body: { uuid: 't-1', status } },
+      });
+      writeCassette({ version: 1, interactions: [trade('active'), trade('paid')] });
+      const client = createClient(API_URL, { mode: 'replay', file });
+
+      expect((await client.getTrade('t-1')).status).toBe('active');
+      expect((await client.getTrade('t-1')).status).toBe('paid');
+      expect((await client.getTrade('t-1')).status).toBe('paid');
+    });
+
+    it('should replay errors, empty responses and failed requests', async () => {
+      writeCassette({
+        version: 1,
+        interactions: [
+          {
+            request: { method: 'GET', path: '/api/v2/offers/gone/' },
+            response: { status: 404, headers: {}, body: { detail: 'Not found.' } },
+          },
+          {
+            request: { method: 'DELETE', path: '/api/v2/offers/mine/' },
+            response: { status: 204, headers: {} },
+          },
+          {
+            request: { method: 'GET', path: '/api/v2/offers/trade-types/' },
+            error: 'connect ECONNREFUSED',
+          },
+        ],
+      });
+      const client = createClient(API_URL, { mode: 'replay', file });
+
+      await expect(client.getOffer('gone')).rejects.toThrow(NotFoundError);
+      await expect(client.deleteOffer('mine')).resolves.toBeUndefined();
+      await expect(client.getTradeTypes()).rejects.toThrow('connect ECONNREFUSED');
+    });
+
+    it('should fail requests that were not recorded', async () => {
+      writeCassette({ version: 1, interactions: [] });
+      const client = createClient(API_URL, { mode: 'replay', file });
+
+      const error = await client.getMyTrades().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(NetworkError);
+      expect((error as Error).message).toContain('No recorded response for GET /api/v2/trades/');
+    });
+
+    it('should refuse a missing or malformed cassette', () => {
+      expect(() => CassettePlayer.load(join(dir, 'missing.json'), API_URL)).toThrow(
+        'Could not read cassette'
+      );
+
+      writeFileSync(file, JSON.stringify({ version: 2, interactions: [] }));
+      expect(() => CassettePlayer.load(file, API_URL)).toThrow('unsupported format');
+    });
+  });
+});
+
+// Recorded from the fake API: buying BTC from the cheapest USD seller, chatting, paying and
+// checking the seller's feedback once they released
+describe('Regression: buy-btc-trade cassette', () => {
+  const cassetteFile = fileURLToPath(new URL('./cassettes/buy-btc-trade.json', import.meta.url));
+  let mcpClient: Client;
+
+  async function call(name: string, args: Record<string, unknown>) {
+    const result = await mcpClient.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+    expect(result.isError).toBeFalsy();
+    return JSON.parse(text);
+  }
+
+  beforeEach(async () => {
+    const server = createServer(
+      { apiToken: FAKE_API_TOKEN, apiUrl: API_URL, requireConfirmation: true },
+      createClient(API_URL, { mode: 'replay', file: cassetteFile })
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    mcpClient = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    clearPendingConfirmations();
+    resetIdempotency();
+    resetAuditLog();
+  });
+
+  it('should replay the session through the MCP tools', async () => {
+    const search = await call('search_offers', {
+      coin_currency: 'BTC',
+      fiat_currency: 'USD',
+      trading_type: 'buy',
+      ordering: 'price',
+    });
+    const offer = search.offers[0];
+    expect(offer.uuid).toBe('fake-offer-003');
+    expect(offer.trader.username).toBe('user-1');
+
+    const started = await call('start_trade', {
+      offer_uuid: offer.uuid,
+      amount: '250',
+      confirm: true,
+    });
+    expect(started.status).toBe('trade_started');
+    const uuid = started.trade.uuid;
+
+    await call('send_trade_message', { uuid, message: 'Paying now' });
+    const paid = await call('mark_trade_paid', { uuid, confirm: true });
+    expect(paid.trade.status).toBe('paid');
+
+    // The seller released between these two calls while recording
+    expect((await call('get_trade', { uuid })).status).toBe('completed');
+
+    const feedback = await call('get_user_feedback', { username: 'user-1' });
+    expect(feedback.user.username).toBe('user-1');
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { loadConfig } from '../src/index.js';
+import {
+  loadConfig,
+  loadHttpConfig,
+  loadCacheConfig,
+  loadPaperConfig,
+  loadCassetteConfig,
+  loadStoreConfig,
+} from '../src/index.js';
 
 describe('Configuration', () => {
   const originalEnv = process.env;
@@ -78,4 +85,164 @@ describe('Configuration', () => {
       });
     });
   });
+
+  describe('loadHttpConfig', () => {
+    beforeEach(() => {
+      delete process.env.LCS_TRANSPORT;
+      delete process.env.LCS_HTTP_HOST;
+      delete process.env.LCS_HTTP_PORT;
+      delete process.env.LCS_HTTP_AUTH_TOKEN;
+    });
+
+    it('should return null when the HTTP transport is not selected', () => {
+      expect(loadHttpConfig([])).toBeNull();
+    });
+
+    it('should select the HTTP transport via LCS_TRANSPORT or --http', () => {
+      process.env.LCS_HTTP_AUTH_TOKEN = 'http-secret';
+
+      expect(loadHttpConfig(['--http'])).toEqual({
+        host: '127.0.0.1',
+        port: 3000,
+        authToken: 'http-secret',
+      });
+
+      process.env.LCS_TRANSPORT = 'http';
+      expect(loadHttpConfig([])).not.toBeNull();
+    });
+
+    it('should use LCS_HTTP_HOST and LCS_HTTP_PORT when set', () => {
+      process.env.LCS_HTTP_AUTH_TOKEN = 'http-secret';
+      process.env.LCS_HTTP_HOST = '0.0.0.0';
+      process.env.LCS_HTTP_PORT = '8080';
+
+      const config = loadHttpConfig(['--http']);
+
+      expect(config?.host).toBe('0.0.0.0');
+      expect(config?.port).toBe(8080);
+    });
+
+    it('should refuse to start without an auth token', () => {
+      expect(() => loadHttpConfig(['--http'])).toThrow('LCS_HTTP_AUTH_TOKEN');
+    });
+
+    it('should reject an invalid port', () => {
+      process.env.LCS_HTTP_AUTH_TOKEN = 'http-secret';
+      process.env.LCS_HTTP_PORT = 'abc';
+
+      expect(() => loadHttpConfig(['--http'])).toThrow('Invalid LCS_HTTP_PORT');
+    });
+  });
+
+  describe('loadCacheConfig', () => {
+    it('should enable the in-memory cache by default', () => {
+      delete process.env.LCS_CACHE;
+      delete process.env.LCS_CACHE_DIR;
+
+      expect(loadCacheConfig()).toEqual({ enabled: true, dir: undefined });
+    });
+
+    it('should use the disk store when LCS_CACHE_DIR is set', () => {
+      process.env.LCS_CACHE_DIR = '/tmp/lcs-cache';
+
+      expect(loadCacheConfig().dir).toBe('/tmp/lcs-cache');
+    });
+
+    it('should disable the cache when LCS_CACHE is "false"', () => {
+      process.env.LCS_CACHE = 'false';
+
+      expect(loadCacheConfig().enabled).toBe(false);
+    });
+  });
+
+  describe('loadPaperConfig', () => {
+    it('should return null in live mode', () => {
+      delete process.env.LCS_MODE;
+      expect(loadPaperConfig()).toBeNull();
+
+      process.env.LCS_MODE = 'live';
+      expect(loadPaperConfig()).toBeNull();
+    });
+
+    it('should load balances and the quote currency in paper mode', () => {
+      process.env.LCS_MODE = 'paper';
+      process.env.LCS_PAPER_BALANCES = 'USD=5000,btc=0.1';
+      process.env.LCS_PAPER_QUOTE_CURRENCY = 'usdt';
+
+      expect(loadPaperConfig()).toEqual({
+        balances: { USD: '5000', BTC: '0.1' },
+        quoteCurrency: 'USDT',
+      });
+    });
+
+    it('should default to no balances valued in USD', () => {
+      process.env.LCS_MODE = 'paper';
+      delete process.env.LCS_PAPER_BALANCES;
+      delete process.env.LCS_PAPER_QUOTE_CURRENCY;
+
+      expect(loadPaperConfig()).toEqual({ balances: {}, quoteCurrency: 'USD' });
+    });
+
+    it('should reject an unknown mode or malformed balances', () => {
+      process.env.LCS_MODE = 'demo';
+      expect(() => loadPaperConfig()).toThrow('Invalid LCS_MODE: "demo"');
+
+      process.env.LCS_MODE = 'paper';
+      process.env.LCS_PAPER_BALANCES = 'USD';
+      expect(() => loadPaperConfig()).toThrow('Invalid paper balance "USD"');
+    });
+  });
+
+  describe('loadCassetteConfig', () => {
+    it('should return null when no cassette mode is set', () => {
+      delete process.env.LCS_CASSETTE_MODE;
+      expect(loadCassetteConfig()).toBeNull();
+    });
+
+    it('should load the mode and the cassette file', () => {
+      process.env.LCS_CASSETTE_MODE = 'replay';
+      process.env.LCS_CASSETTE = 'tests/cassettes/session.json';
+
+      expect(loadCassetteConfig()).toEqual({
+        mode: 'replay',
+        file: 'tests/cassettes/session.json',
+      });
+    });
+
+    it('should reject an unknown mode or a missing file', () => {
+      process.env.LCS_CASSETTE_MODE = 'playback';
+      expect(() => loadCassetteConfig()).toThrow('Invalid LCS_CASSETTE_MODE: "playback"');
+
+      process.env.LCS_CASSETTE_MODE = 'record';
+      delete process.env.LCS_CASSETTE;
+      expect(() => loadCassetteConfig()).toThrow('LCS_CASSETTE must be set');
+    });
+  });
+
+  describe('loadStoreConfig', () => {
+    beforeEach(() => {
+      process.env.LCS_IDEMPOTENCY_FILE = '/var/lcs/executions.json';
+      process.env.LCS_POLICY_FILE = '/etc/lcs/policy.json';
+      delete process.env.LCS_POLICY_USAGE_FILE;
+    });
+
+    it('should save policy usage next to the policy file by default', () => {
+      expect(loadStoreConfig(false)).toEqual({
+        idempotencyFile: '/var/lcs/executions.json',
+        policyUsageFile: '/etc/lcs/policy-usage.json',
+      });
+
+      process.env.LCS_POLICY_USAGE_FILE = '/var/lcs/usage.json';
+      expect(loadStoreConfig(false).policyUsageFile).toBe('/var/lcs/usage.json');
+
+      delete process.env.LCS_POLICY_FILE;
+      expect(loadStoreConfig(false).policyUsageFile).toBeNull();
+    });
+
+    it('should keep paper mode out of the live stores', () => {
+      process.env.LCS_POLICY_USAGE_FILE = '/var/lcs/usage.json';
+
+      expect(loadStoreConfig(true)).toEqual({ idempotencyFile: null, policyUsageFile: null });
+    });
+  });
 });
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { Decimal } from '../src/decimal.js';
+
+describe('Decimal', () => {
+  describe('parse', () => {
+    it('should keep every digit of 18-decimal amounts', () => {
+      expect(Decimal.parse('1.000000000000000001').toString()).toBe('1.000000000000000001');
+      expect(Decimal.parse('123456789012345678.123456789012345678').toString()).toBe(
+        '123456789012345678.123456789012345678'
+      );
+    });
+
+    it('should normalise signs, whitespace and trailing zeros', () => {
+      expect(Decimal.parse(' 1.500 ').toString()).toBe('1.5');
+      expect(Decimal.parse('+2').toString()).toBe('2');
+      expect(Decimal.parse('-0.010').toString()).toBe('-0.01');
+      expect(Decimal.parse('0.000').toString()).toBe('0');
+    });
+
+    it('should reject anything but plain decimals', () => {
+      for (const value of ['', 'abc', '1e-7', '1.', '.5', '1,5', 'Infinity', 'NaN']) {
+        expect(Decimal.isDecimal(value)).toBe(false);
+        expect(() => Decimal.parse(value)).toThrow('Invalid decimal');
+      }
+    });
+  });
+
+  it('should count decimal places ignoring trailing zeros', () => {
+    expect(Decimal.parse('0.12345678').decimalPlaces).toBe(8);
+    expect(Decimal.parse('0.123456780').decimalPlaces).toBe(8);
+    expect(Decimal.parse('100').decimalPlaces).toBe(0);
+    expect(Decimal.parse('100.00').decimalPlaces).toBe(0);
+  });
+
+  it('should compare values of different scales', () => {
+    expect(Decimal.parse('1.5').eq(Decimal.parse('1.50'))).toBe(true);
+    expect(Decimal.parse('0.000000000000000001').gt(Decimal.ZERO)).toBe(true);
+    expect(Decimal.parse('-1').lt(Decimal.parse('0.1'))).toBe(true);
+    expect(Decimal.parse('2').compare(Decimal.parse('10'))).toBe(-1);
+  });
+
+  it('should add, subtract and multiply exactly', () => {
+    expect(Decimal.parse('0.1').add(Decimal.parse('0.2')).toString()).toBe('0.3');
+    expect(Decimal.parse('1').sub(Decimal.parse('0.000000000000000001')).toString()).toBe(
+      '0.999999999999999999'
+    );
+    expect(Decimal.parse('1.1').mul(Decimal.parse('1.1')).toString()).toBe('1.21');
+  });
+
+  it('should divide with rounding half away from zero', () => {
+    expect(Decimal.parse('1').div(Decimal.parse('3'), 4).toString()).toBe('0.3333');
+    expect(Decimal.parse('2').div(Decimal.parse('3'), 4).toString()).toBe('0.6667');
+    expect(Decimal.parse('-2').div(Decimal.parse('3'), 4).toString()).toBe('-0.6667');
+    expect(Decimal.parse('0.5').div(Decimal.parse('0.25')).toString()).toBe('2');
+    expect(() => Decimal.parse('1').div(Decimal.ZERO)).toThrow('Division by zero');
+  });
+
+  it('should format to a fixed number of places', () => {
+    expect(Decimal.parse('1.23456').toFixed(4)).toBe('1.2346');
+    expect(Decimal.parse('1.5').toFixed(3)).toBe('1.500');
+    expect(Decimal.parse('-0.00004').toFixed(4)).toBe('0.0000');
+    expect(Decimal.parse('-1.25').toFixed(1)).toBe('-1.3');
+  });
+
+  it('should serialise to JSON as a string', () => {
+    expect(JSON.stringify({ amount: Decimal.parse('0.10') })).toBe('{"amount":"0.1"}');
+  });
+});
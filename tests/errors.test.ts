@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createApiError,
+  toErrorPayload,
+  AuthError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  NetworkError,
+  ServerError,
+  LocalCoinSwapError,
+  PolicyViolationError,
+} from '../src/errors.js';
+
+describe('Error hierarchy', () => {
+  describe('createApiError', () => {
+    it('should map status codes onto error classes', () => {
+      const opts = { idempotent: true };
+
+      expect(createApiError(401, { detail: 'Invalid token.' }, opts)).toBeInstanceOf(AuthError);
+      expect(createApiError(403, { detail: 'Forbidden' }, opts)).toBeInstanceOf(AuthError);
+      expect(createApiError(404, { detail: 'Not found.' }, opts)).toBeInstanceOf(NotFoundError);
+      expect(createApiError(400, { error: 'Bad' }, opts)).toBeInstanceOf(ValidationError);
+      expect(createApiError(422, { error: 'Bad' }, opts)).toBeInstanceOf(ValidationError);
+      expect(createApiError(429, { detail: 'Slow down' }, opts)).toBeInstanceOf(RateLimitError);
+      expect(createApiError(502, { detail: 'Bad gateway' }, opts)).toBeInstanceOf(ServerError);
+
+      const other = createApiError(409, { detail: 'Conflict' }, opts);
+      expect(other).toBeInstanceOf(LocalCoinSwapError);
+      expect(other.code).toBe('API_ERROR');
+    });
+
+    it('should keep the API error message format', () => {
+      const error = createApiError(401, { detail: 'Unauthorized' }, { idempotent: true });
+
+      expect(error.message).toBe('API Error (401): Unauthorized');
+      expect(error.name).toBe('AuthError');
+      expect(error.status).toBe(401);
+    });
+
+    it('should collect field errors for validation failures', () => {
+      const error = createApiError(
+        400,
+        { amount: ['Below the offer minimum.'], non_field_errors: ['Offer is paused.'] },
+        { idempotent: false }
+      ) as ValidationError;
+
+      expect(error.fields).toEqual({
+        amount: ['Below the offer minimum.'],
+        non_field_errors: ['Offer is paused.'],
+      });
+    });
+
+    it('should only mark server errors retryable for idempotent requests', () => {
+      expect(createApiError(500, {}, { idempotent: true }).retryable).toBe(true);
+      expect(createApiError(500, {}, { idempotent: false }).retryable).toBe(false);
+    });
+
+    it('should carry the Retry-After delay on rate limit errors', () => {
+      const error = createApiError(429, {}, { idempotent: true, retryAfterMs: 1500 });
+
+      expect((error as RateLimitError).retryAfterMs).toBe(1500);
+      expect(error.retryable).toBe(true);
+    });
+  });
+
+  describe('toErrorPayload', () => {
+    it('should describe typed errors with a code and retry hint', () => {
+      const payload = toErrorPayload(
+        'Error getting offer',
+        new NotFoundError('API Error (404): Not found.')
+      );
+
+      expect(payload).toMatchObject({
+        code: 'NOT_FOUND',
+        message: 'Error getting offer: API Error (404): Not found.',
+        retryable: false,
+        status: 404,
+      });
+      expect(payload.hint).toBeTruthy();
+    });
+
+    it('should include retry_after_seconds and field details', () => {
+      expect(
+        toErrorPayload('Error', new RateLimitError('API Error (429): x', 2500))
+          .retry_after_seconds
+      ).toBe(3);
+      expect(
+        toErrorPayload('Error', new ValidationError('API Error (400): x', 400, { amount: ['Bad'] }))
+          .fields
+      ).toEqual({ amount: ['Bad'] });
+    });
+
+    it('should warn against blind retries of non-idempotent network failures', () => {
+      const payload = toErrorPayload(
+        'Error creating swap',
+        new NetworkError('Request timed out after 30000ms', { timeout: true, retryable: false })
+      );
+
+      expect(payload.code).toBe('NETWORK_ERROR');
+      expect(payload.retryable).toBe(false);
+      expect(payload.hint).toContain('get_my_swaps');
+    });
+
+    it('should name the rule behind policy violations', () => {
+      const payload = toErrorPayload(
+        'Error creating swap',
+        new PolicyViolationError(
+          'XMR is not an allowed coin (policy rule: allowed_coins)',
+          'allowed_coins'
+        )
+      );
+
+      expect(payload).toMatchObject({
+        code: 'POLICY_VIOLATION',
+        rule: 'allowed_coins',
+        retryable: false,
+      });
+      expect(payload.hint).toContain('get_policy');
+    });
+
+    it('should report untyped errors as internal errors', () => {
+      expect(toErrorPayload('Error', 'boom')).toMatchObject({
+        code: 'INTERNAL_ERROR',
+        message: 'Error: boom',
+        retryable: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  FAKE_API_TOKEN,
+  FAKE_API_USER,
+  startFakeApi,
+  type FakeApiHandle,
+} from '../src/fake-api.js';
+import { LocalCoinSwapClient } from '../src/api-client.js';
+import { AuthError, NotFoundError, ValidationError } from '../src/errors.js';
+import { createServer } from '../src/server.js';
+import { clearPendingConfirmations } from '../src/handlers.js';
+import { resetIdempotency } from '../src/idempotency.js';
+import { resetAuditLog } from '../src/audit.js';
+import type { ServerConfig } from '../src/types.js';
+
+function createClient(url: string, token = FAKE_API_TOKEN): LocalCoinSwapClient {
+  return new LocalCoinSwapClient(url, token, { cache: null, rateLimit: null, maxRetries: 0 });
+}
+
+describe('Fake LocalCoinSwap API', () => {
+  let fake: FakeApiHandle;
+  let client: LocalCoinSwapClient;
+
+  beforeEach(async () => {
+    fake = await startFakeApi({
+      tokens: { [FAKE_API_TOKEN]: FAKE_API_USER, 'alice-token': 'alice' },
+    });
+    client = createClient(fake.url);
+  });
+
+  afterEach(async () => {
+    await fake.close();
+  });
+
+  describe('Reference data', () => {
+    it('should serve currencies, payment methods and trade types', async () => {
+      const active = await client.getActiveCryptos();
+      const all = await client.getCryptoCurrencies();
+
+      expect(active.map((c) => c.symbol)).not.toContain('DOGE');
+      expect(all.map((c) => c.symbol)).toContain('DOGE');
+      expect((await client.getFiatCurrencies()).every((c) => !c.is_crypto)).toBe(true);
+      expect((await client.getCurrency('btc')).decimals).toBe(8);
+      expect((await client.getPaymentMethods()).map((m) => m.slug)).toContain('bank-transfer');
+      expect(await client.getTradeTypes()).toHaveLength(2);
+    });
+
+    it('should answer unknown resources with 404', async () => {
+      await expect(client.getCurrency('XYZ')).rejects.toThrow(NotFoundError);
+      await expect(client.getOffer('no-such-offer')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Offer search', () => {
+    it('should filter by currency, side, payment method and amount', async () => {
+      const page = await client.searchOffers({
+        coin_currency: 'BTC',
+        fiat_currency: 'USD',
+        trading_type: 'buy',
+      });
+
+      expect(page.count).toBe(3);
+      // Searching to buy finds traders who sell
+      expect(page.results.every((o) => o.trading_type === 'sell')).toBe(true);
+      expect(page.results.every((o) => o.coin_currency === 'BTC')).toBe(true);
+
+      const byMethod = await client.searchOffers({ payment_method: 'paypal' });
+      expect(byMethod.results.every((o) => o.payment_method.slug === 'paypal')).toBe(true);
+
+      expect((await client.searchOffers({ min_amount: '10000' })).count).toBe(0);
+      expect((await client.searchOffers({ max_amount: '10' })).count).toBe(0);
+    });
+
+    it('should order by price in either direction', async () => {
+      const query = { coin_currency: 'ETH', fiat_currency: 'EUR', trading_type: 'buy' as const };
+      const ascending = await client.searchOffers({ ...query, ordering: 'price' });
+      const descending = await client.searchOffers({ ...query, ordering: '-price' });
+
+      const prices = ascending.results.map((o) => Number(o.price));
+      expect(prices).toEqual([...prices].sort((a, b) => a - b));
+      expect(descending.results.map((o) => o.uuid)).toEqual(
+        ascending.results.map((o) => o.uuid).reverse()
+      );
+      await expect(client.searchOffers({ ordering: 'trader' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should paginate with links the client follows', async () => {
+      const first = await client.searchOffers({ page_size: 10 });
+      expect(first.count).toBe(36);
+      expect(first.results).toHaveLength(10);
+      expect(first.previous).toBeNull();
+      expect(first.next).toContain('page=2');
+
+      const uuids: string[] = [];
+      for await (const offer of client.paginate(() => client.searchOffers({ page_size: 10 }))) {
+        uuids.push(offer.uuid);
+      }
+      expect(new Set(uuids).size).toBe(36);
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should reject missing and unknown tokens on private endpoints', async () => {
+      await expect(createClient(fake.url, '').getMyTrades()).rejects.toThrow(
+        'Authentication credentials were not provided.'
+      );
+      await expect(createClient(fake.url, 'wrong').getMyTrades()).rejects.toThrow(AuthError);
+    });
+
+    it('should serve public endpoints without a token', async () => {
+      expect((await createClient(fake.url, '').searchOffers()).count).toBe(36);
+    });
+  });
+
+  describe('Offers', () => {
+    it('should create, update and delete the user\'s own offers', async () => {
+      const offer = await client.createOffer({
+        trading_type: 'sell',
+        coin_currency: 'BTC',
+        fiat_currency: 'USD',
+        payment_method: 'wise',
+        min_trade_size: '100',
+        max_trade_size: '1000',
+        margin: '2',
+      });
+      expect(offer.trader.username).toBe(FAKE_API_USER);
+      expect(offer.price).toBe('43860.00');
+
+      const updated = await client.updateOffer(offer.uuid, { margin: '0' });
+      expect(updated.price).toBe('43000.00');
+      expect((await client.getMyOffers()).results.map((o) => o.uuid)).toEqual([offer.uuid]);
+
+      await client.deleteOffer(offer.uuid);
+      expect((await client.getMyOffers()).count).toBe(0);
+    });
+
+    it('should not let users change other traders\' offers', async () => {
+      await expect(client.updateOffer('fake-offer-001', { margin: '0' })).rejects.toThrow(
+        AuthError
+      );
+    });
+  });
+
+  describe('Swaps', () => {
+    it('should estimate, create and complete a swap', async () => {
+      const estimate = await client.estimateSwap('ETH', 'USDT', '1');
+      expect(estimate).toMatchObject({ rate: '2200', fee: '11', to_amount: '2189' });
+
+      const swap = await client.createSwap({
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1',
+      });
+      expect(swap.status).toBe('awaiting_deposit');
+      expect((await client.getActiveSwaps()).count).toBe(1);
+
+      fake.api.setSwapStatus(swap.uuid, 'completed');
+      const completed = await client.getSwap(swap.uuid);
+      expect(completed.status).toBe('completed');
+      expect(completed.transaction_hash).toBeDefined();
+      expect((await client.getPastSwaps()).count).toBe(1);
+    });
+
+    it('should enforce the minimum swap amount', async () => {
+      const { min_amount } = await client.getMinSwapAmount('BTC', 'USDT');
+      expect(min_amount).toBe('0.00023256');
+
+      await expect(
+        client.createSwap({ from_currency: 'BTC', to_currency: 'USDT', from_amount: '0.0001' })
+      ).rejects.toThrow('Ensure this value is at least 0.00023256');
+    });
+  });
+
+  describe('Trades', () => {
+    it('should move a trade through paid and released by the right parties', async () => {
+      // fake-offer-001 is alice selling BTC for USD
+      const trade = await client.startTrade({ offer_uuid: 'fake-offer-001', amount: '500' });
+      expect(trade.status).toBe('active');
+      expect(trade.buyer?.username).toBe(FAKE_API_USER);
+      expect(trade.seller?.username).toBe('alice');
+
+      await expect(client.releaseTrade(trade.uuid)).rejects.toThrow(
+        'Only the seller can release this trade.'
+      );
+      expect((await client.markTradePaid(trade.uuid)).status).toBe('paid');
+      await expect(client.cancelTrade(trade.uuid)).rejects.toThrow(
+        'Cannot cancel a trade that is "paid".'
+      );
+
+      const alice = createClient(fake.url, 'alice-token');
+      expect((await alice.releaseTrade(trade.uuid)).status).toBe('completed');
+
+      const feedback = await client.leaveFeedback({
+        trade_uuid: trade.uuid,
+        rating: 'positive',
+        comment: 'Quick release',
+      });
+      expect(feedback.to_user?.username).toBe('alice');
+      expect((await client.getUserFeedback('alice')).count).toBe(1);
+    });
+
+    it('should validate the trade amount and the offer', async () => {
+      await expect(
+        client.startTrade({ offer_uuid: 'fake-offer-001', amount: '10' })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        client.startTrade({ offer_uuid: 'no-such-offer', amount: '100' })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should keep trades private to their participants', async () => {
+      const trade = await client.startTrade({ offer_uuid: 'fake-offer-002', amount: '100' });
+      const stranger = createClient(fake.url, 'alice-token');
+
+      // fake-offer-002 belongs to bob, so alice is not a party to the trade
+      await expect(stranger.getTrade(trade.uuid)).rejects.toThrow(NotFoundError);
+      expect((await stranger.getMyTrades()).count).toBe(0);
+    });
+
+    it('should support chat and disputes', async () => {
+      const trade = await client.startTrade({ offer_uuid: 'fake-offer-001', amount: '100' });
+
+      await client.sendTradeMessage(trade.uuid, 'Paying now');
+      expect((await client.getTradeMessages(trade.uuid)).results[0].message).toBe('Paying now');
+
+      await client.openDispute(trade.uuid, 'No response');
+      await client.addDisputeEvidence(trade.uuid, 'Screenshot of transfer');
+      const dispute = await client.getDispute(trade.uuid);
+      expect(dispute.evidence).toHaveLength(1);
+      expect((await client.getTrade(trade.uuid)).status).toBe('disputed');
+    });
+  });
+});
+
+describe('End-to-end through the MCP server', () => {
+  let fake: FakeApiHandle;
+  let mcpClient: Client;
+
+  async function call(name: string, args: Record<string, unknown>) {
+    const result = await mcpClient.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+    return { isError: result.isError, body: JSON.parse(text) };
+  }
+
+  beforeEach(async () => {
+    fake = await startFakeApi();
+    const config: ServerConfig = {
+      apiToken: FAKE_API_TOKEN,
+      apiUrl: fake.url,
+      requireConfirmation: true,
+    };
+    const server = createServer(config, createClient(config.apiUrl));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    mcpClient = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    await fake.close();
+    clearPendingConfirmations();
+    resetIdempotency();
+    resetAuditLog();
+  });
+
+  it('should search offers and follow pages with a cursor', async () => {
+    const first = await call('search_offers', { coin_currency: 'BTC', limit: 5 });
+    expect(first.body.offers).toHaveLength(5);
+    expect(first.body.total_count).toBe(12);
+
+    const second = await call('search_offers', {
+      coin_currency: 'BTC',
+      limit: 10,
+      cursor: first.body.next_cursor,
+    });
+    expect(second.body.offers).toHaveLength(7);
+    expect(second.body.next_cursor).toBeNull();
+  });
+
+  it('should confirm and start a trade, then mark it paid', async () => {
+    const pending = await call('start_trade', { offer_uuid: 'fake-offer-001', amount: '250' });
+    expect(pending.body.status).toBe('confirmation_required');
+
+    const started = await call('start_trade', {
+      offer_uuid: 'fake-offer-001',
+      amount: '250',
+      confirmation_id: pending.body.confirmation_id,
+    });
+    expect(started.body.status).toBe('trade_started');
+
+    const paid = await call('mark_trade_paid', { uuid: started.body.trade.uuid, confirm: true });
+    expect(paid.body.trade.status).toBe('paid');
+
+    const trades = await call('get_my_trades', {});
+    expect(trades.body.results).toHaveLength(1);
+  });
+
+  it('should surface API validation errors as structured tool errors', async () => {
+    const result = await call('create_swap', {
+      from_currency: 'BTC',
+      to_currency: 'USDT',
+      from_amount: '0.0001',
+      confirm: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.body.error.code).toBe('VALIDATION_ERROR');
+    expect(result.body.error.fields.from_amount).toEqual([
+      'Ensure this value is at least 0.00023256.',
+    ]);
+  });
+});
@@ -8,19 +8,56 @@ import {
   handleGetMyOffers,
   handleListPaymentMethods,
   handleListTradeTypes,
+  handleCreateOffer,
+  handleUpdateOffer,
+  handleDeleteOffer,
+  handleSetOffersActive,
+  handleConfigureRepricer,
+  handleGetRepricerStatus,
   handleEstimateSwap,
   handleGetMinSwapAmount,
   handleGetMySwaps,
+  handleGetSwap,
+  handleWaitForSwap,
   handleCreateSwap,
   handleStartTrade,
   handleGetMyTrades,
   handleGetTrade,
+  handleMarkTradePaid,
+  handleReleaseTrade,
+  handleCancelTrade,
+  handleGetTradeMessages,
+  handleSendTradeMessage,
+  handleOpenDispute,
+  handleGetDispute,
+  handleAddDisputeEvidence,
+  handleLeaveFeedback,
+  handleGetUserFeedback,
+  handleCacheStats,
+  handleGetAuditLog,
   clearPendingConfirmations,
   getPendingConfirmation,
   startConfirmationCleanup,
   stopConfirmationCleanup,
 } from '../src/handlers.js';
 import { LocalCoinSwapClient } from '../src/api-client.js';
+import { resetRepricer } from '../src/repricer.js';
+import {
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from '../src/errors.js';
+import { resetIdempotency } from '../src/idempotency.js';
+import {
+  FAKE_API_TOKEN,
+  FAKE_API_USER,
+  startFakeApi,
+  type FakeApiHandle,
+} from '../src/fake-api.js';
+import { configurePolicy, getPolicyStatus, parsePolicy, resetPolicy } from '../src/policy.js';
+import { appendAuditEntry, resetAuditLog } from '../src/audit.js';
 import type { ServerConfig } from '../src/types.js';
 import {
   mockCurrencies,
@@ -35,6 +72,12 @@ import {
   mockPaginatedSwaps,
   mockTrade,
   mockPaginatedTrades,
+  mockTradeMessages,
+  mockPaginatedTradeMessages,
+  mockDispute,
+  mockTrader,
+  mockFeedback,
+  mockPaginatedFeedback,
 } from './mocks.js';
 
 describe('Tool Handlers', () => {
@@ -58,10 +101,26 @@ describe('Tool Handlers', () => {
       getActiveSwaps: vi.fn().mockResolvedValue(mockPaginatedSwaps),
       getPastSwaps: vi.fn().mockResolvedValue(mockPaginatedSwaps),
       getSwaps: vi.fn().mockResolvedValue(mockPaginatedSwaps),
+      getSwap: vi.fn().mockResolvedValue(mockSwap),
       createSwap: vi.fn().mockResolvedValue(mockSwap),
       startTrade: vi.fn().mockResolvedValue(mockTrade),
       getTrade: vi.fn().mockResolvedValue(mockTrade),
       getMyTrades: vi.fn().mockResolvedValue(mockPaginatedTrades),
+      getPage: vi.fn(),
+      paginate: LocalCoinSwapClient.prototype.paginate,
+      markTradePaid: vi.fn().mockResolvedValue({ ...mockTrade, status: 'paid' }),
+      releaseTrade: vi.fn().mockResolvedValue({ ...mockTrade, status: 'completed' }),
+      cancelTrade: vi.fn().mockResolvedValue({ ...mockTrade, status: 'cancelled' }),
+      getTradeMessages: vi.fn().mockResolvedValue(mockPaginatedTradeMessages),
+      sendTradeMessage: vi.fn().mockResolvedValue(mockTradeMessages[0]),
+      getDispute: vi.fn().mockResolvedValue(mockDispute),
+      leaveFeedback: vi.fn().mockResolvedValue(mockFeedback),
+      getUserProfile: vi.fn().mockResolvedValue(mockTrader),
+      getUserFeedback: vi.fn().mockResolvedValue(mockPaginatedFeedback),
+      getCacheStats: vi
+        .fn()
+        .mockResolvedValue({ store: 'memory', entries: 2, hits: 3, misses: 2, hit_rate: 0.6 }),
+      invalidateCache: vi.fn().mockResolvedValue(2),
     } as unknown as LocalCoinSwapClient;
 
     config = {
@@ -76,6 +135,7 @@ describe('Tool Handlers', () => {
   afterEach(() => {
     vi.restoreAllMocks();
     clearPendingConfirmations();
+    resetIdempotency();
   });
 
   describe('Currency handlers', () => {
@@ -155,7 +215,11 @@ describe('Tool Handlers', () => {
       const result = await handleGetMyOffers(mockClient, noTokenConfig);
 
       expect(result.isError).toBe(true);
-      expect(result.content[0].text).toContain('API token not configured');
+      expect(JSON.parse(result.content[0].text).error).toMatchObject({
+        code: 'AUTH_ERROR',
+        message: 'API token not configured. Set LCS_API_TOKEN environment variable.',
+        retryable: false,
+      });
     });
 
     it('handleGetMyOffers should fetch offers when authenticated', async () => {
@@ -216,6 +280,93 @@ describe('Tool Handlers', () => {
       const result = await handleGetMySwaps(mockClient, noTokenConfig, {});
       expect(result.isError).toBe(true);
     });
+
+    it('handleGetSwap should fetch a specific swap', async () => {
+      const result = await handleGetSwap(mockClient, config, { uuid: 'swap-uuid-abc' });
+
+      expect(mockClient.getSwap).toHaveBeenCalledWith('swap-uuid-abc');
+      expect(JSON.parse(result.content[0].text).uuid).toBe('swap-uuid-abc');
+    });
+
+    describe('handleWaitForSwap', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should poll until the swap reaches a terminal status', async () => {
+        (mockClient.getSwap as ReturnType<typeof vi.fn>)
+          .mockResolvedValueOnce({ ...mockSwap, status: 'pending', transaction_hash: undefined })
+          .mockResolvedValueOnce({ ...mockSwap, status: 'processing', transaction_hash: undefined })
+          .mockResolvedValueOnce(mockSwap);
+
+        const promise = handleWaitForSwap(mockClient, config, {
+          uuid: 'swap-uuid-abc',
+          poll_interval_seconds: 5,
+        });
+        await vi.advanceTimersByTimeAsync(10000);
+        const result = await promise;
+
+        const parsed = JSON.parse(result.content[0].text);
+        expect(parsed.status).toBe('swap_finished');
+        expect(parsed.swap_status).toBe('completed');
+        expect(parsed.transaction_hash).toBe('0x123abc...');
+        expect(mockClient.getSwap).toHaveBeenCalledTimes(3);
+      });
+
+      it('should return timeout when the swap does not finish in time', async () => {
+        (mockClient.getSwap as ReturnType<typeof vi.fn>).mockResolvedValue({
+          ...mockSwap,
+          status: 'pending',
+        });
+
+        const promise = handleWaitForSwap(mockClient, config, {
+          uuid: 'swap-uuid-abc',
+          timeout_seconds: 20,
+          poll_interval_seconds: 5,
+        });
+        await vi.advanceTimersByTimeAsync(20000);
+        const result = await promise;
+
+        const parsed = JSON.parse(result.content[0].text);
+        expect(parsed.status).toBe('timeout');
+        expect(parsed.swap_status).toBe('pending');
+        expect(result.isError).toBeUndefined();
+      });
+
+      it('should stop waiting before the default MCP request timeout', async () => {
+        (mockClient.getSwap as ReturnType<typeof vi.fn>).mockResolvedValue({
+          ...mockSwap,
+          status: 'pending',
+        });
+
+        const promise = handleWaitForSwap(mockClient, config, { uuid: 'swap-uuid-abc' });
+        await vi.advanceTimersByTimeAsync(45000);
+        const result = await promise;
+
+        const parsed = JSON.parse(result.content[0].text);
+        expect(parsed.status).toBe('timeout');
+        expect(parsed.elapsed_seconds).toBeLessThan(60);
+      });
+
+      it('should validate timeout and poll interval', async () => {
+        const badTimeout = await handleWaitForSwap(mockClient, config, {
+          uuid: 'swap-uuid-abc',
+          timeout_seconds: 5000,
+        });
+        expect(badTimeout.isError).toBe(true);
+
+        const badInterval = await handleWaitForSwap(mockClient, config, {
+          uuid: 'swap-uuid-abc',
+          poll_interval_seconds: 0.5,
+        });
+        expect(badInterval.isError).toBe(true);
+        expect(mockClient.getSwap).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('Trade handlers', () => {
@@ -242,6 +393,288 @@ describe('Tool Handlers', () => {
     });
   });
 
+  describe('List pagination', () => {
+    const tradesUrl = 'https://api.test.com/api/v2/trades/';
+    const firstPage = {
+      count: 5,
+      next: `${tradesUrl}?page=2`,
+      previous: null,
+      results: [
+        { ...mockTrade, uuid: 't1' },
+        { ...mockTrade, uuid: 't2' },
+        { ...mockTrade, uuid: 't3' },
+      ],
+    };
+    const secondPage = {
+      count: 5,
+      next: null,
+      previous: tradesUrl,
+      results: [
+        { ...mockTrade, uuid: 't4' },
+        { ...mockTrade, uuid: 't5' },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockClient.getMyTrades).mockResolvedValue(firstPage);
+      vi.mocked(mockClient.getPage).mockResolvedValue(secondPage);
+    });
+
+    it('should return one page with a next_cursor by default', async () => {
+      const result = await handleGetMyTrades(mockClient, config);
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(parsed.count).toBe(5);
+      expect(parsed.results).toHaveLength(3);
+      expect(parsed.next_cursor).toEqual(expect.any(String));
+      expect(mockClient.getPage).not.toHaveBeenCalled();
+    });
+
+    it('should follow next links up to the limit', async () => {
+      const result = await handleGetMyTrades(mockClient, config, { limit: 4 });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(parsed.results.map((t: { uuid: string }) => t.uuid)).toEqual([
+        't1',
+        't2',
+        't3',
+        't4',
+      ]);
+      expect(mockClient.getPage).toHaveBeenCalledWith(`${tradesUrl}?page=2`);
+    });
+
+    it('should continue from next_cursor', async () => {
+      const first = await handleGetMyTrades(mockClient, config, { limit: 4 });
+      const { next_cursor } = JSON.parse(first.content[0].text);
+
+      const result = await handleGetMyTrades(mockClient, config, { limit: 4, cursor: next_cursor });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(parsed.results.map((t: { uuid: string }) => t.uuid)).toEqual(['t5']);
+      expect(parsed.next_cursor).toBeNull();
+    });
+
+    it('should reject a cursor from another list', async () => {
+      const trades = await handleGetMyTrades(mockClient, config);
+      const { next_cursor } = JSON.parse(trades.content[0].text);
+
+      const result = await handleGetMySwaps(mockClient, config, { cursor: next_cursor });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid cursor');
+      expect(mockClient.getSwaps).not.toHaveBeenCalled();
+    });
+
+    it('should reject an out of range limit', async () => {
+      const result = await handleGetMyOffers(mockClient, config, { limit: 0 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid limit');
+    });
+
+    it('should add next_cursor to offer search results', async () => {
+      const result = await handleSearchOffers(mockClient, { coin_currency: 'BTC', limit: 1 });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(parsed.offers).toHaveLength(1);
+      expect(parsed.page_info.has_next).toBe(true);
+      expect(parsed.next_cursor).toEqual(expect.any(String));
+    });
+  });
+
+  describe('Trade chat handlers', () => {
+    it('handleGetTradeMessages should list messages with attachment metadata', async () => {
+      const result = await handleGetTradeMessages(mockClient, config, { uuid: 'trade-uuid-def' });
+
+      expect(mockClient.getTradeMessages).toHaveBeenCalledWith('trade-uuid-def');
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.total_count).toBe(2);
+      expect(parsed.messages[0].sender).toBe('testtrader');
+      expect(parsed.messages[0].attachment).toBeUndefined();
+      expect(parsed.messages[1].attachment).toEqual({
+        filename: 'receipt.png',
+        content_type: 'image/png',
+        size: 20480,
+        url: 'https://files.localcoinswap.com/receipt.png',
+      });
+    });
+
+    it('handleSendTradeMessage should send trimmed message', async () => {
+      const result = await handleSendTradeMessage(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        message: '  Payment sent  ',
+      });
+
+      expect(mockClient.sendTradeMessage).toHaveBeenCalledWith('trade-uuid-def', 'Payment sent');
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('message_sent');
+    });
+
+    it('handleSendTradeMessage should reject empty messages', async () => {
+      const result = await handleSendTradeMessage(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        message: '   ',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockClient.sendTradeMessage).not.toHaveBeenCalled();
+    });
+
+    it('handleSendTradeMessage should reject overly long messages', async () => {
+      const result = await handleSendTradeMessage(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        message: 'x'.repeat(2001),
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('at most 2000 characters');
+    });
+
+    it('handleGetTradeMessages should require API token', async () => {
+      const noTokenConfig = { ...config, apiToken: '' };
+      const result = await handleGetTradeMessages(mockClient, noTokenConfig, { uuid: 'test' });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('Dispute handlers', () => {
+    it('handleGetDispute should fetch the dispute for a trade', async () => {
+      const result = await handleGetDispute(mockClient, config, { uuid: 'trade-uuid-def' });
+
+      expect(mockClient.getDispute).toHaveBeenCalledWith('trade-uuid-def');
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('open');
+      expect(parsed.evidence).toHaveLength(1);
+    });
+
+    it('handleGetDispute should require API token', async () => {
+      const noTokenConfig = { ...config, apiToken: '' };
+      const result = await handleGetDispute(mockClient, noTokenConfig, { uuid: 'test' });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('Feedback handlers', () => {
+    it('handleLeaveFeedback should leave feedback on a completed trade', async () => {
+      (mockClient.getTrade as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockTrade,
+        status: 'completed',
+      });
+
+      const result = await handleLeaveFeedback(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        rating: 'positive',
+        comment: ' Fast and smooth trade ',
+      });
+
+      expect(mockClient.leaveFeedback).toHaveBeenCalledWith({
+        trade_uuid: 'trade-uuid-def',
+        rating: 'positive',
+        comment: 'Fast and smooth trade',
+      });
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('feedback_left');
+    });
+
+    it('handleLeaveFeedback should refuse when trade is not completed', async () => {
+      const result = await handleLeaveFeedback(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        rating: 'negative',
+        comment: 'Never paid',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('only be left on completed trades');
+      expect(mockClient.leaveFeedback).not.toHaveBeenCalled();
+    });
+
+    it('handleLeaveFeedback should reject empty comments', async () => {
+      const result = await handleLeaveFeedback(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        rating: 'neutral',
+        comment: '',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockClient.getTrade).not.toHaveBeenCalled();
+    });
+
+    it('handleLeaveFeedback should require API token', async () => {
+      const noTokenConfig = { ...config, apiToken: '' };
+      const result = await handleLeaveFeedback(mockClient, noTokenConfig, {
+        uuid: 'trade-uuid-def',
+        rating: 'positive',
+        comment: 'Great',
+      });
+      expect(result.isError).toBe(true);
+    });
+
+    it('handleGetUserFeedback should combine profile and feedback list', async () => {
+      const result = await handleGetUserFeedback(mockClient, { username: 'testtrader' });
+
+      expect(mockClient.getUserProfile).toHaveBeenCalledWith('testtrader');
+      expect(mockClient.getUserFeedback).toHaveBeenCalledWith('testtrader');
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.user.feedback_score).toBe(98.5);
+      expect(parsed.feedback[0]).toMatchObject({ rating: 'positive', from: 'buyer123' });
+    });
+
+    it('handleGetUserFeedback should reject invalid usernames', async () => {
+      const result = await handleGetUserFeedback(mockClient, { username: '../admin' });
+
+      expect(result.isError).toBe(true);
+      expect(mockClient.getUserFeedback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Cache handlers', () => {
+    it('handleCacheStats should report cache statistics', async () => {
+      const result = await handleCacheStats(mockClient);
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed).toMatchObject({ enabled: true, store: 'memory', hits: 3 });
+      expect(mockClient.invalidateCache).not.toHaveBeenCalled();
+    });
+
+    it('handleCacheStats should clear the cache when requested', async () => {
+      const result = await handleCacheStats(mockClient, { clear: true });
+
+      expect(mockClient.invalidateCache).toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).cleared).toBe(2);
+    });
+
+    it('handleCacheStats should report a disabled cache', async () => {
+      vi.mocked(mockClient.getCacheStats).mockResolvedValue(null);
+
+      const result = await handleCacheStats(mockClient);
+
+      expect(JSON.parse(result.content[0].text)).toEqual({ enabled: false });
+    });
+  });
+
+  describe('Audit handlers', () => {
+    afterEach(() => {
+      resetAuditLog();
+    });
+
+    it('handleGetAuditLog should return entries and the chain status', async () => {
+      await appendAuditEntry({ tool: 'create_swap', params: {}, outcome: 'ok', duration_ms: 3 });
+
+      const result = await handleGetAuditLog({ tool: 'create_swap' });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(parsed.chain).toEqual({ valid: true, entries: 1 });
+      expect(parsed.entries[0].tool).toBe('create_swap');
+    });
+
+    it('handleGetAuditLog should reject invalid timestamps', async () => {
+      const result = await handleGetAuditLog({ since: 'yesterday' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid since');
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle API errors gracefully', async () => {
       (mockClient.getCryptoCurrencies as ReturnType<typeof vi.fn>).mockRejectedValue(
@@ -265,6 +698,46 @@ describe('Tool Handlers', () => {
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('String error');
     });
+
+    it('should return a structured payload for typed API errors', async () => {
+      vi.mocked(mockClient.getOffer).mockRejectedValue(
+        new NotFoundError('API Error (404): Not found.')
+      );
+
+      const result = await handleGetOffer(mockClient, { uuid: 'gone' });
+
+      expect(result.isError).toBe(true);
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error).toMatchObject({
+        code: 'NOT_FOUND',
+        message: 'Error getting offer: API Error (404): Not found.',
+        retryable: false,
+        status: 404,
+      });
+    });
+
+    it('should distinguish a bad token from a missing resource', async () => {
+      vi.mocked(mockClient.getTrade).mockRejectedValue(
+        new AuthError('API Error (401): Invalid token.', 401)
+      );
+
+      const result = await handleGetTrade(mockClient, config, { uuid: 'trade-uuid-def' });
+
+      expect(JSON.parse(result.content[0].text).error.code).toBe('AUTH_ERROR');
+    });
+
+    it('should surface rate limit retry hints', async () => {
+      vi.mocked(mockClient.searchOffers).mockRejectedValue(
+        new RateLimitError('API Error (429): Request was throttled.', 5000)
+      );
+
+      const result = await handleSearchOffers(mockClient, {});
+
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error.code).toBe('RATE_LIMITED');
+      expect(error.retryable).toBe(true);
+      expect(error.retry_after_seconds).toBe(5);
+    });
   });
 });
 
@@ -377,7 +850,7 @@ describe('Input Validation', () => {
 
     it('should reject negative min_amount', async () => {
       const result = await handleSearchOffers(mockClient, {
-        min_amount: -100,
+        min_amount: '-100',
       });
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('min_amount must be non-negative');
@@ -385,7 +858,7 @@ describe('Input Validation', () => {
 
     it('should reject negative max_amount', async () => {
       const result = await handleSearchOffers(mockClient, {
-        max_amount: -100,
+        max_amount: '-100',
       });
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('max_amount must be non-negative');
@@ -413,6 +886,68 @@ describe('Input Validation', () => {
       expect(result.content[0].text).toContain('Invalid amount');
     });
   });
+
+  describe('Currency precision', () => {
+    it('should reject amounts with more decimals than the currency supports', async () => {
+      const result = await handleEstimateSwap(mockClient, {
+        from_currency: 'BTC',
+        to_currency: 'USDT',
+        amount: '0.123456789',
+      });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('BTC supports at most 8 decimal places');
+      expect(mockClient.estimateSwap).not.toHaveBeenCalled();
+    });
+
+    it('should pass 18-decimal amounts through unchanged', async () => {
+      vi.mocked(mockClient.getCurrency).mockResolvedValue(mockCurrencies[1]);
+
+      const result = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.000000000000000001',
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(mockClient.getCurrency).toHaveBeenCalledWith('ETH');
+      expect(mockClient.createSwap).toHaveBeenCalledWith({
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.000000000000000001',
+      });
+    });
+
+    it('should check trade amounts against the offer fiat currency', async () => {
+      vi.mocked(mockClient.getCurrency).mockResolvedValue({ ...mockFiatCurrencies[0], decimals: 2 });
+
+      const result = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '100.125',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('USD supports at most 2 decimal places');
+      expect(mockClient.getCurrency).toHaveBeenCalledWith(mockOffer.fiat_currency);
+      expect(mockClient.startTrade).not.toHaveBeenCalled();
+    });
+
+    it('should skip the check for currencies without a precision', async () => {
+      vi.mocked(mockClient.getCurrency).mockResolvedValue(mockFiatCurrencies[0]);
+
+      const result = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '100.125',
+      });
+
+      expect(result.isError).toBeUndefined();
+    });
+
+    it('should reject search amounts that are not decimals', async () => {
+      const result = await handleSearchOffers(mockClient, { min_amount: '1e3' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('min_amount must be a decimal number');
+    });
+  });
 });
 
 describe('Confirmation System', () => {
@@ -436,10 +971,22 @@ describe('Confirmation System', () => {
       getActiveSwaps: vi.fn().mockResolvedValue(mockPaginatedSwaps),
       getPastSwaps: vi.fn().mockResolvedValue(mockPaginatedSwaps),
       getSwaps: vi.fn().mockResolvedValue(mockPaginatedSwaps),
+      getSwap: vi.fn().mockResolvedValue(mockSwap),
       createSwap: vi.fn().mockResolvedValue(mockSwap),
       startTrade: vi.fn().mockResolvedValue(mockTrade),
       getTrade: vi.fn().mockResolvedValue(mockTrade),
       getMyTrades: vi.fn().mockResolvedValue(mockPaginatedTrades),
+      getPage: vi.fn(),
+      paginate: LocalCoinSwapClient.prototype.paginate,
+      markTradePaid: vi.fn().mockResolvedValue({ ...mockTrade, status: 'paid' }),
+      releaseTrade: vi.fn().mockResolvedValue({ ...mockTrade, status: 'completed' }),
+      cancelTrade: vi.fn().mockResolvedValue({ ...mockTrade, status: 'cancelled' }),
+      createOffer: vi.fn().mockResolvedValue(mockOffer),
+      updateOffer: vi.fn().mockResolvedValue(mockOffer),
+      deleteOffer: vi.fn().mockResolvedValue(undefined),
+      openDispute: vi.fn().mockResolvedValue(mockDispute),
+      getDispute: vi.fn().mockResolvedValue(mockDispute),
+      addDisputeEvidence: vi.fn().mockResolvedValue(mockDispute.evidence[0]),
     } as unknown as LocalCoinSwapClient;
 
     config = {
@@ -455,6 +1002,7 @@ describe('Confirmation System', () => {
     vi.restoreAllMocks();
     clearPendingConfirmations();
     stopConfirmationCleanup();
+    resetIdempotency();
   });
 
   describe('handleCreateSwap confirmation', () => {
@@ -619,94 +1167,542 @@ describe('Confirmation System', () => {
     });
   });
 
-  describe('handleStartTrade confirmation', () => {
-    it('should require confirmation when requireConfirmation is true', async () => {
-      const result = await handleStartTrade(mockClient, config, {
-        offer_uuid: 'offer-uuid-456',
-        amount: '500',
-      });
-
-      const parsed = JSON.parse(result.content[0].text);
-      expect(parsed.status).toBe('confirmation_required');
-      expect(parsed.confirmation_id).toBeDefined();
-      expect(parsed.trade_details).toBeDefined();
-      expect(mockClient.startTrade).not.toHaveBeenCalled();
+  describe('handleCreateSwap slippage protection', () => {
+    afterEach(() => {
+      resetPolicy();
     });
 
-    it('should execute trade when confirm is true', async () => {
-      const result = await handleStartTrade(mockClient, config, {
-        offer_uuid: 'offer-uuid-456',
-        amount: '500',
-        confirm: true,
+    it('should lock the quoted amount in the pending confirmation', async () => {
+      const result = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 1,
       });
 
       const parsed = JSON.parse(result.content[0].text);
-      expect(parsed.status).toBe('trade_started');
-      expect(mockClient.startTrade).toHaveBeenCalled();
+      expect(parsed.swap_details.max_slippage_percent).toBe(1);
+      expect(getPendingConfirmation(parsed.confirmation_id)?.quote?.to_amount).toBe('2150.00');
     });
 
-    it('should reject confirmation_id with changed offer_uuid', async () => {
-      const firstResult = await handleStartTrade(mockClient, config, {
-        offer_uuid: 'offer-uuid-456',
-        amount: '500',
+    it('should execute when the new quote is within the allowed slippage', async () => {
+      const firstResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 1,
       });
-
       const { confirmation_id } = JSON.parse(firstResult.content[0].text);
 
-      const secondResult = await handleStartTrade(mockClient, config, {
-        offer_uuid: 'different-offer', // CHANGED
-        amount: '500',
+      (mockClient.estimateSwap as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockSwapEstimate,
+        to_amount: '2140.00', // ~0.47% worse
+      });
+
+      const secondResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 1,
         confirmation_id,
       });
 
-      expect(secondResult.isError).toBe(true);
-      expect(secondResult.content[0].text).toContain('parameters do not match');
+      expect(JSON.parse(secondResult.content[0].text).status).toBe('swap_created');
+      expect(mockClient.estimateSwap).toHaveBeenCalledTimes(2);
     });
 
-    it('should reject confirmation_id with changed amount', async () => {
-      const firstResult = await handleStartTrade(mockClient, config, {
-        offer_uuid: 'offer-uuid-456',
-        amount: '500',
+    it('should refuse when the new quote is worse than the allowed slippage', async () => {
+      const firstResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 0.5,
       });
-
       const { confirmation_id } = JSON.parse(firstResult.content[0].text);
 
-      const secondResult = await handleStartTrade(mockClient, config, {
-        offer_uuid: 'offer-uuid-456',
-        amount: '9999', // CHANGED
-        confirmation_id,
+      (mockClient.estimateSwap as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockSwapEstimate,
+        to_amount: '2100.00', // ~2.3% worse
+      });
+
+      const secondResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 0.5,
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      const parsed = JSON.parse(secondResult.content[0].text);
+      expect(parsed.status).toBe('slippage_exceeded');
+      expect(parsed.quoted_to_amount).toBe('2150.00');
+      expect(parsed.current_to_amount).toBe('2100.00');
+      expect(mockClient.createSwap).not.toHaveBeenCalled();
+    });
+
+    it('should execute when the new quote is better than the locked quote', async () => {
+      const firstResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 0,
+      });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      (mockClient.estimateSwap as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockSwapEstimate,
+        to_amount: '2200.00',
+      });
+
+      const secondResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 0,
+        confirmation_id,
+      });
+
+      expect(JSON.parse(secondResult.content[0].text).status).toBe('swap_created');
+    });
+
+    it('should reject confirmation_id with a loosened slippage limit', async () => {
+      const firstResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 0.5,
+      });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 50, // CHANGED
+        confirmation_id,
       });
 
       expect(secondResult.isError).toBe(true);
       expect(secondResult.content[0].text).toContain('parameters do not match');
     });
 
-    it('should reject swap confirmation_id for trade action', async () => {
-      // Get a swap confirmation ID
-      const swapResult = await handleCreateSwap(mockClient, config, {
+    it('should refuse a slippage limit without a confirmation to check it against', async () => {
+      const result = await handleCreateSwap(mockClient, config, {
         from_currency: 'ETH',
         to_currency: 'USDT',
         from_amount: '1.0',
+        max_slippage_percent: 1,
+        confirm: true,
       });
 
-      const { confirmation_id } = JSON.parse(swapResult.content[0].text);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('checked against the quote locked by a confirmation');
+      expect(mockClient.createSwap).not.toHaveBeenCalled();
 
-      // Try to use it for a trade
-      const tradeResult = await handleStartTrade(mockClient, config, {
+      const unconfirmed = await handleCreateSwap(
+        mockClient,
+        { ...config, requireConfirmation: false },
+        { from_currency: 'ETH', to_currency: 'USDT', from_amount: '1.0', max_slippage_percent: 1 }
+      );
+      expect(unconfirmed.isError).toBe(true);
+      expect(mockClient.createSwap).not.toHaveBeenCalled();
+    });
+
+    it('should lock a quote instead of auto-approving when a slippage limit is set', async () => {
+      configurePolicy(parsePolicy({ auto_approve_below: { ETH: '5' } }));
+
+      const result = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 1,
+      });
+
+      expect(JSON.parse(result.content[0].text).status).toBe('confirmation_required');
+      expect(mockClient.createSwap).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to check slippage against a zero quote', async () => {
+      (mockClient.estimateSwap as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ...mockSwapEstimate,
+        to_amount: '0',
+      });
+      const firstResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 1,
+      });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: 1,
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      expect(secondResult.content[0].text).toContain('no amount to check slippage against');
+      expect(mockClient.createSwap).not.toHaveBeenCalled();
+    });
+
+    it('should reject an out-of-range max_slippage_percent', async () => {
+      const result = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+        max_slippage_percent: -1,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('max_slippage_percent must be between 0 and 100');
+    });
+  });
+
+  describe('Spending policy', () => {
+    afterEach(() => {
+      resetPolicy();
+    });
+
+    it('should block actions that break a rule with a structured error', async () => {
+      configurePolicy(parsePolicy({ allowed_coins: ['BTC', 'ETH'] }));
+
+      const result = await handleCreateSwap(mockClient, config, {
+        from_currency: 'BTC',
+        to_currency: 'USDT',
+        from_amount: '0.1',
+      });
+
+      expect(result.isError).toBe(true);
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error.code).toBe('POLICY_VIOLATION');
+      expect(error.rule).toBe('allowed_coins');
+      expect(error.message).toContain('USDT is not an allowed coin');
+      expect(mockClient.estimateSwap).not.toHaveBeenCalled();
+      expect(mockClient.createSwap).not.toHaveBeenCalled();
+    });
+
+    it('should check the policy again when a confirmed action is executed', async () => {
+      const first = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '500',
+      });
+      const { confirmation_id } = JSON.parse(first.content[0].text);
+
+      configurePolicy(parsePolicy({ min_counterparty_trades: 1000 }));
+      const result = await handleStartTrade(mockClient, config, {
         offer_uuid: 'offer-uuid-456',
         amount: '500',
         confirmation_id,
       });
 
-      expect(tradeResult.isError).toBe(true);
-      expect(tradeResult.content[0].text).toContain('different action');
+      expect(JSON.parse(result.content[0].text).error.rule).toBe('min_counterparty_trades');
+      expect(mockClient.startTrade).not.toHaveBeenCalled();
     });
 
-    it('should skip confirmation when requireConfirmation is false', async () => {
-      const noConfirmConfig = { ...config, requireConfirmation: false };
-      const result = await handleStartTrade(mockClient, noConfirmConfig, {
+    it('should skip confirmation below the auto-approve threshold', async () => {
+      configurePolicy(parsePolicy({ auto_approve_below: { USD: '100' } }));
+
+      const result = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '50',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('trade_started');
+      expect(parsed.auto_approved).toBe(true);
+      expect(mockClient.startTrade).toHaveBeenCalledWith({
+        offer_uuid: 'offer-uuid-456',
+        amount: '50',
+      });
+    });
+
+    it('should still require confirmation at or above the threshold', async () => {
+      configurePolicy(parsePolicy({ auto_approve_below: { USD: '100' } }));
+
+      const result = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '100',
+      });
+
+      expect(JSON.parse(result.content[0].text).status).toBe('confirmation_required');
+      expect(mockClient.startTrade).not.toHaveBeenCalled();
+    });
+
+    it('should count executed swaps towards the daily limit', async () => {
+      configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+      const swap = { from_currency: 'BTC', to_currency: 'USDT', confirm: true };
+
+      const first = await handleCreateSwap(mockClient, config, { ...swap, from_amount: '0.6' });
+      expect(first.isError).toBeUndefined();
+
+      const second = await handleCreateSwap(mockClient, config, { ...swap, from_amount: '0.5' });
+      expect(JSON.parse(second.content[0].text).error.rule).toBe('max_amount_per_day');
+      expect(mockClient.createSwap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let concurrent swaps pass the same daily limit check', async () => {
+      configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+      const swap = { from_currency: 'BTC', to_currency: 'USDT', confirm: true };
+
+      const [first, second] = await Promise.all([
+        handleCreateSwap(mockClient, config, { ...swap, from_amount: '0.8' }),
+        handleCreateSwap(mockClient, config, { ...swap, from_amount: '0.7' }),
+      ]);
+
+      expect(first.isError).toBeUndefined();
+      expect(JSON.parse(second.content[0].text).error.rule).toBe('max_amount_per_day');
+      expect(mockClient.createSwap).toHaveBeenCalledTimes(1);
+      expect(getPolicyStatus()).toMatchObject({ used_today: { BTC: '0.8' } });
+    });
+
+    it('should give the daily allowance back when a swap fails', async () => {
+      configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+      (mockClient.createSwap as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+        new ValidationError('API Error (400): Amount too small', 400)
+      );
+
+      const result = await handleCreateSwap(mockClient, config, {
+        from_currency: 'BTC',
+        to_currency: 'USDT',
+        from_amount: '0.8',
+        confirm: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(getPolicyStatus()).toMatchObject({ used_today: { BTC: '0' } });
+    });
+
+    it('should keep the daily allowance reserved when a swap may have gone through', async () => {
+      configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+      (mockClient.createSwap as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+        new NetworkError('Request timed out after 30000ms', { timeout: true })
+      );
+
+      const result = await handleCreateSwap(mockClient, config, {
+        from_currency: 'BTC',
+        to_currency: 'USDT',
+        from_amount: '0.8',
+        confirm: true,
+      });
+
+      expect(JSON.parse(result.content[0].text).error.code).toBe('NETWORK_ERROR');
+      expect(getPolicyStatus()).toMatchObject({ used_today: { BTC: '0.8' } });
+
+      // The retry reuses the reservation instead of counting the swap twice
+      const createdSwap = {
+        ...mockSwap,
+        from_currency: 'BTC',
+        from_amount: '0.8',
+        created_at: new Date().toISOString(),
+      };
+      vi.mocked(mockClient.getSwaps).mockResolvedValue({
+        ...mockPaginatedSwaps,
+        results: [createdSwap],
+      });
+      const retried = await handleCreateSwap(mockClient, config, {
+        from_currency: 'BTC',
+        to_currency: 'USDT',
+        from_amount: '0.8',
+        confirm: true,
+      });
+
+      expect(JSON.parse(retried.content[0].text).status).toBe('swap_already_created');
+      expect(getPolicyStatus()).toMatchObject({ used_today: { BTC: '0.8' } });
+    });
+  });
+
+  describe('Idempotent execution', () => {
+    const swapParams = { from_currency: 'ETH', to_currency: 'USDT', from_amount: '1.0' };
+    const tradeParams = { offer_uuid: 'offer-uuid-456', amount: '500' };
+
+    it('should return the idempotency key with the confirmation and the result', async () => {
+      const confirmation = await handleCreateSwap(mockClient, config, swapParams);
+      const first = JSON.parse(confirmation.content[0].text);
+      expect(first.idempotency_key).toMatch(/^create_swap:/);
+
+      const second = JSON.parse(
+        (
+          await handleCreateSwap(mockClient, config, {
+            ...swapParams,
+            confirmation_id: first.confirmation_id,
+          })
+        ).content[0].text
+      );
+      expect(second.status).toBe('swap_created');
+      expect(second.idempotency_key).toBe(first.idempotency_key);
+    });
+
+    it('should not resubmit a swap that went through despite a timeout', async () => {
+      vi.mocked(mockClient.createSwap).mockRejectedValueOnce(
+        new NetworkError('Request timed out after 30000ms', { timeout: true })
+      );
+      const timedOut = await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+      expect(JSON.parse(timedOut.content[0].text).error.code).toBe('NETWORK_ERROR');
+
+      // The swap was created server-side after all
+      const createdSwap = { ...mockSwap, uuid: 'swap-late', created_at: new Date().toISOString() };
+      vi.mocked(mockClient.getSwaps).mockResolvedValue({
+        ...mockPaginatedSwaps,
+        results: [mockSwap, createdSwap],
+      });
+
+      const retried = await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+
+      const parsed = JSON.parse(retried.content[0].text);
+      expect(parsed.status).toBe('swap_already_created');
+      expect(parsed.swap.uuid).toBe('swap-late');
+      expect(mockClient.createSwap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resubmit when reconciliation finds nothing', async () => {
+      vi.mocked(mockClient.createSwap).mockRejectedValueOnce(
+        new NetworkError('Network error: fetch failed')
+      );
+      await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+
+      // mockSwap predates the failed attempt, so it must not be matched
+      const retried = await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+
+      expect(mockClient.getSwaps).toHaveBeenCalled();
+      expect(JSON.parse(retried.content[0].text).status).toBe('swap_created');
+      expect(mockClient.createSwap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse to resubmit when reconciliation fails', async () => {
+      vi.mocked(mockClient.createSwap).mockRejectedValueOnce(
+        new NetworkError('Network error: fetch failed')
+      );
+      await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+      vi.mocked(mockClient.getSwaps).mockRejectedValue(new NetworkError('Network error: down'));
+
+      const retried = await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+
+      expect(retried.isError).toBe(true);
+      expect(mockClient.createSwap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not reconcile after a definitive rejection', async () => {
+      vi.mocked(mockClient.createSwap).mockRejectedValueOnce(
+        new ValidationError('API Error (400): Amount too low', 400)
+      );
+      await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+
+      await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+
+      expect(mockClient.getSwaps).not.toHaveBeenCalled();
+      expect(mockClient.createSwap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not start a trade twice after an ambiguous failure', async () => {
+      vi.mocked(mockClient.startTrade).mockRejectedValueOnce(
+        new NetworkError('Request timed out after 30000ms', { timeout: true })
+      );
+      await handleStartTrade(mockClient, config, { ...tradeParams, confirm: true });
+
+      const startedTrade = {
+        ...mockTrade,
+        uuid: 'trade-late',
+        created_at: new Date().toISOString(),
+      };
+      vi.mocked(mockClient.getMyTrades).mockResolvedValue({
+        ...mockPaginatedTrades,
+        results: [startedTrade],
+      });
+
+      const retried = await handleStartTrade(mockClient, config, { ...tradeParams, confirm: true });
+
+      const parsed = JSON.parse(retried.content[0].text);
+      expect(parsed.status).toBe('trade_already_started');
+      expect(parsed.trade.uuid).toBe('trade-late');
+      expect(mockClient.startTrade).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not match a swap already recorded for another execution', async () => {
+      // Same amount, written differently, so a separate execution record
+      const earlier = { ...mockSwap, uuid: 'swap-earlier', created_at: new Date().toISOString() };
+      vi.mocked(mockClient.createSwap).mockResolvedValueOnce(earlier);
+      await handleCreateSwap(mockClient, config, { ...swapParams, from_amount: '1', confirm: true });
+
+      vi.mocked(mockClient.createSwap).mockRejectedValueOnce(
+        new NetworkError('Network error: fetch failed')
+      );
+      await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+      vi.mocked(mockClient.getSwaps).mockResolvedValue({
+        ...mockPaginatedSwaps,
+        results: [earlier],
+      });
+
+      const retried = await handleCreateSwap(mockClient, config, { ...swapParams, confirm: true });
+
+      expect(JSON.parse(retried.content[0].text).status).toBe('swap_created');
+      expect(mockClient.createSwap).toHaveBeenCalledTimes(3);
+    });
+
+    describe('against the fake API', () => {
+      let fake: FakeApiHandle;
+      let client: LocalCoinSwapClient;
+
+      beforeEach(async () => {
+        fake = await startFakeApi();
+        client = new LocalCoinSwapClient(fake.url, FAKE_API_TOKEN, {
+          cache: null,
+          rateLimit: null,
+          maxRetries: 0,
+        });
+        config = { ...config, apiToken: FAKE_API_TOKEN, apiUrl: fake.url };
+      });
+
+      afterEach(async () => {
+        await fake.close();
+      });
+
+      it('should find an earlier swap past the first page of history', async () => {
+        for (let i = 1; i <= 25; i++) {
+          await client.createSwap({
+            from_currency: 'ETH',
+            to_currency: 'USDT',
+            from_amount: `${i + 1}`,
+          });
+        }
+        // The swap goes through but the response is lost
+        const createSwap = client.createSwap.bind(client);
+        vi.spyOn(client, 'createSwap').mockImplementationOnce(async (params) => {
+          await createSwap(params);
+          throw new NetworkError('Request timed out after 30000ms', { timeout: true });
+        });
+        await handleCreateSwap(client, config, { ...swapParams, confirm: true });
+
+        const retried = await handleCreateSwap(client, config, { ...swapParams, confirm: true });
+
+        expect(JSON.parse(retried.content[0].text).status).toBe('swap_already_created');
+        expect(fake.api.listSwaps(FAKE_API_USER)).toHaveLength(26);
+      });
+    });
+  });
+
+  describe('handleStartTrade confirmation', () => {
+    it('should require confirmation when requireConfirmation is true', async () => {
+      const result = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '500',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('confirmation_required');
+      expect(parsed.confirmation_id).toBeDefined();
+      expect(parsed.trade_details).toBeDefined();
+      expect(mockClient.startTrade).not.toHaveBeenCalled();
+    });
+
+    it('should execute trade when confirm is true', async () => {
+      const result = await handleStartTrade(mockClient, config, {
         offer_uuid: 'offer-uuid-456',
         amount: '500',
+        confirm: true,
       });
 
       const parsed = JSON.parse(result.content[0].text);
@@ -714,14 +1710,676 @@ describe('Confirmation System', () => {
       expect(mockClient.startTrade).toHaveBeenCalled();
     });
 
-    it('should require API token', async () => {
-      const noTokenConfig = { ...config, apiToken: '' };
-      const result = await handleStartTrade(mockClient, noTokenConfig, {
+    it('should reject confirmation_id with changed offer_uuid', async () => {
+      const firstResult = await handleStartTrade(mockClient, config, {
         offer_uuid: 'offer-uuid-456',
         amount: '500',
       });
 
-      expect(result.isError).toBe(true);
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'different-offer', // CHANGED
+        amount: '500',
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      expect(secondResult.content[0].text).toContain('parameters do not match');
+    });
+
+    it('should reject confirmation_id with changed amount', async () => {
+      const firstResult = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '500',
+      });
+
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '9999', // CHANGED
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      expect(secondResult.content[0].text).toContain('parameters do not match');
+    });
+
+    it('should reject swap confirmation_id for trade action', async () => {
+      // Get a swap confirmation ID
+      const swapResult = await handleCreateSwap(mockClient, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '1.0',
+      });
+
+      const { confirmation_id } = JSON.parse(swapResult.content[0].text);
+
+      // Try to use it for a trade
+      const tradeResult = await handleStartTrade(mockClient, config, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '500',
+        confirmation_id,
+      });
+
+      expect(tradeResult.isError).toBe(true);
+      expect(tradeResult.content[0].text).toContain('different action');
+    });
+
+    it('should skip confirmation when requireConfirmation is false', async () => {
+      const noConfirmConfig = { ...config, requireConfirmation: false };
+      const result = await handleStartTrade(mockClient, noConfirmConfig, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '500',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('trade_started');
+      expect(mockClient.startTrade).toHaveBeenCalled();
+    });
+
+    it('should require API token', async () => {
+      const noTokenConfig = { ...config, apiToken: '' };
+      const result = await handleStartTrade(mockClient, noTokenConfig, {
+        offer_uuid: 'offer-uuid-456',
+        amount: '500',
+      });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('Trade lifecycle confirmation', () => {
+    it('handleMarkTradePaid should require confirmation when requireConfirmation is true', async () => {
+      const result = await handleMarkTradePaid(mockClient, config, { uuid: 'trade-uuid-def' });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('confirmation_required');
+      expect(parsed.trade_details.uuid).toBe('trade-uuid-def');
+      expect(mockClient.getTrade).toHaveBeenCalledWith('trade-uuid-def');
+      expect(mockClient.markTradePaid).not.toHaveBeenCalled();
+    });
+
+    it('handleMarkTradePaid should execute with valid confirmation_id', async () => {
+      const firstResult = await handleMarkTradePaid(mockClient, config, { uuid: 'trade-uuid-def' });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleMarkTradePaid(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        confirmation_id,
+      });
+
+      const parsed = JSON.parse(secondResult.content[0].text);
+      expect(parsed.status).toBe('trade_marked_paid');
+      expect(mockClient.markTradePaid).toHaveBeenCalledWith('trade-uuid-def');
+    });
+
+    it('handleReleaseTrade should execute when confirm is true', async () => {
+      const result = await handleReleaseTrade(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        confirm: true,
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('trade_released');
+      expect(mockClient.releaseTrade).toHaveBeenCalledWith('trade-uuid-def');
+    });
+
+    it('handleReleaseTrade should reject confirmation_id with changed uuid', async () => {
+      const firstResult = await handleReleaseTrade(mockClient, config, { uuid: 'trade-uuid-def' });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleReleaseTrade(mockClient, config, {
+        uuid: 'other-trade', // CHANGED
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      expect(secondResult.content[0].text).toContain('parameters do not match');
+      expect(mockClient.releaseTrade).not.toHaveBeenCalled();
+    });
+
+    it('handleReleaseTrade should reject a mark_trade_paid confirmation_id', async () => {
+      const paidResult = await handleMarkTradePaid(mockClient, config, { uuid: 'trade-uuid-def' });
+      const { confirmation_id } = JSON.parse(paidResult.content[0].text);
+
+      const releaseResult = await handleReleaseTrade(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        confirmation_id,
+      });
+
+      expect(releaseResult.isError).toBe(true);
+      expect(releaseResult.content[0].text).toContain('different action');
+    });
+
+    it('handleCancelTrade should skip confirmation when requireConfirmation is false', async () => {
+      const noConfirmConfig = { ...config, requireConfirmation: false };
+      const result = await handleCancelTrade(mockClient, noConfirmConfig, { uuid: 'trade-uuid-def' });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('trade_cancelled');
+      expect(mockClient.cancelTrade).toHaveBeenCalledWith('trade-uuid-def');
+    });
+
+    it('handleCancelTrade should require API token', async () => {
+      const noTokenConfig = { ...config, apiToken: '' };
+      const result = await handleCancelTrade(mockClient, noTokenConfig, { uuid: 'trade-uuid-def' });
+      expect(result.isError).toBe(true);
+    });
+
+    it('should report API errors with an action-specific prefix', async () => {
+      (mockClient.releaseTrade as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new Error('Trade is not in escrow')
+      );
+
+      const result = await handleReleaseTrade(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        confirm: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error releasing trade: Trade is not in escrow');
+    });
+  });
+
+  describe('Dispute confirmation', () => {
+    it('handleOpenDispute should require a reason', async () => {
+      const result = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: '  ',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('reason must not be empty');
+      expect(mockClient.getTrade).not.toHaveBeenCalled();
+    });
+
+    it('handleOpenDispute should require confirmation with the reason bound', async () => {
+      const result = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('confirmation_required');
+      expect(parsed.reason).toBe('Seller unresponsive');
+      expect(getPendingConfirmation(parsed.confirmation_id)?.params).toEqual({
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+      });
+      expect(mockClient.openDispute).not.toHaveBeenCalled();
+    });
+
+    it('handleOpenDispute should reject confirmation_id with changed reason', async () => {
+      const firstResult = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+      });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Something else', // CHANGED
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      expect(secondResult.content[0].text).toContain('parameters do not match');
+    });
+
+    it('handleOpenDispute should open dispute with valid confirmation_id', async () => {
+      const firstResult = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+      });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+        confirmation_id,
+      });
+
+      const parsed = JSON.parse(secondResult.content[0].text);
+      expect(parsed.status).toBe('dispute_opened');
+      expect(mockClient.openDispute).toHaveBeenCalledWith('trade-uuid-def', 'Seller unresponsive');
+    });
+
+    it('handleOpenDispute should refuse when trade is not in a disputable state', async () => {
+      (mockClient.getTrade as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockTrade,
+        status: 'completed',
+      });
+
+      const result = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).error).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: expect.stringContaining('while trade is "completed"'),
+        retryable: false,
+      });
+    });
+
+    it('handleOpenDispute should refuse funded trades like the API does', async () => {
+      (mockClient.getTrade as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockTrade,
+        status: 'funded',
+      });
+
+      const result = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Allowed states: active, paid.');
+    });
+
+    it('handleOpenDispute should re-check trade state before executing', async () => {
+      (mockClient.getTrade as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockTrade,
+        status: 'cancelled',
+      });
+
+      const result = await handleOpenDispute(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        reason: 'Seller unresponsive',
+        confirm: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(mockClient.openDispute).not.toHaveBeenCalled();
+    });
+
+    it('handleAddDisputeEvidence should only be allowed on disputed trades', async () => {
+      const result = await handleAddDisputeEvidence(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        text: 'Payment reference ABC123',
+        confirm: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Allowed states: disputed');
+      expect(mockClient.addDisputeEvidence).not.toHaveBeenCalled();
+    });
+
+    it('handleAddDisputeEvidence should submit evidence on a disputed trade', async () => {
+      (mockClient.getTrade as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...mockTrade,
+        status: 'disputed',
+      });
+
+      const result = await handleAddDisputeEvidence(mockClient, config, {
+        uuid: 'trade-uuid-def',
+        text: 'Payment reference ABC123',
+        confirm: true,
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('evidence_added');
+      expect(mockClient.addDisputeEvidence).toHaveBeenCalledWith(
+        'trade-uuid-def',
+        'Payment reference ABC123'
+      );
+    });
+  });
+
+  describe('Offer management confirmation', () => {
+    const offerParams = {
+      trading_type: 'sell' as const,
+      coin_currency: 'btc',
+      fiat_currency: 'usd',
+      payment_method: 'bank-transfer',
+      min_trade_size: '50',
+      max_trade_size: '5000',
+      margin: '2.5',
+    };
+
+    it('handleCreateOffer should require confirmation with normalized details', async () => {
+      const result = await handleCreateOffer(mockClient, config, offerParams);
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('confirmation_required');
+      expect(parsed.offer_details.coin_currency).toBe('BTC');
+      expect(parsed.offer_details.fiat_currency).toBe('USD');
+      expect(mockClient.createOffer).not.toHaveBeenCalled();
+    });
+
+    it('handleCreateOffer should create offer with valid confirmation_id', async () => {
+      const firstResult = await handleCreateOffer(mockClient, config, offerParams);
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleCreateOffer(mockClient, config, {
+        ...offerParams,
+        confirmation_id,
+      });
+
+      const parsed = JSON.parse(secondResult.content[0].text);
+      expect(parsed.status).toBe('offer_created');
+      expect(mockClient.createOffer).toHaveBeenCalledWith(
+        expect.objectContaining({ coin_currency: 'BTC', margin: '2.5' })
+      );
+    });
+
+    it('handleCreateOffer should reject confirmation_id with changed margin', async () => {
+      const firstResult = await handleCreateOffer(mockClient, config, offerParams);
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleCreateOffer(mockClient, config, {
+        ...offerParams,
+        margin: '-5', // CHANGED
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      expect(secondResult.content[0].text).toContain('parameters do not match');
+    });
+
+    it('handleCreateOffer should validate currencies, sizes and margin', async () => {
+      const badCoin = await handleCreateOffer(mockClient, config, {
+        ...offerParams,
+        coin_currency: '@',
+      });
+      expect(badCoin.content[0].text).toContain('Invalid currency symbol');
+
+      const badSize = await handleCreateOffer(mockClient, config, {
+        ...offerParams,
+        min_trade_size: '0',
+      });
+      expect(badSize.content[0].text).toContain('min_trade_size: Invalid amount');
+
+      const inverted = await handleCreateOffer(mockClient, config, {
+        ...offerParams,
+        min_trade_size: '6000',
+      });
+      expect(inverted.content[0].text).toContain('must not be greater than max_trade_size');
+
+      const badMargin = await handleCreateOffer(mockClient, config, {
+        ...offerParams,
+        margin: 'abc',
+      });
+      expect(badMargin.content[0].text).toContain('Invalid margin');
+    });
+
+    it('handleCreateOffer should accept negative margins', async () => {
+      const result = await handleCreateOffer(mockClient, config, {
+        ...offerParams,
+        margin: '-1.5',
+        confirm: true,
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(mockClient.createOffer).toHaveBeenCalled();
+    });
+
+    it('handleUpdateOffer should send only provided fields', async () => {
+      const result = await handleUpdateOffer(mockClient, config, {
+        uuid: 'offer-uuid-456',
+        margin: '3',
+        confirm: true,
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('offer_updated');
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('offer-uuid-456', { margin: '3' });
+    });
+
+    it('handleUpdateOffer should show current offer and changes when confirming', async () => {
+      const result = await handleUpdateOffer(mockClient, config, {
+        uuid: 'offer-uuid-456',
+        is_active: false,
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('confirmation_required');
+      expect(parsed.offer_details.is_active).toBe(true);
+      expect(parsed.changes).toEqual({ is_active: false });
+    });
+
+    it('handleUpdateOffer should reject confirmation_id with a dropped field', async () => {
+      const firstResult = await handleUpdateOffer(mockClient, config, {
+        uuid: 'offer-uuid-456',
+        margin: '3',
+        is_active: false,
+      });
+      const { confirmation_id } = JSON.parse(firstResult.content[0].text);
+
+      const secondResult = await handleUpdateOffer(mockClient, config, {
+        uuid: 'offer-uuid-456',
+        margin: '3',
+        confirmation_id,
+      });
+
+      expect(secondResult.isError).toBe(true);
+      expect(mockClient.updateOffer).not.toHaveBeenCalled();
+    });
+
+    it('handleUpdateOffer should require at least one change', async () => {
+      const result = await handleUpdateOffer(mockClient, config, { uuid: 'offer-uuid-456' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No offer fields to update');
+    });
+
+    it('handleDeleteOffer should delete offer with valid confirmation_id', async () => {
+      const firstResult = await handleDeleteOffer(mockClient, config, { uuid: 'offer-uuid-456' });
+      const { confirmation_id, offer_details } = JSON.parse(firstResult.content[0].text);
+      expect(offer_details.crypto).toBe('BTC');
+
+      const secondResult = await handleDeleteOffer(mockClient, config, {
+        uuid: 'offer-uuid-456',
+        confirmation_id,
+      });
+
+      const parsed = JSON.parse(secondResult.content[0].text);
+      expect(parsed.status).toBe('offer_deleted');
+      expect(mockClient.deleteOffer).toHaveBeenCalledWith('offer-uuid-456');
+    });
+
+    it('handleDeleteOffer should require API token', async () => {
+      const noTokenConfig = { ...config, apiToken: '' };
+      const result = await handleDeleteOffer(mockClient, noTokenConfig, { uuid: 'offer-uuid-456' });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('Bulk offer status', () => {
+    const myOffers = {
+      count: 3,
+      next: null,
+      previous: null,
+      results: [
+        { ...mockOffer, uuid: 'btc-usd-bank', is_active: true },
+        { ...mockOffer, uuid: 'eth-usd-bank', coin_currency: 'ETH', is_active: true },
+        {
+          ...mockOffer,
+          uuid: 'btc-eur-paypal',
+          fiat_currency: 'EUR',
+          payment_method: mockPaymentMethods[1],
+          is_active: false,
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      (mockClient.getMyOffers as ReturnType<typeof vi.fn>).mockResolvedValue(myOffers);
+    });
+
+    it('should require a filter or all=true', async () => {
+      const result = await handleSetOffersActive(mockClient, config, { active: false });
+
+      expect(result.isError).toBe(true);
+      expect(mockClient.getMyOffers).not.toHaveBeenCalled();
+    });
+
+    it('should pause all live offers without confirmation', async () => {
+      const result = await handleSetOffersActive(mockClient, config, { active: false, all: true });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('offers_paused');
+      expect(parsed.matched).toBe(2);
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('btc-usd-bank', { is_active: false });
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('eth-usd-bank', { is_active: false });
+    });
+
+    it('should pause offers on every page', async () => {
+      (mockClient.getMyOffers as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...myOffers,
+        count: 4,
+        next: 'https://api.test.com/api/v2/offers/my-offers/?page=2',
+      });
+      (mockClient.getPage as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        count: 4,
+        next: null,
+        previous: 'https://api.test.com/api/v2/offers/my-offers/',
+        results: [{ ...mockOffer, uuid: 'btc-usd-page-2', is_active: true }],
+      });
+
+      const result = await handleSetOffersActive(mockClient, config, { active: false, all: true });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.matched).toBe(3);
+      expect(mockClient.getPage).toHaveBeenCalledWith(
+        'https://api.test.com/api/v2/offers/my-offers/?page=2'
+      );
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('btc-usd-page-2', { is_active: false });
+    });
+
+    it('should apply coin filter', async () => {
+      await handleSetOffersActive(mockClient, config, { active: false, coin_currency: 'eth' });
+
+      expect(mockClient.updateOffer).toHaveBeenCalledTimes(1);
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('eth-usd-bank', { is_active: false });
+    });
+
+    it('should report per-offer failures', async () => {
+      (mockClient.updateOffer as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce(mockOffer)
+        .mockRejectedValueOnce(new Error('Offer locked'));
+
+      const result = await handleSetOffersActive(mockClient, config, { active: false, all: true });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.succeeded).toBe(1);
+      expect(parsed.failed).toBe(1);
+      expect(parsed.results[1]).toEqual({
+        uuid: 'eth-usd-bank',
+        success: false,
+        error: 'Offer locked',
+        code: 'INTERNAL_ERROR',
+      });
+    });
+
+    it('should require confirmation to resume offers', async () => {
+      const firstResult = await handleSetOffersActive(mockClient, config, {
+        active: true,
+        payment_method: 'paypal',
+      });
+
+      const first = JSON.parse(firstResult.content[0].text);
+      expect(first.status).toBe('confirmation_required');
+      expect(first.offers.map((o: { uuid: string }) => o.uuid)).toEqual(['btc-eur-paypal']);
+      expect(mockClient.updateOffer).not.toHaveBeenCalled();
+
+      const secondResult = await handleSetOffersActive(mockClient, config, {
+        active: true,
+        payment_method: 'paypal',
+        confirmation_id: first.confirmation_id,
+      });
+
+      const second = JSON.parse(secondResult.content[0].text);
+      expect(second.status).toBe('offers_activated');
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('btc-eur-paypal', { is_active: true });
+    });
+  });
+
+  describe('Repricer configuration', () => {
+    afterEach(() => {
+      resetRepricer();
+    });
+
+    it('should run a dry-run pass without confirmation', async () => {
+      const result = await handleConfigureRepricer(mockClient, config, {
+        enabled: true,
+        dry_run: true,
+        min_margin: '1',
+        max_margin: '5',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('repricer_configured');
+      expect(parsed.first_run.dry_run).toBe(true);
+      expect(mockClient.updateOffer).not.toHaveBeenCalled();
+
+      const status = JSON.parse((await handleGetRepricerStatus()).content[0].text);
+      expect(status.running).toBe(true);
+      expect(status.last_run).toEqual(parsed.first_run);
+    });
+
+    it('should require confirmation to enable live repricing', async () => {
+      const firstResult = await handleConfigureRepricer(mockClient, config, {
+        enabled: true,
+        min_margin: '1',
+        max_margin: '5',
+      });
+
+      const first = JSON.parse(firstResult.content[0].text);
+      expect(first.status).toBe('confirmation_required');
+      expect(mockClient.getMyOffers).not.toHaveBeenCalled();
+
+      const secondResult = await handleConfigureRepricer(mockClient, config, {
+        enabled: true,
+        min_margin: '1',
+        max_margin: '5',
+        confirmation_id: first.confirmation_id,
+      });
+
+      expect(JSON.parse(secondResult.content[0].text).status).toBe('repricer_configured');
+    });
+
+    it('should stop the repricer when disabled', async () => {
+      const result = await handleConfigureRepricer(mockClient, config, {
+        enabled: false,
+        min_margin: '1',
+        max_margin: '5',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.status).toBe('repricer_stopped');
+      expect(parsed.first_run).toBeNull();
+    });
+
+    it('should validate margin bounds and position', async () => {
+      const inverted = await handleConfigureRepricer(mockClient, config, {
+        enabled: true,
+        dry_run: true,
+        min_margin: '5',
+        max_margin: '1',
+      });
+      expect(inverted.content[0].text).toContain('min_margin must not be greater than max_margin');
+
+      const badPosition = await handleConfigureRepricer(mockClient, config, {
+        enabled: true,
+        dry_run: true,
+        min_margin: '1',
+        max_margin: '5',
+        target_position: 0,
+      });
+      expect(badPosition.content[0].text).toContain('target_position must be a positive integer');
+
+      const fastInterval = await handleConfigureRepricer(mockClient, config, {
+        enabled: true,
+        dry_run: true,
+        min_margin: '1',
+        max_margin: '5',
+        interval_seconds: 5,
+      });
+      expect(fastInterval.content[0].text).toContain('interval_seconds must be at least 30');
     });
   });
 
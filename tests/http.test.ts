@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, type HttpServerHandle } from '../src/http.js';
+import { LocalCoinSwapClient } from '../src/api-client.js';
+import type { ServerConfig } from '../src/types.js';
+import { mockCurrencies } from './mocks.js';
+
+const AUTH_TOKEN = 'http-test-secret';
+
+describe('HTTP Transport', () => {
+  let handle: HttpServerHandle;
+  let baseUrl: string;
+  let mockClient: LocalCoinSwapClient;
+
+  beforeEach(async () => {
+    mockClient = {
+      getCryptoCurrencies: vi.fn().mockResolvedValue(mockCurrencies),
+    } as unknown as LocalCoinSwapClient;
+
+    const config: ServerConfig = {
+      apiToken: 'test-token',
+      apiUrl: 'https://api.test.com',
+      requireConfirmation: true,
+    };
+
+    handle = await startHttpServer(config, mockClient, {
+      host: '127.0.0.1',
+      port: 0,
+      authToken: AUTH_TOKEN,
+    });
+    const { port } = handle.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('should serve the health route without authentication', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should reject MCP requests without a bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('should reject MCP requests with the wrong bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer wrong-token' },
+      body: '{}',
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${AUTH_TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown routes', async () => {
+    const response = await fetch(`${baseUrl}/unknown`, {
+      headers: { Authorization: `Bearer ${AUTH_TOKEN}` },
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should serve tools over Streamable HTTP', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${AUTH_TOKEN}` } },
+    });
+    const mcpClient = new Client({ name: 'test-client', version: '1.0.0' });
+    await mcpClient.connect(transport);
+
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+    expect(health.sessions).toBe(1);
+
+    const result = await mcpClient.callTool({ name: 'list_currencies', arguments: {} });
+    const content = result.content as Array<{ type: string; text: string }>;
+
+    expect(mockClient.getCryptoCurrencies).toHaveBeenCalled();
+    expect(JSON.parse(content[0].text)).toHaveLength(mockCurrencies.length);
+
+    await mcpClient.close();
+  });
+});
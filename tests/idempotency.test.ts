@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  idempotencyKey,
+  runIdempotent,
+  configureIdempotencyStore,
+  getExecutionRecord,
+  resetIdempotency,
+  type ExecutionRecord,
+} from '../src/idempotency.js';
+import { NetworkError, NotFoundError, ServerError } from '../src/errors.js';
+
+describe('Idempotency', () => {
+  const params = { from_currency: 'ETH', to_currency: 'USDT', from_amount: '1.0' };
+
+  afterEach(() => {
+    resetIdempotency();
+  });
+
+  describe('idempotencyKey', () => {
+    it('should not depend on parameter order', () => {
+      expect(idempotencyKey('create_swap', { a: '1', b: '2' })).toBe(
+        idempotencyKey('create_swap', { b: '2', a: '1' })
+      );
+    });
+
+    it('should differ by action and parameters', () => {
+      const key = idempotencyKey('create_swap', params);
+
+      expect(key).toMatch(/^create_swap:[0-9a-f]{16}$/);
+      expect(idempotencyKey('start_trade', params)).not.toBe(key);
+      expect(idempotencyKey('create_swap', { ...params, from_amount: '2.0' })).not.toBe(key);
+    });
+  });
+
+  describe('runIdempotent', () => {
+    function execution(execute: () => Promise<{ uuid: string }>, found: { uuid: string } | null) {
+      return {
+        action: 'create_swap',
+        params,
+        execute: vi.fn(execute),
+        reconcile: vi.fn().mockResolvedValue(found),
+        resultId: (r: { uuid: string }) => r.uuid,
+      };
+    }
+
+    it('should record completed executions', async () => {
+      const run = execution(async () => ({ uuid: 'swap-1' }), null);
+
+      const { key, result, reconciled } = await runIdempotent(run);
+
+      expect(result.uuid).toBe('swap-1');
+      expect(reconciled).toBe(false);
+      expect(getExecutionRecord(key)).toMatchObject({ state: 'completed', result_id: 'swap-1' });
+      expect(run.reconcile).not.toHaveBeenCalled();
+    });
+
+    it('should mark ambiguous failures as unknown', async () => {
+      const run = execution(async () => {
+        throw new ServerError('API Error (502): Bad gateway', 502, false);
+      }, null);
+
+      await expect(runIdempotent(run)).rejects.toThrow('Bad gateway');
+
+      expect(getExecutionRecord(idempotencyKey('create_swap', params))?.state).toBe('unknown');
+    });
+
+    it('should forget definitive rejections', async () => {
+      const run = execution(async () => {
+        throw new NotFoundError('API Error (404): Not found.');
+      }, null);
+
+      await expect(runIdempotent(run)).rejects.toThrow('Not found');
+
+      expect(getExecutionRecord(idempotencyKey('create_swap', params))).toBeUndefined();
+    });
+
+    it('should return the reconciled result instead of resubmitting', async () => {
+      await expect(
+        runIdempotent(
+          execution(async () => {
+            throw new NetworkError('Request timed out after 30000ms', { timeout: true });
+          }, null)
+        )
+      ).rejects.toThrow('timed out');
+
+      const retry = execution(async () => ({ uuid: 'swap-2' }), { uuid: 'swap-1' });
+      const { result, reconciled } = await runIdempotent(retry);
+
+      expect(reconciled).toBe(true);
+      expect(result.uuid).toBe('swap-1');
+      expect(retry.execute).not.toHaveBeenCalled();
+      expect(retry.reconcile.mock.calls[0][0]).toBeInstanceOf(Date);
+    });
+
+    it('should tell reconcile which results belong to other executions', async () => {
+      await runIdempotent({
+        ...execution(async () => ({ uuid: 'swap-1' }), null),
+        params: { ...params, from_amount: '1' },
+      });
+      await expect(
+        runIdempotent(
+          execution(async () => {
+            throw new NetworkError('Network error: fetch failed');
+          }, null)
+        )
+      ).rejects.toThrow('fetch failed');
+
+      const retry = execution(async () => ({ uuid: 'swap-2' }), null);
+      await runIdempotent(retry);
+
+      expect(retry.reconcile.mock.calls[0][1]).toEqual(new Set(['swap-1']));
+    });
+
+    it('should reject a concurrent identical request', async () => {
+      let finish: (value: { uuid: string }) => void = () => {};
+      const first = runIdempotent(
+        execution(() => new Promise((resolve) => (finish = resolve)), null)
+      );
+
+      await expect(
+        runIdempotent(execution(async () => ({ uuid: 'swap-2' }), null))
+      ).rejects.toMatchObject({ code: 'IN_PROGRESS' });
+
+      finish({ uuid: 'swap-1' });
+      await first;
+    });
+  });
+
+  describe('persistent store', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'lcs-idempotency-'));
+      file = join(dir, 'executions.json');
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write execution records to the file', async () => {
+      configureIdempotencyStore(file);
+
+      await runIdempotent({
+        action: 'create_swap',
+        params,
+        execute: async () => ({ uuid: 'swap-1' }),
+        reconcile: async () => null,
+        resultId: (r) => r.uuid,
+      });
+
+      const stored = JSON.parse(await readFile(file, 'utf8')) as ExecutionRecord[];
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({ action: 'create_swap', state: 'completed' });
+    });
+
+    it('should treat records left in flight by a previous process as unknown', async () => {
+      const key = idempotencyKey('create_swap', params);
+      const now = new Date().toISOString();
+      const record: ExecutionRecord = {
+        key,
+        action: 'create_swap',
+        params,
+        state: 'in_flight',
+        started_at: now,
+        updated_at: now,
+      };
+      await writeFile(file, JSON.stringify([record]), 'utf8');
+
+      configureIdempotencyStore(file);
+
+      expect(getExecutionRecord(key)?.state).toBe('unknown');
+    });
+
+    it('should drop records past the retention period', async () => {
+      const old = new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString();
+      const record: ExecutionRecord = {
+        key: 'create_swap:old',
+        action: 'create_swap',
+        params,
+        state: 'unknown',
+        started_at: old,
+        updated_at: old,
+      };
+      await writeFile(file, JSON.stringify([record]), 'utf8');
+
+      configureIdempotencyStore(file);
+
+      expect(getExecutionRecord('create_swap:old')).toBeUndefined();
+    });
+
+    it('should start empty when the file does not exist', () => {
+      expect(() => configureIdempotencyStore(join(dir, 'missing.json'))).not.toThrow();
+    });
+  });
+});
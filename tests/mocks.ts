@@ -10,6 +10,9 @@ import type {
   MinSwapAmount,
   Swap,
   Trade,
+  TradeMessage,
+  Dispute,
+  Feedback,
   UserProfile,
 } from '../src/types.js';
 
@@ -163,6 +166,67 @@ export const mockPaginatedTrades: PaginatedResponse<Trade> = {
   results: [mockTrade],
 };
 
+export const mockTradeMessages: TradeMessage[] = [
+  {
+    id: 1,
+    sender: mockTrader,
+    message: 'Please send payment to the account in the trade instructions.',
+    created_at: '2025-12-07T10:01:00Z',
+    attachment: null,
+  },
+  {
+    id: 2,
+    sender: { ...mockTrader, username: 'buyer123' },
+    message: 'Payment sent, receipt attached.',
+    created_at: '2025-12-07T10:15:00Z',
+    attachment: {
+      url: 'https://files.localcoinswap.com/receipt.png',
+      filename: 'receipt.png',
+      content_type: 'image/png',
+      size: 20480,
+    },
+  },
+];
+
+export const mockPaginatedTradeMessages: PaginatedResponse<TradeMessage> = {
+  count: 2,
+  next: null,
+  previous: null,
+  results: mockTradeMessages,
+};
+
+export const mockDispute: Dispute = {
+  trade_uuid: 'trade-uuid-def',
+  status: 'open',
+  reason: 'Seller has not released after payment was sent',
+  opened_by: { ...mockTrader, username: 'buyer123' },
+  created_at: '2025-12-07T12:00:00Z',
+  evidence: [
+    {
+      id: 1,
+      text: 'Bank transfer reference ABC123 sent at 10:15 UTC',
+      created_at: '2025-12-07T12:05:00Z',
+    },
+  ],
+};
+
+export const mockFeedback: Feedback = {
+  id: 1,
+  trade_uuid: 'trade-uuid-def',
+  rating: 'positive',
+  comment: 'Fast and smooth trade',
+  from_user: { ...mockTrader, username: 'buyer123' },
+  to_user: mockTrader,
+  created_at: '2025-12-07T11:00:00Z',
+};
+
+export const mockPaginatedFeedback: PaginatedResponse<Feedback> = {
+  count: 1,
+  next: null,
+  previous: null,
+  results: [mockFeedback],
+};
+
 // Helper to create a mock fetch response
 export function createMockResponse<T>(data: T, status = 200): Response {
   return {
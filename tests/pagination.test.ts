@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { collectPage, decodeCursor, encodeCursor, followPages } from '../src/pagination.js';
+import type { PaginatedResponse } from '../src/types.js';
+
+const BASE = 'https://api.localcoinswap.com/api/v2/trades/';
+
+// Three pages of items 1-5, 6-10 and 11-12
+function makePages(): Map<string, PaginatedResponse<number>> {
+  return new Map([
+    [BASE, { count: 12, next: `${BASE}?page=2`, previous: null, results: [1, 2, 3, 4, 5] }],
+    [
+      `${BASE}?page=2`,
+      { count: 12, next: `${BASE}?page=3`, previous: BASE, results: [6, 7, 8, 9, 10] },
+    ],
+    [`${BASE}?page=3`, { count: 12, next: null, previous: `${BASE}?page=2`, results: [11, 12] }],
+  ]);
+}
+
+function setup() {
+  const pages = makePages();
+  const first = vi.fn(async () => pages.get(BASE)!);
+  const fetchPage = vi.fn(async (link: string) => pages.get(link)!);
+  return { first, fetchPage };
+}
+
+describe('Pagination', () => {
+  describe('cursors', () => {
+    it('should round-trip a position', () => {
+      const cursor = encodeCursor({ link: `${BASE}?page=2`, skip: 3 });
+      expect(decodeCursor(cursor, '/api/v2/trades/')).toEqual({ link: `${BASE}?page=2`, skip: 3 });
+      expect(decodeCursor(encodeCursor({ link: null, skip: 0 }), '/api/v2/trades/')).toEqual({
+        link: null,
+        skip: 0,
+      });
+    });
+
+    it('should reject cursors for another list', () => {
+      const cursor = encodeCursor({ link: `${BASE}?page=2`, skip: 0 });
+      expect(decodeCursor(cursor, '/api/v2/offers/')).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor', '/api/v2/trades/')).toBeNull();
+      const negative = Buffer.from(JSON.stringify({ l: null, s: -1 })).toString('base64url');
+      expect(decodeCursor(negative, '/api/v2/trades/')).toBeNull();
+      const badLink = Buffer.from(JSON.stringify({ l: 42, s: 0 })).toString('base64url');
+      expect(decodeCursor(badLink, '/api/v2/trades/')).toBeNull();
+    });
+  });
+
+  describe('followPages', () => {
+    it('should follow next links until the last page', async () => {
+      const { first, fetchPage } = setup();
+      const links: Array<string | null> = [];
+      for await (const { link } of followPages(first, fetchPage)) {
+        links.push(link);
+      }
+      expect(links).toEqual([null, `${BASE}?page=2`, `${BASE}?page=3`]);
+      expect(first).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('collectPage', () => {
+    it('should return a single page without a limit', async () => {
+      const { first, fetchPage } = setup();
+      const window = await collectPage(first, fetchPage);
+
+      expect(window.results).toEqual([1, 2, 3, 4, 5]);
+      expect(window.count).toBe(12);
+      expect(window.has_previous).toBe(false);
+      expect(decodeCursor(window.next_cursor!, '/api/v2/trades/')).toEqual({
+        link: `${BASE}?page=2`,
+        skip: 0,
+      });
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+
+    it('should fetch pages until the limit is reached', async () => {
+      const { first, fetchPage } = setup();
+      const window = await collectPage(first, fetchPage, { limit: 7 });
+
+      expect(window.results).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resume part way through a page from its cursor', async () => {
+      const { first, fetchPage } = setup();
+      const firstWindow = await collectPage(first, fetchPage, { limit: 7 });
+      const cursor = decodeCursor(firstWindow.next_cursor!, '/api/v2/trades/');
+      const secondWindow = await collectPage(first, fetchPage, { limit: 7, cursor });
+
+      expect(secondWindow.results).toEqual([8, 9, 10, 11, 12]);
+      expect(secondWindow.has_previous).toBe(true);
+      expect(secondWindow.next_cursor).toBeNull();
+    });
+
+    it('should resume within the first page by refetching it', async () => {
+      const { first, fetchPage } = setup();
+      const firstWindow = await collectPage(first, fetchPage, { limit: 2 });
+      const cursor = decodeCursor(firstWindow.next_cursor!, '/api/v2/trades/');
+      const secondWindow = await collectPage(first, fetchPage, { limit: 2, cursor });
+
+      expect(cursor).toEqual({ link: null, skip: 2 });
+      expect(secondWindow.results).toEqual([3, 4]);
+      expect(first).toHaveBeenCalledTimes(2);
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+
+    it('should return everything when the limit exceeds the list', async () => {
+      const { first, fetchPage } = setup();
+      const window = await collectPage(first, fetchPage, { limit: 100 });
+
+      expect(window.results).toHaveLength(12);
+      expect(window.next_cursor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PaperTradingClient, parsePaperBalances } from '../src/paper.js';
+import { NotFoundError, ValidationError } from '../src/errors.js';
+import { handleCreateSwap, handlePaperPortfolio, handleStartTrade } from '../src/handlers.js';
+import { resetIdempotency } from '../src/idempotency.js';
+import { LocalCoinSwapClient } from '../src/api-client.js';
+import {
+  mockCurrencies,
+  mockFiatCurrencies,
+  mockOffer,
+  mockOffers,
+  mockPaginatedOffers,
+  createMockResponse,
+} from './mocks.js';
+
+const currencies = [...mockCurrencies, ...mockFiatCurrencies];
+
+// Serves the read-only endpoints paper mode uses; anything else fails the test
+function createMarketFetch() {
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    const path = new URL(url).pathname;
+    const method = init?.method ?? 'GET';
+
+    if (method === 'POST' && path === '/api/v2/swaps/estimate-swap-amount/') {
+      const body = JSON.parse(String(init?.body));
+      const rates: Record<string, number> = {
+        'ETH/USDT': 2000,
+        'BTC/USDT': 40000,
+        'ETH/BTC': 0.05,
+      };
+      const rate = rates[`${body.from_currency}/${body.to_currency}`];
+      return createMockResponse({
+        ...body,
+        to_amount: (Number(body.from_amount) * rate).toString(),
+        rate: rate.toString(),
+      });
+    }
+    if (method === 'GET' && path.startsWith('/api/v2/currencies/')) {
+      const symbol = path.split('/')[4];
+      return createMockResponse(currencies.find((c) => c.symbol === symbol));
+    }
+    if (method === 'GET' && path === '/api/v2/offers/search/') {
+      return createMockResponse(mockPaginatedOffers);
+    }
+    if (method === 'GET' && path.startsWith('/api/v2/offers/')) {
+      const uuid = path.split('/')[4];
+      return createMockResponse(mockOffers.find((o) => o.uuid === uuid));
+    }
+    throw new Error(`Unexpected request in paper mode: ${method} ${path}`);
+  });
+}
+
+describe('parsePaperBalances', () => {
+  it('should parse symbol=amount pairs', () => {
+    expect(parsePaperBalances('usd=10000, BTC=0.5,')).toEqual({ USD: '10000', BTC: '0.5' });
+    expect(parsePaperBalances('')).toEqual({});
+  });
+
+  it('should reject malformed entries', () => {
+    expect(() => parsePaperBalances('USD')).toThrow('Invalid paper balance "USD"');
+    expect(() => parsePaperBalances('USD=ten')).toThrow('Invalid paper balance');
+    expect(() => parsePaperBalances('USD=-5')).toThrow('Invalid paper balance');
+    expect(() => parsePaperBalances('USD=1=2')).toThrow('Invalid paper balance');
+  });
+});
+
+describe('PaperTradingClient', () => {
+  let client: PaperTradingClient;
+  let mockFetch: ReturnType<typeof createMarketFetch>;
+
+  beforeEach(() => {
+    mockFetch = createMarketFetch();
+    vi.stubGlobal('fetch', mockFetch);
+    client = new PaperTradingClient(
+      'https://api.localcoinswap.com',
+      'test-token',
+      { balances: { USD: '10000', ETH: '2' }, quoteCurrency: 'USDT' },
+      { cache: null, rateLimit: null }
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Swaps', () => {
+    it('should settle a swap against the ledger at the estimated amount', async () => {
+      const swap = await client.createSwap({
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '0.5',
+      });
+
+      expect(swap.uuid).toMatch(/^paper-/);
+      expect(swap.status).toBe('completed');
+      expect(swap.to_amount).toBe('1000');
+      expect(client.getBalance('ETH').toString()).toBe('1.5');
+      expect(client.getBalance('USDT').toString()).toBe('1000');
+
+      expect(await client.getSwap(swap.uuid)).toEqual(swap);
+      expect((await client.getSwaps()).results).toEqual([swap]);
+      expect((await client.getPastSwaps()).count).toBe(1);
+      expect((await client.getActiveSwaps()).count).toBe(0);
+    });
+
+    it('should refuse a swap larger than the balance', async () => {
+      await expect(
+        client.createSwap({ from_currency: 'ETH', to_currency: 'USDT', from_amount: '3' })
+      ).rejects.toThrow('Insufficient paper balance: 3 ETH needed, 2 ETH available');
+      expect(client.getBalance('ETH').toString()).toBe('2');
+      expect((await client.getSwaps()).count).toBe(0);
+    });
+
+    it('should not find swaps that were not simulated', async () => {
+      await expect(client.getSwap('swap-uuid-123')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('Trades', () => {
+    it('should hold fiat when buying and credit the coin once marked paid', async () => {
+      // mockOffer sells BTC at 43250 USD
+      const trade = await client.startTrade({ offer_uuid: mockOffer.uuid, amount: '865' });
+
+      expect(trade.uuid).toMatch(/^paper-/);
+      expect(trade.status).toBe('active');
+      expect(trade.offer.uuid).toBe(mockOffer.uuid);
+      expect(trade.buyer?.username).toBe('paper-trader');
+      expect(trade.seller?.username).toBe(mockOffer.trader.username);
+      expect(client.getBalance('USD').toString()).toBe('9135');
+
+      const completed = await client.markTradePaid(trade.uuid);
+      expect(completed.status).toBe('completed');
+      expect(client.getBalance('BTC').toString()).toBe('0.02');
+      expect((await client.getTrade(trade.uuid)).status).toBe('completed');
+    });
+
+    it('should refund the held amount when a trade is cancelled', async () => {
+      const trade = await client.startTrade({ offer_uuid: mockOffer.uuid, amount: '500' });
+      const cancelled = await client.cancelTrade(trade.uuid);
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(client.getBalance('USD').toString()).toBe('10000');
+      await expect(client.markTradePaid(trade.uuid)).rejects.toThrow(
+        'Trade is "cancelled" and cannot be marked paid'
+      );
+    });
+
+    it('should escrow the coin when selling and pay out fiat on release', async () => {
+      await client.createSwap({ from_currency: 'ETH', to_currency: 'BTC', from_amount: '1' });
+      // offer-uuid-789 buys BTC at 42800 USD, so 428 USD is 0.01 BTC
+      const trade = await client.startTrade({ offer_uuid: 'offer-uuid-789', amount: '428' });
+
+      expect(trade.status).toBe('paid');
+      expect(trade.seller?.username).toBe('paper-trader');
+      expect(client.getBalance('BTC').toString()).toBe('0.04');
+
+      await expect(client.markTradePaid(trade.uuid)).rejects.toThrow(
+        'Only the buyer can mark a trade as paid'
+      );
+      await expect(client.cancelTrade(trade.uuid)).rejects.toThrow('cannot be cancelled');
+
+      const released = await client.releaseTrade(trade.uuid);
+      expect(released.status).toBe('completed');
+      expect(client.getBalance('USD').toString()).toBe('10428');
+    });
+
+    it('should enforce the offer limits and the paper balance', async () => {
+      await expect(
+        client.startTrade({ offer_uuid: mockOffer.uuid, amount: '10' })
+      ).rejects.toThrow('Amount must be between 50 and 5000 USD');
+      await expect(
+        client.startTrade({ offer_uuid: 'offer-uuid-789', amount: '100' })
+      ).rejects.toThrow('Insufficient paper balance');
+    });
+
+    it('should refuse to change live trades and writes it cannot simulate', async () => {
+      await expect(client.releaseTrade('trade-uuid-789')).rejects.toThrow(
+        'is a live trade and cannot be changed in paper trading mode'
+      );
+      await expect(client.sendTradeMessage()).rejects.toThrow(ValidationError);
+      await expect(client.openDispute()).rejects.toThrow(
+        'Opening disputes is not available in paper trading mode'
+      );
+      await expect(client.leaveFeedback()).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('Offers', () => {
+    it('should create, list, update and delete offers locally', async () => {
+      const offer = await client.createOffer({
+        trading_type: 'sell',
+        coin_currency: 'BTC',
+        fiat_currency: 'USD',
+        payment_method: 'bank-transfer',
+        min_trade_size: '100',
+        max_trade_size: '1000',
+        margin: '2',
+      });
+      expect(offer.uuid).toMatch(/^paper-/);
+      expect(offer.payment_method.slug).toBe('bank-transfer');
+
+      const updated = await client.updateOffer(offer.uuid, { margin: '3', is_active: false });
+      expect(updated.margin).toBe('3');
+      expect(updated.is_active).toBe(false);
+      expect(await client.getOffer(offer.uuid)).toEqual(updated);
+      expect((await client.getMyOffers()).results).toEqual([updated]);
+
+      await client.deleteOffer(offer.uuid);
+      expect((await client.getMyOffers()).count).toBe(0);
+      await expect(client.getOffer(offer.uuid)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should refuse to change live offers', async () => {
+      await expect(client.updateOffer(mockOffer.uuid, { margin: '1' })).rejects.toThrow(
+        'is a live offer and cannot be changed in paper trading mode'
+      );
+      await expect(client.deleteOffer(mockOffer.uuid)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  it('should only ever send read-only requests', async () => {
+    await client.createSwap({ from_currency: 'ETH', to_currency: 'USDT', from_amount: '1' });
+    const trade = await client.startTrade({ offer_uuid: mockOffer.uuid, amount: '100' });
+    await client.markTradePaid(trade.uuid);
+
+    for (const [url, init] of mockFetch.mock.calls) {
+      const method = init?.method ?? 'GET';
+      expect(method === 'GET' || url.endsWith('/estimate-swap-amount/')).toBe(true);
+    }
+  });
+
+  describe('getPortfolio', () => {
+    it('should report PnL against the starting balances at current prices', async () => {
+      // 2 ETH is worth 4000 USDT before and after swapping half of it at the same rate
+      await client.createSwap({ from_currency: 'ETH', to_currency: 'USDT', from_amount: '1' });
+
+      const portfolio = await client.getPortfolio();
+      const eth = portfolio.balances.find((b) => b.currency === 'ETH');
+      const usdt = portfolio.balances.find((b) => b.currency === 'USDT');
+
+      expect(portfolio.mode).toBe('paper');
+      expect(portfolio.quote_currency).toBe('USDT');
+      expect(eth).toMatchObject({ starting: '2', current: '1', change: '-1', value: '2000.000000' });
+      expect(usdt).toMatchObject({ starting: '0', current: '2000', value: '2000.000000' });
+      expect(portfolio.pnl).toBe('0.000000');
+      expect(portfolio.swaps).toBe(1);
+      // USD is priced against USDT through P2P offers
+      expect(portfolio.unpriced_currencies).toEqual([]);
+    });
+
+    it('should include funds held in open trades', async () => {
+      await client.startTrade({ offer_uuid: mockOffer.uuid, amount: '1000' });
+
+      const portfolio = await client.getPortfolio('USD');
+      const usd = portfolio.balances.find((b) => b.currency === 'USD');
+
+      expect(usd).toMatchObject({ current: '10000', in_open_trades: '1000', change: '0' });
+      expect(portfolio.trades).toEqual({ open: 1, completed: 0, cancelled: 0 });
+    });
+
+    it('should list currencies it cannot price', async () => {
+      const portfolio = await client.getPortfolio('EUR');
+
+      // Fiat to fiat has no market to price it against
+      expect(portfolio.unpriced_currencies).toContain('USD');
+      expect(portfolio.balances.find((b) => b.currency === 'USD')?.value).toBeNull();
+    });
+  });
+
+  describe('handlePaperPortfolio', () => {
+    it('should return the portfolio in paper mode', async () => {
+      const result = await handlePaperPortfolio(client, { quote_currency: 'usdt' });
+
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0].text).quote_currency).toBe('USDT');
+    });
+
+    it('should explain how to enable paper mode on a live client', async () => {
+      const result = await handlePaperPortfolio(
+        new LocalCoinSwapClient('https://api.localcoinswap.com', 'test-token')
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('LCS_MODE=paper');
+    });
+
+    it('should validate the quote currency', async () => {
+      const result = await handlePaperPortfolio(client, { quote_currency: 'U$D' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid currency symbol');
+    });
+  });
+
+  describe('Handlers', () => {
+    // Nothing in paper mode needs the API token
+    const config = {
+      apiToken: '',
+      apiUrl: 'https://api.localcoinswap.com',
+      requireConfirmation: false,
+    };
+
+    afterEach(() => {
+      resetIdempotency();
+    });
+
+    it('should simulate swaps and trades without an API token', async () => {
+      const swap = await handleCreateSwap(client, config, {
+        from_currency: 'ETH',
+        to_currency: 'USDT',
+        from_amount: '0.5',
+      });
+      const trade = await handleStartTrade(client, config, {
+        offer_uuid: mockOffer.uuid,
+        amount: '865',
+      });
+
+      expect(JSON.parse(swap.content[0].text).swap.uuid).toMatch(/^paper-/);
+      expect(JSON.parse(trade.content[0].text).trade.uuid).toMatch(/^paper-/);
+    });
+  });
+});
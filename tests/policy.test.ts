@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  checkPolicy,
+  configurePolicy,
+  getPolicyStatus,
+  loadPolicyFile,
+  parsePolicy,
+  reserveSpend,
+  resetPolicy,
+  configurePolicyUsageStore,
+  type PolicyRequest,
+} from '../src/policy.js';
+import { PolicyViolationError } from '../src/errors.js';
+import { mockTrader } from './mocks.js';
+
+const swap: PolicyRequest = {
+  action: 'create_swap',
+  amount: '0.5',
+  currency: 'BTC',
+  coins: ['BTC', 'USDT'],
+};
+
+const trade: PolicyRequest = {
+  action: 'start_trade',
+  amount: '250',
+  currency: 'USD',
+  coins: ['BTC'],
+  payment_method: 'bank-transfer',
+  counterparty: mockTrader,
+};
+
+function blockedRule(request: PolicyRequest): string | undefined {
+  try {
+    checkPolicy(request);
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    return (error as PolicyViolationError).rule;
+  }
+}
+
+describe('Policy engine', () => {
+  afterEach(() => {
+    resetPolicy();
+    vi.useRealTimers();
+  });
+
+  describe('parsePolicy', () => {
+    it('should normalise currency symbols', () => {
+      const policy = parsePolicy({
+        max_amount_per_day: { btc: '1' },
+        allowed_coins: ['usdt'],
+      });
+      expect(policy.max_amount_per_day).toEqual({ BTC: '1' });
+      expect(policy.allowed_coins).toEqual(['USDT']);
+    });
+
+    it('should reject unknown rules and invalid amounts', () => {
+      expect(() => parsePolicy({ max_per_day: {} })).toThrow('Invalid policy');
+      expect(() => parsePolicy({ max_amount_per_transaction: { BTC: 0.5 } })).toThrow(
+        'max_amount_per_transaction.BTC'
+      );
+      expect(() => parsePolicy({ auto_approve_below: { BTC: '-1' } })).toThrow(
+        'non-negative decimal'
+      );
+    });
+
+    it('should load a policy file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'lcs-policy-'));
+      try {
+        const file = join(dir, 'policy.json');
+        writeFileSync(file, JSON.stringify({ min_counterparty_trades: 10 }));
+        expect(loadPolicyFile(file)).toMatchObject({ min_counterparty_trades: 10 });
+        expect(() => loadPolicyFile(join(dir, 'missing.json'))).toThrow(
+          'Could not read policy file'
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  it('should allow everything without a policy', () => {
+    expect(checkPolicy(swap)).toEqual({ autoApprove: false });
+  });
+
+  it('should enforce coin, payment method and counterparty allowlists', () => {
+    configurePolicy(parsePolicy({ allowed_coins: ['BTC'] }));
+    expect(blockedRule(swap)).toBe('allowed_coins');
+    expect(blockedRule(trade)).toBeUndefined();
+
+    configurePolicy(parsePolicy({ allowed_payment_methods: ['PayPal'] }));
+    expect(blockedRule(trade)).toBe('allowed_payment_methods');
+    expect(blockedRule({ ...trade, payment_method: 'paypal' })).toBeUndefined();
+
+    configurePolicy(parsePolicy({ allowed_counterparties: ['TestTrader'] }));
+    expect(blockedRule(trade)).toBeUndefined();
+    expect(
+      blockedRule({ ...trade, counterparty: { ...mockTrader, username: 'stranger' } })
+    ).toBe('allowed_counterparties');
+  });
+
+  it('should enforce counterparty minimums', () => {
+    configurePolicy(parsePolicy({ min_counterparty_trades: 200 }));
+    expect(blockedRule(trade)).toBe('min_counterparty_trades');
+
+    configurePolicy(parsePolicy({ min_counterparty_feedback_score: 99 }));
+    expect(blockedRule(trade)).toBe('min_counterparty_feedback_score');
+
+    configurePolicy(parsePolicy({ min_counterparty_trades: 10 }));
+    const { trades_count: _, ...withoutCount } = mockTrader;
+    expect(blockedRule({ ...trade, counterparty: withoutCount })).toBe('min_counterparty_trades');
+  });
+
+  it('should refuse trades the payment method or counterparty rules cannot check', () => {
+    const { payment_method: _method, counterparty: _trader, ...unknown } = trade;
+
+    configurePolicy(parsePolicy({ allowed_payment_methods: ['bank-transfer'] }));
+    expect(blockedRule(unknown)).toBe('allowed_payment_methods');
+    // Swaps have neither, so these rules do not apply to them
+    expect(blockedRule(swap)).toBeUndefined();
+
+    for (const rule of [
+      { allowed_counterparties: ['TestTrader'] },
+      { min_counterparty_trades: 10 },
+      { min_counterparty_feedback_score: 90 },
+    ]) {
+      configurePolicy(parsePolicy(rule));
+      expect(blockedRule(unknown)).toBe(Object.keys(rule)[0]);
+      expect(blockedRule(swap)).toBeUndefined();
+    }
+  });
+
+  it('should enforce per-transaction limits', () => {
+    configurePolicy(parsePolicy({ max_amount_per_transaction: { BTC: '0.5' } }));
+    expect(blockedRule(swap)).toBeUndefined();
+    expect(blockedRule({ ...swap, amount: '0.500000001' })).toBe('max_amount_per_transaction');
+    // Limits only apply to the currency they are set for
+    expect(blockedRule({ ...swap, currency: 'ETH', amount: '10' })).toBeUndefined();
+  });
+
+  it('should count spending towards the daily limit until the UTC day changes', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-12-07T10:00:00Z'));
+    configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+
+    reserveSpend('BTC', '0.6');
+    expect(blockedRule({ ...swap, amount: '0.4' })).toBeUndefined();
+    expect(blockedRule(swap)).toBe('max_amount_per_day');
+    expect(getPolicyStatus()).toMatchObject({ enabled: true, used_today: { BTC: '0.6' } });
+
+    vi.setSystemTime(new Date('2025-12-08T00:00:01Z'));
+    expect(blockedRule(swap)).toBeUndefined();
+  });
+
+  it('should refuse a reservation that would exceed the daily limit', () => {
+    configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+
+    reserveSpend('btc', '0.8');
+    expect(() => reserveSpend('BTC', '0.7')).toThrow(PolicyViolationError);
+    expect(getPolicyStatus()).toMatchObject({ used_today: { BTC: '0.8' } });
+  });
+
+  it('should give back the amount of a failed action once', () => {
+    configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+
+    reserveSpend('BTC', '0.3');
+    const reservation = reserveSpend('BTC', '0.5');
+    reservation.release();
+    reservation.release();
+
+    expect(getPolicyStatus()).toMatchObject({ used_today: { BTC: '0.3' } });
+  });
+
+  it('should let a retry of the same request take over its held reservation', () => {
+    configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+
+    reserveSpend('BTC', '0.8', 'create_swap:abc').hold();
+    expect(blockedRule({ ...swap, amount: '0.8' })).toBe('max_amount_per_day');
+    const retry = { ...swap, amount: '0.8', idempotency_key: 'create_swap:abc' };
+    expect(blockedRule(retry)).toBeUndefined();
+
+    reserveSpend('BTC', '0.8', 'create_swap:abc');
+    expect(getPolicyStatus()).toMatchObject({ used_today: { BTC: '0.8' } });
+  });
+
+  describe('usage store', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'lcs-policy-'));
+      file = join(dir, 'policy-usage.json');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep today\'s usage across restarts', () => {
+      configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+
+      configurePolicyUsageStore(file);
+      reserveSpend('BTC', '0.8');
+
+      // A restart loads the usage back
+      configurePolicyUsageStore(file);
+      expect(blockedRule({ ...swap, amount: '0.7' })).toBe('max_amount_per_day');
+    });
+
+    it('should ignore usage saved on an earlier day', () => {
+      writeFileSync(file, JSON.stringify({ day: '2020-01-01', used: { BTC: '1' } }));
+      configurePolicy(parsePolicy({ max_amount_per_day: { BTC: '1' } }));
+
+      configurePolicyUsageStore(file);
+
+      expect(blockedRule(swap)).toBeUndefined();
+    });
+  });
+
+  it('should auto-approve amounts below the threshold', () => {
+    configurePolicy(parsePolicy({ auto_approve_below: { USD: '100' } }));
+    expect(checkPolicy({ ...trade, amount: '99.99' })).toEqual({ autoApprove: true });
+    expect(checkPolicy({ ...trade, amount: '100' })).toEqual({ autoApprove: false });
+    expect(checkPolicy(swap)).toEqual({ autoApprove: false });
+  });
+
+  it('should name the rule in the error message', () => {
+    configurePolicy(parsePolicy({ max_amount_per_transaction: { USD: '100' } }));
+    expect(() => checkPolicy(trade)).toThrow(
+      '250 USD exceeds the per-transaction limit of 100 USD (policy rule: max_amount_per_transaction)'
+    );
+  });
+});
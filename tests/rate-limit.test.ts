@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TokenBucket, backoffDelay, parseRetryAfter } from '../src/rate-limit.js';
+
+describe('Rate limiting helpers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('backoffDelay', () => {
+    it('should grow exponentially up to the maximum', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+
+      expect(backoffDelay(0, 100, 1000)).toBe(99);
+      expect(backoffDelay(2, 100, 1000)).toBe(399);
+      expect(backoffDelay(10, 100, 1000)).toBe(999);
+    });
+
+    it('should apply full jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect(backoffDelay(3, 100, 1000)).toBe(0);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delays in seconds', () => {
+      expect(parseRetryAfter('5')).toBe(5000);
+      expect(parseRetryAfter('0')).toBe(0);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('2025-12-07T10:00:00Z');
+      expect(parseRetryAfter('Sun, 07 Dec 2025 10:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Sun, 07 Dec 2025 09:00:00 GMT', now)).toBe(0);
+    });
+
+    it('should return null for missing or invalid headers', () => {
+      expect(parseRetryAfter(null)).toBeNull();
+      expect(parseRetryAfter('')).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('TokenBucket', () => {
+    it('should allow bursts up to capacity', async () => {
+      const bucket = new TokenBucket(3, 1);
+
+      await bucket.take();
+      await bucket.take();
+      await bucket.take();
+
+      expect(bucket.available()).toBe(0);
+    });
+
+    it('should wait for tokens to refill', async () => {
+      vi.useFakeTimers();
+      const bucket = new TokenBucket(1, 2);
+      await bucket.take();
+
+      let taken = false;
+      const pending = bucket.take().then(() => {
+        taken = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(400);
+      expect(taken).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await pending;
+      expect(taken).toBe(true);
+    });
+
+    it('should not exceed capacity while idle', () => {
+      vi.useFakeTimers();
+      const bucket = new TokenBucket(2, 10);
+
+      vi.advanceTimersByTime(60000);
+
+      expect(bucket.available()).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  computeTargetMargin,
+  runRepricerPass,
+  runRepricerNow,
+  configureRepricer,
+  getRepricerStatus,
+  resetRepricer,
+  type RepricerSettings,
+} from '../src/repricer.js';
+import { LocalCoinSwapClient } from '../src/api-client.js';
+import type { Offer } from '../src/types.js';
+import { FAKE_API_TOKEN, startFakeApi, type FakeApiHandle } from '../src/fake-api.js';
+import { mockOffer, mockTrader } from './mocks.js';
+
+function competitor(uuid: string, margin: string, tradingType = 'sell'): Offer {
+  return {
+    ...mockOffer,
+    uuid,
+    margin,
+    trading_type: tradingType,
+    trader: { ...mockTrader, username: uuid },
+  };
+}
+
+describe('Repricer', () => {
+  const settings: RepricerSettings = {
+    enabled: true,
+    dryRun: false,
+    intervalMs: 60000,
+    targetPosition: 1,
+    minMargin: '1',
+    maxMargin: '5',
+    step: '0.1',
+  };
+
+  afterEach(() => {
+    resetRepricer();
+    vi.restoreAllMocks();
+  });
+
+  describe('computeTargetMargin', () => {
+    const competitors = [competitor('a', '2.0'), competitor('b', '3.0'), competitor('c', '1.5')];
+
+    function target(offer: Offer, others: Offer[], overrides: Partial<RepricerSettings> = {}) {
+      return computeTargetMargin(offer, others, { ...settings, ...overrides }).toString();
+    }
+
+    it('should undercut the best competing sell offer', () => {
+      expect(target(mockOffer, competitors)).toBe('1.4');
+    });
+
+    it('should position behind the competitors ahead of the target position', () => {
+      expect(target(mockOffer, competitors, { targetPosition: 3 })).toBe('2.9');
+    });
+
+    it('should overbid the best competing buy offer', () => {
+      const buyOffer = { ...mockOffer, trading_type: 'buy' };
+      const buyCompetitors = competitors.map((c) => ({ ...c, trading_type: 'buy' }));
+      expect(target(buyOffer, buyCompetitors)).toBe('3.1');
+    });
+
+    it('should clamp to the configured bounds', () => {
+      expect(target(mockOffer, [competitor('a', '0.5')], { minMargin: '1' })).toBe('1');
+    });
+
+    it('should take the most favourable bound without enough competitors', () => {
+      expect(target(mockOffer, [])).toBe('5');
+      expect(target({ ...mockOffer, trading_type: 'buy' }, [])).toBe('1');
+    });
+
+    it('should ignore competitors without a margin', () => {
+      const noMargin = { ...competitor('x', ''), margin: undefined };
+      expect(target(mockOffer, [noMargin, competitor('a', '2.0')])).toBe('1.9');
+    });
+
+    it('should compute margins exactly', () => {
+      // 0.3 - 0.155 is 0.14499999999999999 as JS numbers, which rounds down to 0.14
+      expect(target(mockOffer, [competitor('a', '0.3')], { minMargin: '0', step: '0.155' })).toBe(
+        '0.15'
+      );
+    });
+  });
+
+  describe('runRepricerPass', () => {
+    let mockClient: LocalCoinSwapClient;
+
+    beforeEach(() => {
+      mockClient = {
+        getMyOffers: vi.fn().mockResolvedValue({
+          count: 1,
+          next: null,
+          previous: null,
+          results: [mockOffer],
+        }),
+        searchOffers: vi.fn().mockResolvedValue({
+          count: 3,
+          next: null,
+          previous: null,
+          results: [mockOffer, competitor('a', '2.0'), competitor('b', '1.0', 'buy')],
+        }),
+        updateOffer: vi.fn().mockResolvedValue(mockOffer),
+        getPage: vi.fn(),
+        paginate: LocalCoinSwapClient.prototype.paginate,
+      } as unknown as LocalCoinSwapClient;
+    });
+
+    it('should search competitors for the same market and apply the new margin', async () => {
+      const report = await runRepricerPass(mockClient, settings);
+
+      // Searching to buy finds the sell offers mockOffer competes with
+      expect(mockClient.searchOffers).toHaveBeenCalledWith({
+        coin_currency: 'BTC',
+        fiat_currency: 'USD',
+        trading_type: 'buy',
+        payment_method: 'bank-transfer',
+      });
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('offer-uuid-456', { margin: '1.90' });
+      expect(report.changes).toEqual([
+        expect.objectContaining({
+          offer_uuid: 'offer-uuid-456',
+          current_margin: '2.5',
+          new_margin: '1.90',
+          competitors: 1,
+          applied: true,
+        }),
+      ]);
+    });
+
+    it('should reprice offers on every page', async () => {
+      (mockClient.getMyOffers as ReturnType<typeof vi.fn>).mockResolvedValue({
+        count: 2,
+        next: 'https://api.localcoinswap.com/api/v2/offers/?page=2',
+        previous: null,
+        results: [mockOffer],
+      });
+      (mockClient.getPage as ReturnType<typeof vi.fn>).mockResolvedValue({
+        count: 2,
+        next: null,
+        previous: 'https://api.localcoinswap.com/api/v2/offers/',
+        results: [{ ...mockOffer, uuid: 'offer-on-page-2' }],
+      });
+
+      const report = await runRepricerPass(mockClient, settings);
+
+      expect(report.offers_checked).toBe(2);
+      expect(mockClient.updateOffer).toHaveBeenCalledWith('offer-on-page-2', { margin: '1.90' });
+    });
+
+    it('should rank competitors from every page of the search', async () => {
+      (mockClient.searchOffers as ReturnType<typeof vi.fn>).mockResolvedValue({
+        count: 2,
+        next: 'https://api.localcoinswap.com/api/v2/offers/search/?page=2',
+        previous: null,
+        results: [competitor('a', '2.0')],
+      });
+      (mockClient.getPage as ReturnType<typeof vi.fn>).mockResolvedValue({
+        count: 2,
+        next: null,
+        previous: 'https://api.localcoinswap.com/api/v2/offers/search/',
+        results: [competitor('c', '1.2')],
+      });
+
+      const report = await runRepricerPass(mockClient, settings);
+
+      expect(mockClient.getPage).toHaveBeenCalledWith(
+        'https://api.localcoinswap.com/api/v2/offers/search/?page=2'
+      );
+      expect(report.changes[0]).toMatchObject({ competitors: 2, new_margin: '1.10' });
+    });
+
+    it('should only report changes in dry-run mode', async () => {
+      const report = await runRepricerPass(mockClient, { ...settings, dryRun: true });
+
+      expect(mockClient.updateOffer).not.toHaveBeenCalled();
+      expect(report.dry_run).toBe(true);
+      expect(report.changes[0].applied).toBe(false);
+    });
+
+    it('should skip offers already at the target margin', async () => {
+      (mockClient.getMyOffers as ReturnType<typeof vi.fn>).mockResolvedValue({
+        count: 1,
+        next: null,
+        previous: null,
+        results: [{ ...mockOffer, margin: '1.9' }],
+      });
+
+      const report = await runRepricerPass(mockClient, settings);
+
+      expect(report.changes).toHaveLength(0);
+      expect(mockClient.updateOffer).not.toHaveBeenCalled();
+    });
+
+    it('should record update failures per offer', async () => {
+      (mockClient.updateOffer as ReturnType<typeof vi.fn>).mockRejectedValue(
+        new Error('Offer locked')
+      );
+
+      const report = await runRepricerPass(mockClient, settings);
+
+      expect(report.changes[0]).toMatchObject({ applied: false, error: 'Offer locked' });
+    });
+
+    it('runRepricerNow should store the report for status', async () => {
+      configureRepricer(mockClient, { ...settings, enabled: false, dryRun: true });
+
+      await runRepricerNow(mockClient);
+
+      const status = getRepricerStatus();
+      expect(status.configured).toBe(true);
+      expect(status.running).toBe(false);
+      expect(status.last_run?.changes).toHaveLength(1);
+    });
+  });
+
+  describe('against the fake API', () => {
+    let fake: FakeApiHandle;
+    let client: LocalCoinSwapClient;
+
+    beforeEach(async () => {
+      fake = await startFakeApi();
+      client = new LocalCoinSwapClient(fake.url, FAKE_API_TOKEN, {
+        cache: null,
+        rateLimit: null,
+        maxRetries: 0,
+      });
+    });
+
+    afterEach(async () => {
+      await fake.close();
+    });
+
+    it('should undercut the competing sell offers', async () => {
+      const offer = await client.createOffer({
+        trading_type: 'sell',
+        coin_currency: 'BTC',
+        fiat_currency: 'USD',
+        payment_method: 'bank-transfer',
+        min_trade_size: '100',
+        max_trade_size: '1000',
+        margin: '5',
+      });
+
+      const report = await runRepricerPass(client, { ...settings, maxMargin: '10' });
+
+      // fake-offer-001 is alice selling BTC for USD by bank transfer at 1.5%
+      expect(report.changes).toEqual([
+        expect.objectContaining({ offer_uuid: offer.uuid, competitors: 1, new_margin: '1.40' }),
+      ]);
+      expect((await client.getOffer(offer.uuid)).margin).toBe('1.40');
+    });
+  });
+});
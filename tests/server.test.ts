@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../src/server.js';
+import { createToolRegistry } from '../src/tools.js';
+import { clearPendingConfirmations } from '../src/handlers.js';
+import { resetIdempotency } from '../src/idempotency.js';
+import { queryAuditLog, resetAuditLog } from '../src/audit.js';
+import { LocalCoinSwapClient } from '../src/api-client.js';
+import type { ServerConfig } from '../src/types.js';
+import {
+  mockCurrencies,
+  mockFiatCurrencies,
+  mockPaymentMethods,
+  mockTradeTypes,
+  mockOffer,
+  mockSwapEstimate,
+  mockSwap,
+  mockTrade,
+} from './mocks.js';
+
+describe('MCP Server', () => {
+  let mockClient: LocalCoinSwapClient;
+  let config: ServerConfig;
+  let mcpClient: Client;
+
+  beforeEach(async () => {
+    mockClient = {
+      getCryptoCurrencies: vi.fn().mockResolvedValue(mockCurrencies),
+      getFiatCurrencies: vi.fn().mockResolvedValue(mockFiatCurrencies),
+      getActiveCryptos: vi.fn().mockResolvedValue(mockCurrencies),
+      getPaymentMethods: vi.fn().mockResolvedValue(mockPaymentMethods),
+      getTradeTypes: vi.fn().mockResolvedValue(mockTradeTypes),
+      getCurrency: vi.fn().mockResolvedValue(mockCurrencies[0]),
+      getOffer: vi.fn().mockResolvedValue(mockOffer),
+      estimateSwap: vi.fn().mockResolvedValue(mockSwapEstimate),
+      createSwap: vi.fn().mockResolvedValue(mockSwap),
+      startTrade: vi.fn().mockResolvedValue(mockTrade),
+      getTrade: vi.fn().mockResolvedValue(mockTrade),
+      getSwap: vi.fn().mockResolvedValue(mockSwap),
+    } as unknown as LocalCoinSwapClient;
+
+    config = {
+      apiToken: 'test-token',
+      apiUrl: 'https://api.test.com',
+      requireConfirmation: true,
+    };
+
+    const server = createServer(config, mockClient, { resourcePollIntervalMs: 20 });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    mcpClient = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), mcpClient.connect(clientTransport)]);
+
+    clearPendingConfirmations();
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+    vi.restoreAllMocks();
+    clearPendingConfirmations();
+    resetIdempotency();
+    resetAuditLog();
+  });
+
+  it('should register every tool in the registry', async () => {
+    const registry = createToolRegistry(config, mockClient);
+    const { tools } = await mcpClient.listTools();
+
+    expect(tools.map((t) => t.name).sort()).toEqual(registry.map((t) => t.name).sort());
+  });
+
+  it('should not register duplicate tool names', () => {
+    const names = createToolRegistry(config, mockClient).map((t) => t.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should route tool calls to the handlers', async () => {
+    const result = await mcpClient.callTool({ name: 'list_currencies', arguments: {} });
+
+    expect(mockClient.getCryptoCurrencies).toHaveBeenCalled();
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content[0].text)[0].symbol).toBe('BTC');
+  });
+
+  it('should apply handler validation', async () => {
+    const result = await mcpClient.callTool({ name: 'get_currency', arguments: { symbol: 'X' } });
+
+    expect(result.isError).toBe(true);
+    expect(mockClient.getCurrency).not.toHaveBeenCalled();
+  });
+
+  it('should use the parameter-bound confirmation flow', async () => {
+    const first = await mcpClient.callTool({
+      name: 'create_swap',
+      arguments: { from_currency: 'ETH', to_currency: 'USDT', from_amount: '1.0' },
+    });
+    const { confirmation_id } = JSON.parse(
+      (first.content as Array<{ type: string; text: string }>)[0].text
+    );
+
+    const mismatched = await mcpClient.callTool({
+      name: 'create_swap',
+      arguments: { from_currency: 'ETH', to_currency: 'USDT', from_amount: '99', confirmation_id },
+    });
+    expect(mismatched.isError).toBe(true);
+    expect(mockClient.createSwap).not.toHaveBeenCalled();
+  });
+
+  it('should execute a confirmed action through the server', async () => {
+    const first = await mcpClient.callTool({
+      name: 'start_trade',
+      arguments: { offer_uuid: 'offer-uuid-456', amount: '500' },
+    });
+    const { confirmation_id } = JSON.parse(
+      (first.content as Array<{ type: string; text: string }>)[0].text
+    );
+
+    const second = await mcpClient.callTool({
+      name: 'start_trade',
+      arguments: { offer_uuid: 'offer-uuid-456', amount: '500', confirmation_id },
+    });
+
+    const parsed = JSON.parse((second.content as Array<{ type: string; text: string }>)[0].text);
+    expect(parsed.status).toBe('trade_started');
+    expect(mockClient.startTrade).toHaveBeenCalledWith({
+      offer_uuid: 'offer-uuid-456',
+      amount: '500',
+    });
+  });
+
+  it('should write every tool call to the audit log', async () => {
+    resetAuditLog();
+    const first = await mcpClient.callTool({
+      name: 'start_trade',
+      arguments: { offer_uuid: 'offer-uuid-456', amount: '500' },
+    });
+    const { confirmation_id } = JSON.parse(
+      (first.content as Array<{ type: string; text: string }>)[0].text
+    );
+    await mcpClient.callTool({
+      name: 'start_trade',
+      arguments: { offer_uuid: 'offer-uuid-456', amount: '500', confirmation_id },
+    });
+
+    const { entries, chain } = queryAuditLog({ tool: 'start_trade' });
+    expect(chain.valid).toBe(true);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ outcome: 'ok', confirmation_issued: confirmation_id });
+    expect(entries[1]).toMatchObject({
+      outcome: 'ok',
+      confirmation_consumed: confirmation_id,
+      trade_uuid: mockTrade.uuid,
+      params: { offer_uuid: 'offer-uuid-456', amount: '500', confirmation_id },
+    });
+  });
+
+  describe('resources', () => {
+    it('should list the reference data resources', async () => {
+      const { resources } = await mcpClient.listResources();
+      const uris = resources.map((r) => r.uri);
+
+      expect(uris).toEqual(
+        expect.arrayContaining([
+          'lcs://currencies/crypto',
+          'lcs://currencies/fiat',
+          'lcs://currencies/active',
+          'lcs://payment-methods',
+          'lcs://trade-types',
+        ])
+      );
+      // Template entries enumerated from the crypto currency list
+      expect(uris).toContain('lcs://currency/BTC');
+    });
+
+    it('should advertise the currency resource template', async () => {
+      const { resourceTemplates } = await mcpClient.listResourceTemplates();
+
+      expect(resourceTemplates.map((t) => t.uriTemplate)).toContain('lcs://currency/{symbol}');
+    });
+
+    it('should read a static resource as JSON', async () => {
+      const result = await mcpClient.readResource({ uri: 'lcs://payment-methods' });
+
+      expect(mockClient.getPaymentMethods).toHaveBeenCalled();
+      expect(result.contents[0].mimeType).toBe('application/json');
+      expect(JSON.parse(result.contents[0].text as string)).toEqual(mockPaymentMethods);
+    });
+
+    it('should read a currency through the template', async () => {
+      const result = await mcpClient.readResource({ uri: 'lcs://currency/btc' });
+
+      expect(mockClient.getCurrency).toHaveBeenCalledWith('BTC');
+      expect(JSON.parse(result.contents[0].text as string).symbol).toBe('BTC');
+    });
+
+    it('should reject invalid currency symbols', async () => {
+      await expect(mcpClient.readResource({ uri: 'lcs://currency/X' })).rejects.toThrow(
+        'Invalid currency symbol'
+      );
+      expect(mockClient.getCurrency).not.toHaveBeenCalled();
+    });
+
+    it('should read a trade through the template', async () => {
+      const result = await mcpClient.readResource({ uri: 'lcs://trade/trade-uuid-def' });
+
+      expect(mockClient.getTrade).toHaveBeenCalledWith('trade-uuid-def');
+      expect(JSON.parse(result.contents[0].text as string).status).toBe('active');
+    });
+
+    it('should send an update notification when a subscribed trade changes status', async () => {
+      const updated = new Promise<string>((resolve) => {
+        mcpClient.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+          resolve(notification.params.uri);
+        });
+      });
+
+      await mcpClient.subscribeResource({ uri: 'lcs://trade/trade-uuid-def' });
+      vi.mocked(mockClient.getTrade).mockResolvedValue({ ...mockTrade, status: 'paid' });
+
+      expect(await updated).toBe('lcs://trade/trade-uuid-def');
+      await mcpClient.unsubscribeResource({ uri: 'lcs://trade/trade-uuid-def' });
+    });
+
+    it('should reject subscriptions to resources that cannot change', async () => {
+      await expect(
+        mcpClient.subscribeResource({ uri: 'lcs://currencies/crypto' })
+      ).rejects.toThrow('does not support subscriptions');
+    });
+  });
+
+  describe('prompts', () => {
+    it('should list the guided workflow prompts', async () => {
+      const { prompts } = await mcpClient.listPrompts();
+
+      expect(prompts.map((p) => p.name).sort()).toEqual([
+        'buy_crypto_p2p',
+        'review_open_trades',
+        'swap_with_best_rate',
+      ]);
+      const buy = prompts.find((p) => p.name === 'buy_crypto_p2p');
+      expect(buy?.arguments?.map((a) => a.name)).toEqual([
+        'coin',
+        'fiat',
+        'amount',
+        'payment_method',
+      ]);
+    });
+
+    it('should expand arguments into tool-level instructions', async () => {
+      const result = await mcpClient.getPrompt({
+        name: 'buy_crypto_p2p',
+        arguments: { coin: 'btc', fiat: 'usd', amount: '100', payment_method: 'paypal' },
+      });
+      const text = (result.messages[0].content as { type: string; text: string }).text;
+
+      expect(result.messages[0].role).toBe('user');
+      expect(text).toContain('coin_currency="BTC", fiat_currency="USD"');
+      expect(text).toContain('payment_method="paypal"');
+      expect(text).toContain('start_trade');
+      expect(text).toContain('confirmation_id');
+    });
+
+    it('should include slippage protection in the swap prompt', async () => {
+      const result = await mcpClient.getPrompt({
+        name: 'swap_with_best_rate',
+        arguments: { from_currency: 'ETH', to_currency: 'USDT', amount: '0.5' },
+      });
+      const text = (result.messages[0].content as { type: string; text: string }).text;
+
+      expect(text).toContain('max_slippage_percent=1');
+      expect(text).toContain('wait_for_swap');
+    });
+
+    it('should expand the prompt without arguments', async () => {
+      const result = await mcpClient.getPrompt({ name: 'review_open_trades' });
+      const text = (result.messages[0].content as { type: string; text: string }).text;
+
+      expect(text).toContain('get_my_trades');
+      expect(text).toContain('get_my_swaps');
+    });
+
+    it('should reject missing required arguments', async () => {
+      await expect(
+        mcpClient.getPrompt({ name: 'buy_crypto_p2p', arguments: { coin: 'BTC' } })
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createResourceWatcher,
+  isSubscribableUri,
+  type ResourceWatcher,
+} from '../src/subscriptions.js';
+import { LocalCoinSwapClient } from '../src/api-client.js';
+import { mockSwap, mockTrade } from './mocks.js';
+
+describe('Resource subscriptions', () => {
+  let mockClient: LocalCoinSwapClient;
+  let notify: ReturnType<typeof vi.fn>;
+  let watcher: ResourceWatcher;
+
+  beforeEach(() => {
+    mockClient = {
+      getTrade: vi.fn().mockResolvedValue(mockTrade),
+      getSwap: vi.fn().mockResolvedValue({ ...mockSwap, status: 'processing' }),
+      getActiveSwaps: vi.fn().mockResolvedValue({
+        count: 1,
+        next: null,
+        previous: null,
+        results: [{ ...mockSwap, status: 'processing' }],
+      }),
+    } as unknown as LocalCoinSwapClient;
+    notify = vi.fn();
+    watcher = createResourceWatcher(mockClient, notify, 60000);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    vi.restoreAllMocks();
+  });
+
+  describe('isSubscribableUri', () => {
+    it('should accept trade and swap URIs only', () => {
+      expect(isSubscribableUri('lcs://trade/trade-uuid-def')).toBe(true);
+      expect(isSubscribableUri('lcs://swap/swap-uuid-abc')).toBe(true);
+      expect(isSubscribableUri('lcs://currencies/crypto')).toBe(false);
+      expect(isSubscribableUri('lcs://trade/')).toBe(false);
+    });
+  });
+
+  it('should refuse unsupported URIs', async () => {
+    expect(await watcher.subscribe('lcs://payment-methods')).toBe(false);
+    expect(watcher.subscriptions()).toEqual([]);
+  });
+
+  it('should notify when a trade status changes', async () => {
+    await watcher.subscribe('lcs://trade/trade-uuid-def');
+    expect(mockClient.getTrade).toHaveBeenCalledWith('trade-uuid-def');
+
+    await watcher.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    vi.mocked(mockClient.getTrade).mockResolvedValue({ ...mockTrade, status: 'paid' });
+    await watcher.poll();
+    expect(notify).toHaveBeenCalledWith('lcs://trade/trade-uuid-def');
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should poll active swaps and fall back to getSwap for finished ones', async () => {
+    await watcher.subscribe('lcs://swap/swap-uuid-abc');
+
+    await watcher.poll();
+    expect(mockClient.getActiveSwaps).toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+
+    vi.mocked(mockClient.getActiveSwaps).mockResolvedValue({
+      count: 0,
+      next: null,
+      previous: null,
+      results: [],
+    });
+    vi.mocked(mockClient.getSwap).mockResolvedValue(mockSwap);
+    await watcher.poll();
+
+    expect(mockClient.getSwap).toHaveBeenLastCalledWith('swap-uuid-abc');
+    expect(notify).toHaveBeenCalledWith('lcs://swap/swap-uuid-abc');
+  });
+
+  it('should use the first successful poll as the baseline when the initial fetch fails', async () => {
+    vi.mocked(mockClient.getTrade).mockRejectedValueOnce(new Error('API Error (500): boom'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await watcher.subscribe('lcs://trade/trade-uuid-def')).toBe(true);
+    await watcher.poll();
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    await watcher.subscribe('lcs://trade/trade-uuid-def');
+    watcher.unsubscribe('lcs://trade/trade-uuid-def');
+
+    vi.mocked(mockClient.getTrade).mockResolvedValue({ ...mockTrade, status: 'paid' });
+    await watcher.poll();
+
+    expect(watcher.subscriptions()).toEqual([]);
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should poll in the background on the configured interval', async () => {
+    vi.useFakeTimers();
+    try {
+      await watcher.subscribe('lcs://trade/trade-uuid-def');
+      vi.mocked(mockClient.getTrade).mockResolvedValue({ ...mockTrade, status: 'paid' });
+
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(notify).toHaveBeenCalledWith('lcs://trade/trade-uuid-def');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});